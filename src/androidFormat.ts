@@ -0,0 +1,317 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+import {
+  escapeXml,
+  getAttribute,
+  PlaceholderText,
+  replaceWithPlaceholders,
+  restorePlaceholders,
+  unescapeXml,
+} from "./xmlUtils";
+
+// Comments come first so resources that are commented out are left alone
+const RESOURCE_REGEX =
+  /(\r?\n[ \t]*)?(?:<!--[\s\S]*?-->|<(string-array|string|plurals)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/\2>))/g;
+const ITEM_REGEX = /(\s*)<item\b([^>]*?)(?:\/>|>([\s\S]*?)<\/item>)/g;
+// <xliff:g> marks text that must not be translated, other tags are HTML styling
+const INLINE_ELEMENT_REGEX = /<xliff:g\b[^>]*>[\s\S]*?<\/xliff:g>|<[^>]+>/g;
+const CDATA_REGEX = /^<!\[CDATA\[([\s\S]*)\]\]>$/;
+// References to other resources (@string/app_name, ?attr/name) are not translated
+const REFERENCE_REGEX = /^\s*[@?][\w:.]*\//;
+
+// Android quantities are the CLDR plural categories, in the order they are written
+const PLURAL_QUANTITIES = ["zero", "one", "two", "few", "many", "other"];
+
+interface AndroidItem {
+  /** Whitespace before <item> */
+  indent: string;
+  attributes: string;
+  /** Inner XML of <item>, undefined when self-closing */
+  value?: string;
+}
+
+/**
+ * Android string resources (res/values/strings.xml)
+ * <string>, <string-array> and <plurals> are sent by name, plurals use
+ * i18next-style suffixes (name_one, name_other) so the API generates
+ * the quantities the target language needs
+ */
+export class AndroidFormatHandler implements FileFormatHandler {
+  readonly displayName = "Android";
+  readonly extensions = [".xml"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = true;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    const strings: Record<string, string | string[]> = {};
+
+    this.rewriteResources(content, (type, name, attributes, value) => {
+      if (value === undefined || !isTranslatable(attributes)) {
+        return undefined;
+      }
+
+      if (type === "string") {
+        if (!isReference(value)) {
+          strings[name] = toText(value).text;
+        }
+      } else if (type === "string-array") {
+        const items = getTranslatableItems(value);
+        if (items.length > 0) {
+          strings[name] = items.map((item) => toText(item).text);
+        }
+      } else {
+        for (const item of parseItems(value)) {
+          const quantity = getAttribute(item.attributes, "quantity");
+          if (quantity && item.value !== undefined) {
+            strings[`${name}_${quantity}`] = toText(item.value).text;
+          }
+        }
+      }
+      return undefined;
+    });
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(content: string): string {
+    return this.toJson(content);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+
+    return this.rewriteResources(
+      context.sourceContent,
+      (type, name, attributes, value) => {
+        // Empty self-closing resources are copied as they are
+        if (value === undefined) {
+          return undefined;
+        }
+
+        // Lint reports untranslatable strings in locale folders, leave them out
+        if (!isTranslatable(attributes)) {
+          return "";
+        }
+
+        if (type === "string") {
+          if (isReference(value)) {
+            return undefined;
+          }
+          const translation = translated[name];
+          return typeof translation === "string"
+            ? `<string${attributes}>${fromText(translation, value)}</string>`
+            : "";
+        }
+
+        if (type === "string-array") {
+          if (getTranslatableItems(value).length === 0) {
+            return undefined;
+          }
+
+          const translation = translated[name];
+          if (!Array.isArray(translation)) {
+            return "";
+          }
+
+          let index = 0;
+          const items = value.replace(
+            ITEM_REGEX,
+            (itemXml, indent: string, itemAttributes: string, itemValue) => {
+              if (!itemValue || isReference(itemValue)) {
+                return itemXml;
+              }
+              const itemTranslation = translation[index++];
+              return typeof itemTranslation === "string"
+                ? `${indent}<item${itemAttributes}>${fromText(
+                    itemTranslation,
+                    itemValue
+                  )}</item>`
+                : itemXml;
+            }
+          );
+          return `<string-array${attributes}>${items}</string-array>`;
+        }
+
+        return this.buildPlurals(name, attributes, value, translated);
+      }
+    );
+  }
+
+  /**
+   * Writes one <item> per quantity returned for the target language
+   */
+  private buildPlurals(
+    name: string,
+    attributes: string,
+    value: string,
+    translated: Record<string, unknown>
+  ): string {
+    const sourceItems = new Map<string, string>();
+    for (const item of parseItems(value)) {
+      const quantity = getAttribute(item.attributes, "quantity");
+      if (quantity && item.value !== undefined) {
+        sourceItems.set(quantity, item.value);
+      }
+    }
+
+    const firstItem = parseItems(value)[0];
+    const itemIndent = firstItem?.indent ?? "";
+    const closingIndent = value.match(/\s*$/)?.[0] ?? "";
+    const fallbackSource =
+      sourceItems.get("other") ?? Array.from(sourceItems.values()).pop() ?? "";
+
+    const items = PLURAL_QUANTITIES.filter(
+      (quantity) => typeof translated[`${name}_${quantity}`] === "string"
+    ).map((quantity) => {
+      const translation = translated[`${name}_${quantity}`] as string;
+      const source = sourceItems.get(quantity) ?? fallbackSource;
+      return `${itemIndent}<item quantity="${quantity}">${fromText(
+        translation,
+        source
+      )}</item>`;
+    });
+
+    if (items.length === 0) {
+      return "";
+    }
+
+    return `<plurals${attributes}>${items.join("")}${closingIndent}</plurals>`;
+  }
+
+  /**
+   * Calls rewrite for every resource element; it returns the replacement XML,
+   * an empty string to remove the element or undefined to keep it unchanged
+   */
+  private rewriteResources(
+    content: string,
+    rewrite: (
+      type: string,
+      name: string,
+      attributes: string,
+      value: string | undefined
+    ) => string | undefined
+  ): string {
+    return content.replace(
+      RESOURCE_REGEX,
+      (
+        resourceXml,
+        leadingWhitespace: string | undefined,
+        type: string | undefined,
+        attributes: string,
+        value: string | undefined
+      ) => {
+        const name = type ? getAttribute(attributes, "name") : undefined;
+        if (!type || !name) {
+          return resourceXml;
+        }
+
+        const output = rewrite(type, name, attributes, value);
+        if (output === undefined) {
+          return resourceXml;
+        }
+        return output === "" ? "" : `${leadingWhitespace ?? ""}${output}`;
+      }
+    );
+  }
+}
+
+function parseItems(xml: string): AndroidItem[] {
+  return Array.from(xml.matchAll(ITEM_REGEX), (match) => ({
+    indent: match[1],
+    attributes: match[2],
+    value: match[3],
+  }));
+}
+
+/**
+ * Returns the values of array items that aren't resource references
+ */
+function getTranslatableItems(xml: string): string[] {
+  return parseItems(xml)
+    .map((item) => item.value)
+    .filter((value): value is string => !!value && !isReference(value));
+}
+
+function isTranslatable(attributes: string): boolean {
+  return getAttribute(attributes, "translatable") !== "false";
+}
+
+function isReference(value: string): boolean {
+  return REFERENCE_REGEX.test(value);
+}
+
+/**
+ * Decodes a resource value into plain text with placeholders for inline markup
+ */
+function toText(xml: string): PlaceholderText {
+  const cdata = xml.match(CDATA_REGEX);
+  const { text, placeholders } = replaceWithPlaceholders(
+    cdata ? cdata[1] : xml,
+    INLINE_ELEMENT_REGEX
+  );
+
+  return {
+    text: unescapeAndroid(cdata ? text : unescapeXml(text)),
+    placeholders,
+  };
+}
+
+/**
+ * Encodes translated text as a resource value, keeping the source's markup,
+ * CDATA section and surrounding quotes
+ */
+function fromText(text: string, sourceXml: string): string {
+  const cdata = sourceXml.match(CDATA_REGEX);
+  const sourceValue = cdata ? cdata[1] : sourceXml;
+  const { placeholders } = replaceWithPlaceholders(
+    sourceValue,
+    INLINE_ELEMENT_REGEX
+  );
+
+  const escaped = escapeAndroid(text, isQuoted(sourceValue));
+  const value = restorePlaceholders(
+    cdata ? escaped : escapeXml(escaped),
+    placeholders
+  );
+  return cdata ? `<![CDATA[${value}]]>` : value;
+}
+
+function isQuoted(value: string): boolean {
+  return /^"[\s\S]*"$/.test(value.trim());
+}
+
+function unescapeAndroid(value: string): string {
+  const text = isQuoted(value) ? value.trim().slice(1, -1) : value;
+  return text.replace(/\\(u[0-9a-fA-F]{4}|[\s\S])/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "u":
+        return String.fromCharCode(parseInt(escape.substring(1), 16));
+      default:
+        return escape;
+    }
+  });
+}
+
+/**
+ * Escapes backslashes, quotes, apostrophes and new lines, and a leading @ or ?
+ * that Android would otherwise read as a resource reference
+ * Quoted values keep apostrophes and whitespace as they are
+ */
+function escapeAndroid(text: string, quoted: boolean): string {
+  let escaped = text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t");
+
+  if (quoted) {
+    return `"${escaped}"`;
+  }
+
+  escaped = escaped.replace(/'/g, "\\'");
+  return /^[@?]/.test(escaped) ? `\\${escaped}` : escaped;
+}
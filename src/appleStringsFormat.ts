@@ -0,0 +1,311 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+import { escapeXml, unescapeXml } from "./xmlUtils";
+
+// Comments are matched first so their content is never read as an entry
+const STRINGS_ENTRY_REGEX =
+  /(\/\*[\s\S]*?\*\/|\/\/[^\n]*)|("(?:[^"\\]|\\[\s\S])*"|[\w.\-:$/]+)(\s*=\s*)("(?:[^"\\]|\\[\s\S])*")(\s*;)/g;
+const PLIST_TOKEN_REGEX =
+  /<!--[\s\S]*?-->|<key>([\s\S]*?)<\/key>|<string>([\s\S]*?)<\/string>|<string\/>|<dict>|<\/dict>/g;
+
+// Default comment written by genstrings, it carries no context
+const EMPTY_COMMENT = "No comment provided by engineer.";
+const FORMAT_KEY = "NSStringLocalizedFormatKey";
+const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+interface PlistString {
+  /** Keys of the enclosing dictionaries below the root, ending with the string's key */
+  path: string[];
+  value: string;
+  /** Offset of the <key> element */
+  start: number;
+  /** Offset after the <string> element */
+  end: number;
+}
+
+/**
+ * Legacy Apple localization files in <lang>.lproj folders
+ * Localizable.strings entries are sent by key with their comment as context,
+ * Localizable.stringsdict plural rules use i18next-style suffixes per variable
+ */
+export class AppleStringsFormatHandler implements FileFormatHandler {
+  readonly displayName = "Apple Strings";
+  readonly extensions = [".strings", ".stringsdict"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = true;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    const strings = isPlist(content)
+      ? this.readStringsDict(content)
+      : this.readStrings(content);
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(content: string): string {
+    return this.toJson(content);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+    return isPlist(context.sourceContent)
+      ? this.writeStringsDict(context.sourceContent, translated)
+      : this.writeStrings(context.sourceContent, translated);
+  }
+
+  private readStrings(content: string): Record<string, string> {
+    const strings: Record<string, string> = {};
+    this.rewriteStrings(content, (jsonKey, value) => {
+      strings[jsonKey] = value;
+      return undefined;
+    });
+    return strings;
+  }
+
+  private writeStrings(
+    content: string,
+    translated: Record<string, unknown>
+  ): string {
+    return this.rewriteStrings(content, (jsonKey) => {
+      const translation = translated[jsonKey];
+      return typeof translation === "string" ? translation : undefined;
+    });
+  }
+
+  /**
+   * Calls rewrite for every "key" = "value"; entry, a returned string replaces the value
+   */
+  private rewriteStrings(
+    content: string,
+    rewrite: (jsonKey: string, value: string) => string | undefined
+  ): string {
+    let comment: string | undefined;
+
+    return content.replace(
+      STRINGS_ENTRY_REGEX,
+      (
+        match,
+        commentText: string | undefined,
+        key: string,
+        separator: string,
+        value: string,
+        terminator: string
+      ) => {
+        if (commentText) {
+          comment = commentText.replace(/^\/\*|\*\/$|^\/\//g, "").trim();
+          return match;
+        }
+
+        const entryKey = key.startsWith('"') ? unescapeString(key) : key;
+        const jsonKey =
+          comment && comment !== EMPTY_COMMENT
+            ? `${entryKey} (${comment})`
+            : entryKey;
+        comment = undefined;
+
+        const translation = rewrite(jsonKey, unescapeString(value));
+        return translation === undefined
+          ? match
+          : `${key}${separator}${escapeString(translation)}${terminator}`;
+      }
+    );
+  }
+
+  private readStringsDict(
+    content: string
+  ): Record<string, Record<string, string>> {
+    const strings: Record<string, Record<string, string>> = {};
+
+    for (const { path, value } of parsePlistStrings(content)) {
+      const [entry, variable, category] = path;
+      if (path.length === 2 && variable === FORMAT_KEY) {
+        // A format key made only of variables (%#@items@) has nothing to translate
+        if (hasText(value)) {
+          strings[entry] ??= {};
+          strings[entry][FORMAT_KEY] = value;
+        }
+      } else if (path.length === 3 && PLURAL_CATEGORIES.includes(category)) {
+        strings[entry] ??= {};
+        strings[entry][`${variable}_${category}`] = value;
+      }
+    }
+
+    return strings;
+  }
+
+  private writeStringsDict(
+    content: string,
+    translated: Record<string, unknown>
+  ): string {
+    const edits: { start: number; end: number; text: string }[] = [];
+    const pluralRules = new Map<string, PlistString[]>();
+
+    for (const plistString of parsePlistStrings(content)) {
+      const [entry, variable, category] = plistString.path;
+      const entryTranslations = translated[entry] as
+        Record<string, unknown> | undefined;
+
+      if (plistString.path.length === 2 && variable === FORMAT_KEY) {
+        const translation = entryTranslations?.[FORMAT_KEY];
+        if (typeof translation === "string") {
+          edits.push({
+            ...plistString,
+            text: formatPair(
+              content,
+              plistString.start,
+              FORMAT_KEY,
+              translation
+            ),
+          });
+        }
+      } else if (
+        plistString.path.length === 3 &&
+        PLURAL_CATEGORIES.includes(category)
+      ) {
+        const ruleKey = `${entry}\n${variable}`;
+        pluralRules.set(ruleKey, [
+          ...(pluralRules.get(ruleKey) ?? []),
+          plistString,
+        ]);
+      }
+    }
+
+    // Plural rules get one key per category of the target language
+    for (const sourcePairs of pluralRules.values()) {
+      const [entry, variable] = sourcePairs[0].path;
+      const entryTranslations = translated[entry] as
+        Record<string, unknown> | undefined;
+      const pairs = PLURAL_CATEGORIES.filter(
+        (category) =>
+          typeof entryTranslations?.[`${variable}_${category}`] === "string"
+      ).map((category) =>
+        formatPair(
+          content,
+          sourcePairs[0].start,
+          category,
+          entryTranslations![`${variable}_${category}`] as string
+        )
+      );
+
+      if (pairs.length === 0) {
+        continue;
+      }
+
+      const [first, ...rest] = sourcePairs;
+      const indent = getIndent(content, first.start);
+      edits.push({ ...first, text: pairs.join(`\n${indent}`) });
+      for (const pair of rest) {
+        // Remove the pair together with the whitespace before it
+        const lineStart = content.lastIndexOf("\n", pair.start);
+        edits.push({ start: lineStart, end: pair.end, text: "" });
+      }
+    }
+
+    return edits
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (output, edit) =>
+          output.substring(0, edit.start) +
+          edit.text +
+          output.substring(edit.end),
+        content
+      );
+  }
+}
+
+function isPlist(content: string): boolean {
+  return content.trimStart().startsWith("<");
+}
+
+function hasText(format: string): boolean {
+  return format.replace(/%#@[^@]+@/g, "").trim() !== "";
+}
+
+/**
+ * Reads every <key>/<string> pair with the keys of the dictionaries it is nested in
+ */
+function parsePlistStrings(content: string): PlistString[] {
+  const strings: PlistString[] = [];
+  const stack: string[] = [];
+  let pendingKey: { key: string; start: number } | undefined;
+
+  for (const match of content.matchAll(PLIST_TOKEN_REGEX)) {
+    const [token, key, value] = match;
+    if (token.startsWith("<!--")) {
+      continue;
+    }
+
+    if (key !== undefined) {
+      pendingKey = { key: unescapeXml(key), start: match.index };
+      continue;
+    }
+
+    if (token === "<dict>") {
+      stack.push(pendingKey?.key ?? "");
+    } else if (token === "</dict>") {
+      stack.pop();
+    } else if (pendingKey) {
+      strings.push({
+        path: [...stack.slice(1), pendingKey.key],
+        value: unescapeXml(value ?? ""),
+        start: pendingKey.start,
+        end: match.index + token.length,
+      });
+    }
+    pendingKey = undefined;
+  }
+
+  return strings;
+}
+
+function getIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf("\n", offset) + 1;
+  return content.substring(lineStart, offset);
+}
+
+/**
+ * Formats a <key>/<string> pair on two lines with the indentation of the source pair
+ */
+function formatPair(
+  content: string,
+  offset: number,
+  key: string,
+  value: string
+): string {
+  const indent = getIndent(content, offset);
+  return `<key>${escapeXml(key)}</key>\n${indent}<string>${escapeXml(
+    value
+  )}</string>`;
+}
+
+function unescapeString(quoted: string): string {
+  return quoted
+    .slice(1, -1)
+    .replace(
+      /\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|[\s\S])/g,
+      (_, escape: string) => {
+        switch (escape[0]) {
+          case "n":
+            return "\n";
+          case "t":
+            return "\t";
+          case "r":
+            return "\r";
+          case "U":
+          case "u":
+            return String.fromCharCode(parseInt(escape.substring(1), 16));
+          default:
+            return escape;
+        }
+      }
+    );
+}
+
+function escapeString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r");
+  return `"${escaped}"`;
+}
@@ -0,0 +1,280 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { I18nProjectManager } from "./i18nProjectManager";
+import {
+  detectFileFormat,
+  FileFormat,
+  getFileFormatHandler,
+} from "./fileFormats";
+import { getChangedKeys, getLocaleCoverage } from "./localeCoverage";
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  findProjectConfig,
+  isExcludedByProjectConfig,
+  matchesGlobPatterns,
+} from "./projectConfig";
+import { logInfo, showAndLogError } from "./logger";
+import { COMMANDS, CONFIG } from "./constants";
+
+// Saving several times in a row, e.g. with format on save, syncs once
+const SYNC_DELAY_MS = 1500;
+const DEFAULT_CONFIRM_THRESHOLD = 100;
+
+/**
+ * Translates the given changes of a source file into its target files
+ */
+export type SyncHandler = (
+  uri: vscode.Uri,
+  fileFormat: FileFormat,
+  targetLanguages: string[],
+  changedKeys: string[]
+) => Promise<void>;
+
+/**
+ * Updates the target files of a source locale file when it is saved
+ * New keys and keys whose source text changed since the last sync are translated
+ * through the "translate only new strings" path
+ */
+export class AutoSyncController implements vscode.Disposable {
+  private readonly statusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    100
+  );
+  // Source text of each file at the last sync, or when it was opened
+  private readonly snapshots = new Map<string, string>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly syncing = new Set<string>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly i18nProjectManager: I18nProjectManager,
+    private readonly sync: SyncHandler
+  ) {
+    this.statusBarItem.command = COMMANDS.TOGGLE_AUTO_SYNC;
+
+    for (const document of vscode.workspace.textDocuments) {
+      this.takeSnapshot(document);
+    }
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.takeSnapshot(document)
+      ),
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this.scheduleSync(document.uri.fsPath)
+      ),
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(CONFIG.SECTION)) {
+          this.updateStatusBar();
+        }
+      })
+    );
+    this.updateStatusBar();
+  }
+
+  /**
+   * Turns auto-sync on or off for the workspace, or for the user without a workspace
+   */
+  async toggle() {
+    const enabled = this.isEnabled();
+    await vscode.workspace
+      .getConfiguration(CONFIG.SECTION)
+      .update(
+        CONFIG.KEYS.AUTO_SYNC,
+        !enabled,
+        vscode.workspace.workspaceFolders
+          ? vscode.ConfigurationTarget.Workspace
+          : vscode.ConfigurationTarget.Global
+      );
+    vscode.window.showInformationMessage(
+      `Auto-sync of locale files is ${enabled ? "off" : "on"}.`
+    );
+  }
+
+  dispose() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.statusBarItem.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private isEnabled(uri?: vscode.Uri): boolean {
+    return vscode.workspace
+      .getConfiguration(CONFIG.SECTION, uri)
+      .get<boolean>(CONFIG.KEYS.AUTO_SYNC, false);
+  }
+
+  /**
+   * The toggle is shown while a locale file is open in the editor
+   */
+  private updateStatusBar() {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    if (!uri || !detectFileFormat(uri.fsPath)) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const enabled = this.isEnabled(uri);
+    this.statusBarItem.text = enabled
+      ? "$(sync) Auto-sync"
+      : "$(sync-ignored) Auto-sync";
+    this.statusBarItem.tooltip = enabled
+      ? "Target locale files are updated when source files are saved. Click to turn off."
+      : "Click to update target locale files when source files are saved.";
+    this.statusBarItem.show();
+  }
+
+  private takeSnapshot(document: vscode.TextDocument) {
+    const filePath = document.uri.fsPath;
+    if (
+      document.uri.scheme === "file" &&
+      detectFileFormat(filePath) &&
+      !this.snapshots.has(filePath)
+    ) {
+      this.snapshots.set(filePath, document.getText());
+    }
+  }
+
+  private scheduleSync(filePath: string) {
+    if (!detectFileFormat(filePath)) {
+      return;
+    }
+    clearTimeout(this.timers.get(filePath));
+    this.timers.set(
+      filePath,
+      setTimeout(() => {
+        this.timers.delete(filePath);
+        // Saves during a sync are synced after it
+        if (this.syncing.has(filePath)) {
+          this.scheduleSync(filePath);
+          return;
+        }
+        this.syncing.add(filePath);
+        this.syncFile(filePath)
+          .catch((error) =>
+            showAndLogError(
+              `Auto-sync of ${path.basename(filePath)} failed: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`,
+              error,
+              `File: ${filePath}`
+            )
+          )
+          .finally(() => this.syncing.delete(filePath));
+      }, SYNC_DELAY_MS)
+    );
+  }
+
+  private async syncFile(filePath: string) {
+    const uri = vscode.Uri.file(filePath);
+    const fileFormat = detectFileFormat(filePath);
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const config = vscode.workspace.getConfiguration(CONFIG.SECTION, uri);
+    const allowedFiles = config.get<string[]>(CONFIG.KEYS.AUTO_SYNC_FILES, []);
+    if (
+      !fileFormat ||
+      !this.isEnabled(uri) ||
+      (allowedFiles.length > 0 &&
+        !matchesGlobPatterns(
+          workspaceFolder?.uri.fsPath ?? path.dirname(filePath),
+          filePath,
+          allowedFiles
+        ))
+    ) {
+      return;
+    }
+
+    const projectConfig = findProjectConfig(
+      filePath,
+      workspaceFolder?.uri.fsPath
+    );
+    const configSourceLanguage = projectConfig?.config.sourceLanguage;
+    if (
+      !this.i18nProjectManager.isSourceFile(
+        filePath,
+        configSourceLanguage ?? DEFAULT_SOURCE_LANGUAGE
+      ) ||
+      (projectConfig && isExcludedByProjectConfig(projectConfig, filePath))
+    ) {
+      return;
+    }
+
+    const detectedLanguages =
+      this.i18nProjectManager.detectLanguagesFromProject(filePath);
+    const targetLanguages = (
+      detectedLanguages.length > 0
+        ? detectedLanguages
+        : (projectConfig?.config.targetLanguages ?? [])
+    ).filter((language) => language !== configSourceLanguage);
+    if (targetLanguages.length === 0) {
+      return; // Nothing to sync until the first translation
+    }
+
+    const formatHandler = getFileFormatHandler(fileFormat);
+    const sourceLanguage =
+      this.i18nProjectManager.detectSourceLanguage(filePath) ??
+      configSourceLanguage;
+    const content = fs.readFileSync(filePath, "utf8");
+    const previousContent = this.snapshots.get(filePath);
+    const changedKeys =
+      previousContent === undefined
+        ? []
+        : getChangedKeys(
+            formatHandler.toJson(previousContent, sourceLanguage),
+            formatHandler.toJson(content, sourceLanguage)
+          );
+
+    // Missing keys of each target and changed keys it already has are translated
+    let stringCount = 0;
+    for (const language of targetLanguages) {
+      const targetFilePath = this.i18nProjectManager.getTargetFilePath(
+        filePath,
+        language
+      );
+      const coverage = getLocaleCoverage(
+        formatHandler,
+        content,
+        fs.existsSync(targetFilePath)
+          ? fs.readFileSync(targetFilePath, "utf8")
+          : undefined,
+        sourceLanguage,
+        language
+      );
+      const missing = new Set(coverage.missing);
+      stringCount +=
+        missing.size + changedKeys.filter((key) => !missing.has(key)).length;
+    }
+
+    if (stringCount === 0) {
+      this.snapshots.set(filePath, content);
+      return;
+    }
+
+    // A large paste is only translated after confirmation, and stays pending if skipped
+    const threshold = config.get<number>(
+      CONFIG.KEYS.AUTO_SYNC_CONFIRM_THRESHOLD,
+      DEFAULT_CONFIRM_THRESHOLD
+    );
+    const fileName = path.basename(filePath);
+    if (stringCount > threshold) {
+      const choice = await vscode.window.showWarningMessage(
+        `Auto-sync: ${fileName} has ${stringCount} strings to translate into ${targetLanguages.length} language(s). Translate them now?`,
+        "Translate",
+        "Skip"
+      );
+      if (choice !== "Translate") {
+        logInfo(`Auto-sync of ${fileName} skipped by user`);
+        return;
+      }
+    }
+
+    logInfo(
+      `Auto-sync: translating ${stringCount} strings of ${fileName} into ${targetLanguages.join(
+        ", "
+      )}`
+    );
+    this.snapshots.set(filePath, content);
+    await this.sync(uri, fileFormat, targetLanguages, changedKeys);
+  }
+}
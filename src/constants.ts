@@ -6,6 +6,18 @@ export const CONFIG = {
     USE_CONTRACTIONS: "useContractions",
     USE_SHORTENING: "useShortening",
     GENERATE_PLURAL_FORMS: "generatePluralForms",
+    MARK_FOR_REVIEW: "markTranslationsForReview",
+    LOCALE_PATH_TEMPLATES: "localePathTemplates",
+    KEY_DIAGNOSTICS: "keyDiagnostics",
+    PREVIEW_CHANGES: "previewChanges",
+    AUTO_SYNC: "autoSync",
+    AUTO_SYNC_FILES: "autoSyncFiles",
+    AUTO_SYNC_CONFIRM_THRESHOLD: "autoSyncConfirmThreshold",
+    MAX_CONCURRENT_REQUESTS: "maxConcurrentRequests",
+    MAX_RETRIES: "maxRetries",
+    COST_CONFIRM_THRESHOLD: "costConfirmThreshold",
+    TRANSLATION_MEMORY: "translationMemory",
+    PLACEHOLDER_MISMATCH_ACTION: "placeholderMismatchAction",
   },
 } as const;
 
@@ -20,6 +32,7 @@ export const URLS = {
 // State keys for extension storage
 export const STATE_KEYS = {
   WELCOME_SHOWN: "l10n-translate-i18n.hasShownWelcome",
+  REMAINING_BALANCE: "l10n-translate-i18n.remainingBalance",
 } as const;
 
 // Command constants
@@ -29,10 +42,40 @@ export const COMMANDS = {
   CONFIGURE_OPTIONS: "l10n.translate-i18n.configureOptions",
   TRANSLATE: "l10n.translate-i18n.translate",
   TRANSLATE_ARB: "l10n.translate-i18n.translateArb",
+  TRANSLATE_YAML: "l10n.translate-i18n.translateYaml",
+  TRANSLATE_PO: "l10n.translate-i18n.translatePo",
+  TRANSLATE_XLIFF: "l10n.translate-i18n.translateXliff",
+  TRANSLATE_ANDROID: "l10n.translate-i18n.translateAndroid",
+  TRANSLATE_XCSTRINGS: "l10n.translate-i18n.translateXcstrings",
+  TRANSLATE_APPLE_STRINGS: "l10n.translate-i18n.translateAppleStrings",
+  TRANSLATE_PROPERTIES: "l10n.translate-i18n.translateProperties",
+  TRANSLATE_RESX: "l10n.translate-i18n.translateResx",
+  REFRESH_LOCALES: "l10n.translate-i18n.refreshLocales",
+  TRANSLATE_LOCALE: "l10n.translate-i18n.translateLocale",
+  UPDATE_LOCALE: "l10n.translate-i18n.updateLocale",
+  OPEN_LOCALE_FILE: "l10n.translate-i18n.openLocaleFile",
+  TRANSLATE_KEYS: "l10n.translate-i18n.translateKeys",
+  TRANSLATE_SELECTION: "l10n.translate-i18n.translateSelection",
+  TOGGLE_AUTO_SYNC: "l10n.translate-i18n.toggleAutoSync",
+  ESTIMATE_COST: "l10n.translate-i18n.estimateCost",
+  SHOW_TRANSLATION_MEMORY: "l10n.translate-i18n.showTranslationMemory",
+  EXPORT_TRANSLATION_MEMORY: "l10n.translate-i18n.exportTranslationMemory",
+  CLEAR_TRANSLATION_MEMORY: "l10n.translate-i18n.clearTranslationMemory",
+  LOCK_TRANSLATION: "l10n.translate-i18n.lockTranslation",
+  UNLOCK_TRANSLATION: "l10n.translate-i18n.unlockTranslation",
+  LIST_UNREVIEWED_TRANSLATIONS:
+    "l10n.translate-i18n.listUnreviewedTranslations",
+} as const;
+
+// View constants
+export const VIEWS = {
+  LOCALES: "l10n-translate-i18n.locales",
 } as const;
 
 // VS Code built-in commands
 export const VSCODE_COMMANDS = {
   OPEN_SETTINGS: "workbench.action.openSettings",
   QUICK_OPEN: "workbench.action.quickOpen",
+  DIFF: "vscode.diff",
+  CLOSE_ACTIVE_EDITOR: "workbench.action.closeActiveEditor",
 } as const;
@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+
+import { getStringValues } from "./localeCoverage";
+import { logInfo } from "./logger";
+import { CONFIG } from "./constants";
+
+const DEFAULT_CONFIRM_THRESHOLD = 20000;
+
+/**
+ * Strings and characters a translation to one language sends for translation
+ */
+export interface CostEstimate {
+  language: string;
+  stringCount: number;
+  charCount: number;
+}
+
+/**
+ * Counts the source strings that will be translated, strings the target
+ * already has are skipped as they are with "translate only new strings"
+ * Generated plural forms aren't known before translating and aren't counted
+ */
+export function estimateCost(
+  language: string,
+  sourceStrings: string,
+  targetStrings?: string
+): CostEstimate {
+  const targetValues = targetStrings
+    ? getStringValues(targetStrings)
+    : undefined;
+  let stringCount = 0;
+  let charCount = 0;
+  for (const [keyPath, value] of getStringValues(sourceStrings)) {
+    if (!targetValues?.has(keyPath)) {
+      stringCount++;
+      charCount += value.length;
+    }
+  }
+  return { language, stringCount, charCount };
+}
+
+export function getTotalCharacters(estimates: CostEstimate[]): number {
+  return estimates.reduce((total, estimate) => total + estimate.charCount, 0);
+}
+
+export function formatRemainingBalance(remainingBalance?: number): string {
+  return remainingBalance === undefined
+    ? "Remaining balance: unknown until the first translation."
+    : `Remaining balance: ${remainingBalance.toLocaleString()} characters.`;
+}
+
+/**
+ * Shows the estimate next to the remaining balance, and asks before a run that
+ * would use more characters than the confirmation threshold
+ * Returns false if the user doesn't confirm
+ */
+export async function confirmCost(
+  estimates: CostEstimate[],
+  remainingBalance?: number
+): Promise<boolean> {
+  const total = getTotalCharacters(estimates);
+  const threshold = vscode.workspace
+    .getConfiguration(CONFIG.SECTION)
+    .get<number>(CONFIG.KEYS.COST_CONFIRM_THRESHOLD, DEFAULT_CONFIRM_THRESHOLD);
+  const message = `This translation will use about ${total.toLocaleString()} characters${
+    estimates.length > 1 ? ` for ${estimates.length} languages` : ""
+  }. ${formatRemainingBalance(remainingBalance)}`;
+  logInfo(message);
+
+  // A threshold of 0 turns the confirmation off
+  if (threshold <= 0 || total <= threshold) {
+    vscode.window.showInformationMessage(message);
+    return true;
+  }
+
+  const warning =
+    remainingBalance !== undefined && total > remainingBalance
+      ? " This is more than your remaining balance."
+      : "";
+  const choice = await vscode.window.showWarningMessage(
+    `${message}${warning} Continue?`,
+    { modal: true },
+    "Translate"
+  );
+  if (choice !== "Translate") {
+    logInfo("Translation cancelled at the cost confirmation");
+    return false;
+  }
+  return true;
+}
@@ -3,10 +3,40 @@ import * as vscode from "vscode";
 
 // Local service imports
 import { ApiKeyManager } from "./apiKeyManager";
-import { I18nProjectManager } from "./i18nProjectManager";
+import { I18nProjectManager, LocalePathTemplates } from "./i18nProjectManager";
 import { L10nTranslationService } from "./translationService";
 import { LanguageSelector } from "./languageSelector";
-import { handleTranslateCommand } from "./translationCommand";
+import {
+  handleEstimateCostCommand,
+  handleTranslateCommand,
+  handleTranslateKeysCommand,
+} from "./translationCommand";
+import { detectFileFormat, FileFormat } from "./fileFormats";
+import { findProjectConfig, LoadedProjectConfig } from "./projectConfig";
+import { logWarning } from "./logger";
+import {
+  LocaleLanguageItem,
+  LocaleRootItem,
+  LocalesTreeProvider,
+  LocaleSourceItem,
+} from "./localesTreeProvider";
+import { LocaleDiagnosticsProvider } from "./localeDiagnostics";
+import { LocaleCodeActionsProvider } from "./localeCodeActions";
+import { AutoSyncController } from "./autoSync";
+import {
+  TRANSLATION_PREVIEW_SCHEME,
+  TranslationPreviewProvider,
+} from "./translationPreview";
+import {
+  handleClearTranslationMemoryCommand,
+  handleExportTranslationMemoryCommand,
+  handleShowTranslationMemoryCommand,
+  TranslationMemory,
+} from "./translationMemory";
+import {
+  handleListUnreviewedTranslationsCommand,
+  handleLockTranslationCommand,
+} from "./translationLock";
 
 import {
   COMMANDS,
@@ -14,6 +44,7 @@ import {
   STATE_KEYS,
   URLS,
   CONFIG,
+  VIEWS,
 } from "./constants";
 
 /**
@@ -24,22 +55,132 @@ export function activate(context: vscode.ExtensionContext) {
   console.log("l10n.dev Translation extension is now active!");
 
   const apiKeyManager = new ApiKeyManager(context);
-  const translationService = new L10nTranslationService(apiKeyManager);
-  const i18nProjectManager = new I18nProjectManager();
+  const translationMemory = new TranslationMemory(
+    context.globalStorageUri.fsPath
+  );
+  const translationService = new L10nTranslationService(
+    apiKeyManager,
+    context.globalState,
+    translationMemory
+  );
+  const i18nProjectManager = new I18nProjectManager(getLocalePathTemplates);
   const languageSelector = new LanguageSelector(translationService);
+  const localesTreeProvider = new LocalesTreeProvider(i18nProjectManager);
+  const localeDiagnosticsProvider = new LocaleDiagnosticsProvider(
+    i18nProjectManager
+  );
+  const localeCodeActionsProvider = new LocaleCodeActionsProvider(
+    i18nProjectManager
+  );
+  // Saved source files update their target files through "translate only new strings"
+  const autoSyncController = new AutoSyncController(
+    i18nProjectManager,
+    async (uri, fileFormat, targetLanguages, changedKeys) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        fileFormat,
+        { targetLanguages, translateOnlyNewStrings: true, changedKeys }
+      )
+  );
+  context.subscriptions.push(autoSyncController);
 
   // Setup welcome message for new users
   setupWelcomeMessage(context);
 
+  // Show the Locales view in the Explorer
+  context.subscriptions.push(
+    localesTreeProvider,
+    vscode.window.createTreeView(VIEWS.LOCALES, {
+      treeDataProvider: localesTreeProvider,
+      showCollapseAll: true,
+    })
+  );
+
+  // Serve proposed translations to the diff editor when previewing changes
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      TRANSLATION_PREVIEW_SCHEME,
+      new TranslationPreviewProvider()
+    )
+  );
+
+  // Flag missing, stale and untranslated keys in open target locale files
+  context.subscriptions.push(
+    localeDiagnosticsProvider,
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file" },
+      localeDiagnosticsProvider,
+      {
+        providedCodeActionKinds:
+          LocaleDiagnosticsProvider.providedCodeActionKinds,
+      }
+    ),
+    // Translate the keys at the cursor of a source locale file
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: "file" },
+      localeCodeActionsProvider,
+      {
+        providedCodeActionKinds:
+          LocaleCodeActionsProvider.providedCodeActionKinds,
+      }
+    )
+  );
+
   registerCommands(
     context,
     apiKeyManager,
     translationService,
     i18nProjectManager,
-    languageSelector
+    languageSelector,
+    localesTreeProvider,
+    localeCodeActionsProvider,
+    autoSyncController,
+    translationMemory
   );
 }
 
+/**
+ * Reads the locale path templates for a file from the project config file or the
+ * settings of its workspace folder, folder settings override workspace and user settings
+ * An invalid project config falls back to the settings, so project detection keeps working
+ */
+export function getLocalePathTemplates(
+  filePath: string
+): LocalePathTemplates | undefined {
+  const uri = vscode.Uri.file(filePath);
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+
+  let projectConfig: LoadedProjectConfig | undefined;
+  try {
+    projectConfig = findProjectConfig(filePath, workspaceFolder?.uri.fsPath);
+  } catch (error) {
+    logWarning(
+      `Ignoring the path templates of the project config: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+  if (projectConfig?.config.pathTemplates?.length) {
+    return {
+      rootPath: projectConfig.rootPath,
+      templates: projectConfig.config.pathTemplates,
+    };
+  }
+
+  if (!workspaceFolder) {
+    return undefined;
+  }
+
+  const templates = vscode.workspace
+    .getConfiguration(CONFIG.SECTION, uri)
+    .get<string[]>(CONFIG.KEYS.LOCALE_PATH_TEMPLATES, []);
+  return { rootPath: workspaceFolder.uri.fsPath, templates };
+}
+
 /**
  * Shows welcome message for first-time users
  */
@@ -73,7 +214,11 @@ function registerCommands(
   apiKeyManager: ApiKeyManager,
   translationService: L10nTranslationService,
   i18nProjectManager: I18nProjectManager,
-  languageSelector: LanguageSelector
+  languageSelector: LanguageSelector,
+  localesTreeProvider: LocalesTreeProvider,
+  localeCodeActionsProvider: LocaleCodeActionsProvider,
+  autoSyncController: AutoSyncController,
+  translationMemory: TranslationMemory
 ) {
   // Register set API Key command
   const setApiKeyDisposable = vscode.commands.registerCommand(
@@ -120,7 +265,7 @@ function registerCommands(
         translationService,
         i18nProjectManager,
         languageSelector,
-        false // isArbFile
+        FileFormat.Json
       )
   );
 
@@ -134,16 +279,334 @@ function registerCommands(
         translationService,
         i18nProjectManager,
         languageSelector,
-        true // isArbFile
+        FileFormat.Arb
+      )
+  );
+
+  // Register translate YAML command
+  const translateYamlDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_YAML,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Yaml
+      )
+  );
+
+  // Register translate PO command
+  const translatePoDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_PO,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Po
+      )
+  );
+
+  // Register translate XLIFF command
+  const translateXliffDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_XLIFF,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Xliff
+      )
+  );
+
+  // Register translate Android strings command
+  const translateAndroidDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_ANDROID,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Android
+      )
+  );
+
+  // Register translate String Catalog command
+  const translateXcstringsDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_XCSTRINGS,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Xcstrings
+      )
+  );
+
+  // Register translate Apple .strings/.stringsdict command
+  const translateAppleStringsDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_APPLE_STRINGS,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.AppleStrings
+      )
+  );
+
+  // Register translate Java properties command
+  const translatePropertiesDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_PROPERTIES,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Properties
+      )
+  );
+
+  // Register translate RESX command
+  const translateResxDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_RESX,
+    async (uri: vscode.Uri) =>
+      await handleTranslateCommand(
+        uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        FileFormat.Resx
+      )
+  );
+
+  // Register Locales view commands
+  const refreshLocalesDisposable = vscode.commands.registerCommand(
+    COMMANDS.REFRESH_LOCALES,
+    () => localesTreeProvider.refresh()
+  );
+
+  // Translates the source of a root or language item, language items skip language selection
+  const translateLocale = async (
+    item: LocaleRootItem | LocaleLanguageItem,
+    translateOnlyNewStrings?: boolean
+  ) => {
+    const sourceFilePath = item.root.sourceFilePath;
+    let targetLanguages: string[] | undefined;
+    if (item instanceof LocaleLanguageItem) {
+      targetLanguages = [item.language];
+    } else if (translateOnlyNewStrings) {
+      targetLanguages =
+        i18nProjectManager.detectLanguagesFromProject(sourceFilePath);
+    }
+
+    await handleTranslateCommand(
+      vscode.Uri.file(sourceFilePath),
+      apiKeyManager,
+      translationService,
+      i18nProjectManager,
+      languageSelector,
+      item.fileFormat,
+      { targetLanguages, translateOnlyNewStrings }
+    );
+  };
+
+  const translateLocaleDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_LOCALE,
+    async (item: LocaleRootItem | LocaleLanguageItem) =>
+      await translateLocale(item)
+  );
+
+  const updateLocaleDisposable = vscode.commands.registerCommand(
+    COMMANDS.UPDATE_LOCALE,
+    async (item: LocaleRootItem | LocaleLanguageItem) =>
+      await translateLocale(item, true)
+  );
+
+  const openLocaleFileDisposable = vscode.commands.registerCommand(
+    COMMANDS.OPEN_LOCALE_FILE,
+    async (item: LocaleRootItem | LocaleSourceItem | LocaleLanguageItem) => {
+      const filePath =
+        item instanceof LocaleLanguageItem
+          ? item.targetFilePath
+          : item.root.sourceFilePath;
+      const doc = await vscode.workspace.openTextDocument(filePath);
+      await vscode.window.showTextDocument(doc);
+    }
+  );
+
+  // Translates keys of a target file, used by the quick fixes of locale diagnostics
+  const translateKeysDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_KEYS,
+    async (
+      sourceFilePath: string,
+      targetFilePath: string,
+      targetLanguage: string,
+      keys: string[],
+      fileFormat: FileFormat
+    ) =>
+      await handleTranslateKeysCommand(
+        sourceFilePath,
+        targetFilePath,
+        targetLanguage,
+        keys,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        fileFormat
       )
   );
 
+  // Translates the keys at the cursor or in the selection into every target language,
+  // the code action passes its keys, the command palette uses the active editor
+  const translateSelectionDisposable = vscode.commands.registerCommand(
+    COMMANDS.TRANSLATE_SELECTION,
+    async (uri?: vscode.Uri, keys?: string[]) => {
+      const editor = vscode.window.activeTextEditor;
+      const document = uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : editor?.document;
+      const fileFormat = document && detectFileFormat(document.uri.fsPath);
+      const selectedKeys =
+        keys ??
+        (document && editor?.document === document
+          ? localeCodeActionsProvider.getSelectedKeys(
+              document,
+              editor.selection
+            )
+          : undefined);
+
+      if (!document || !fileFormat || !selectedKeys?.length) {
+        vscode.window.showInformationMessage(
+          "Place the cursor on a key of a source locale file, or select keys, to translate them."
+        );
+        return;
+      }
+
+      // The file may have been edited since the code action was offered
+      if (document.isDirty) {
+        await document.save();
+      }
+
+      const sourceFilePath = document.uri.fsPath;
+      const targetLanguages =
+        i18nProjectManager.detectLanguagesFromProject(sourceFilePath);
+      await handleTranslateCommand(
+        document.uri,
+        apiKeyManager,
+        translationService,
+        i18nProjectManager,
+        languageSelector,
+        fileFormat,
+        {
+          // Without translations yet, the configured languages or a prompt are used
+          targetLanguages:
+            targetLanguages.length > 0 ? targetLanguages : undefined,
+          translateOnlyNewStrings: true,
+          keys: selectedKeys,
+        }
+      );
+    }
+  );
+
+  const toggleAutoSyncDisposable = vscode.commands.registerCommand(
+    COMMANDS.TOGGLE_AUTO_SYNC,
+    async () => await autoSyncController.toggle()
+  );
+
+  // Estimates a source file of the Locales view, or all of them from the command palette
+  const estimateCostDisposable = vscode.commands.registerCommand(
+    COMMANDS.ESTIMATE_COST,
+    async (item?: LocaleRootItem) => {
+      const roots = item ? [item] : await localesTreeProvider.getRoots();
+      await handleEstimateCostCommand(
+        roots.map((root) => ({
+          sourceFilePath: root.root.sourceFilePath,
+          fileFormat: root.fileFormat,
+          targetLanguages: localesTreeProvider.getTargetLanguages(root),
+          projectConfig: root.projectConfig,
+        })),
+        i18nProjectManager,
+        translationService
+      );
+    }
+  );
+
+  const showTranslationMemoryDisposable = vscode.commands.registerCommand(
+    COMMANDS.SHOW_TRANSLATION_MEMORY,
+    async () => await handleShowTranslationMemoryCommand(translationMemory)
+  );
+
+  const exportTranslationMemoryDisposable = vscode.commands.registerCommand(
+    COMMANDS.EXPORT_TRANSLATION_MEMORY,
+    async () => await handleExportTranslationMemoryCommand(translationMemory)
+  );
+
+  const clearTranslationMemoryDisposable = vscode.commands.registerCommand(
+    COMMANDS.CLEAR_TRANSLATION_MEMORY,
+    async () => await handleClearTranslationMemoryCommand(translationMemory)
+  );
+
+  // Locked translations are never replaced by a translation
+  const lockTranslationDisposable = vscode.commands.registerCommand(
+    COMMANDS.LOCK_TRANSLATION,
+    async () => await handleLockTranslationCommand(i18nProjectManager, true)
+  );
+
+  const unlockTranslationDisposable = vscode.commands.registerCommand(
+    COMMANDS.UNLOCK_TRANSLATION,
+    async () => await handleLockTranslationCommand(i18nProjectManager, false)
+  );
+
+  const listUnreviewedTranslationsDisposable = vscode.commands.registerCommand(
+    COMMANDS.LIST_UNREVIEWED_TRANSLATIONS,
+    async () =>
+      await handleListUnreviewedTranslationsCommand(i18nProjectManager)
+  );
+
   context.subscriptions.push(
     setApiKeyDisposable,
     clearApiKeyDisposable,
     configureOptionsDisposable,
     translateDisposable,
-    translateArbDisposable
+    translateArbDisposable,
+    translateYamlDisposable,
+    translatePoDisposable,
+    translateXliffDisposable,
+    translateAndroidDisposable,
+    translateXcstringsDisposable,
+    translateAppleStringsDisposable,
+    translatePropertiesDisposable,
+    translateResxDisposable,
+    refreshLocalesDisposable,
+    translateLocaleDisposable,
+    updateLocaleDisposable,
+    openLocaleFileDisposable,
+    translateKeysDisposable,
+    translateSelectionDisposable,
+    toggleAutoSyncDisposable,
+    estimateCostDisposable,
+    showTranslationMemoryDisposable,
+    exportTranslationMemoryDisposable,
+    clearTranslationMemoryDisposable,
+    lockTranslationDisposable,
+    unlockTranslationDisposable,
+    listUnreviewedTranslationsDisposable
   );
 }
 
@@ -0,0 +1,144 @@
+import { AndroidFormatHandler } from "./androidFormat";
+import { AppleStringsFormatHandler } from "./appleStringsFormat";
+import { Json5FormatHandler } from "./json5Format";
+import { PoFormatHandler } from "./poFormat";
+import { PropertiesFormatHandler } from "./propertiesFormat";
+import { ResxFormatHandler } from "./resxFormat";
+import { XcstringsFormatHandler } from "./xcstringsFormat";
+import { XliffFormatHandler } from "./xliffFormat";
+import { YamlFormatHandler } from "./yamlFormat";
+
+// Locale file formats supported by the translate commands
+export enum FileFormat {
+  Json = "json",
+  Arb = "arb",
+  Yaml = "yaml",
+  Po = "po",
+  Xliff = "xliff",
+  Android = "android",
+  Xcstrings = "xcstrings",
+  AppleStrings = "appleStrings",
+  Properties = "properties",
+  Resx = "resx",
+}
+
+/**
+ * Information needed to write translations back into a file format
+ */
+export interface FileFormatContext {
+  sourceContent: string;
+  targetLanguage: string;
+  sourceLanguage?: string;
+  /** Content of the existing target file when only new strings are translated */
+  targetContent?: string;
+  /** Keys whose existing translations are replaced, e.g. because their source text changed */
+  replacedKeys?: string[];
+  /** Mark newly translated entries for review where the format supports it */
+  markForReview?: boolean;
+}
+
+/**
+ * Converts a locale file to the JSON sent to l10n.dev and back again
+ */
+export interface FileFormatHandler {
+  /** Name used in user-facing messages (e.g. "JSON", "YAML") */
+  readonly displayName: string;
+  /** File extensions recognized for this format, including the dot */
+  readonly extensions: readonly string[];
+  /** Language codes use underscores instead of hyphens (e.g. en_US) */
+  readonly useUnderscores: boolean;
+  /** Plural forms are always requested because the format stores them per language */
+  readonly requiresPluralForms: boolean;
+  /** Every language lives in the source file, translations are written back into it */
+  readonly storesAllLanguages: boolean;
+
+  /**
+   * Converts source file content into a JSON string for `sourceStrings`
+   */
+  toJson(content: string, languageCode?: string): string;
+
+  /**
+   * Converts an existing target file into a JSON string for `targetStrings`
+   * Formats that put context in the key use the source file's keys when `sourceContent` is given
+   */
+  readTargetStrings(
+    content: string,
+    languageCode: string,
+    sourceContent?: string
+  ): string;
+
+  /**
+   * Writes translated JSON back into the source file's format
+   */
+  fromJson(translations: string, context: FileFormatContext): string;
+}
+
+/**
+ * ARB files are sent to the API as-is, the API returns them in the same shape
+ */
+class JsonFormatHandler implements FileFormatHandler {
+  readonly requiresPluralForms = false;
+  readonly storesAllLanguages = false;
+
+  constructor(
+    readonly displayName: string,
+    readonly extensions: readonly string[],
+    readonly useUnderscores: boolean
+  ) {}
+
+  toJson(content: string): string {
+    return content;
+  }
+
+  readTargetStrings(content: string): string {
+    return content;
+  }
+
+  fromJson(translations: string): string {
+    return translations;
+  }
+}
+
+const handlers: Record<FileFormat, FileFormatHandler> = {
+  [FileFormat.Json]: new Json5FormatHandler(),
+  [FileFormat.Arb]: new JsonFormatHandler("ARB", [".arb"], true),
+  [FileFormat.Yaml]: new YamlFormatHandler(),
+  [FileFormat.Po]: new PoFormatHandler(),
+  [FileFormat.Xliff]: new XliffFormatHandler(),
+  [FileFormat.Android]: new AndroidFormatHandler(),
+  [FileFormat.Xcstrings]: new XcstringsFormatHandler(),
+  [FileFormat.AppleStrings]: new AppleStringsFormatHandler(),
+  [FileFormat.Properties]: new PropertiesFormatHandler(),
+  [FileFormat.Resx]: new ResxFormatHandler(),
+};
+
+export function getFileFormatHandler(format: FileFormat): FileFormatHandler {
+  return handlers[format];
+}
+
+/**
+ * Returns true if the file path has one of the format's extensions
+ */
+export function matchesFileFormat(
+  filePath: string,
+  format: FileFormat
+): boolean {
+  const lowerPath = filePath.toLowerCase();
+  return handlers[format].extensions.some((ext) => lowerPath.endsWith(ext));
+}
+
+/**
+ * Returns the format of a file from its extension, or undefined for other files
+ */
+export function detectFileFormat(filePath: string): FileFormat | undefined {
+  return Object.values(FileFormat).find((format) =>
+    matchesFileFormat(filePath, format)
+  );
+}
+
+/**
+ * Returns the extensions of every supported format, including the dot
+ */
+export function getSupportedExtensions(): string[] {
+  return Object.values(handlers).flatMap((handler) => handler.extensions);
+}
@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { getStringValues, mapStrings } from "./localeCoverage";
+
+// Glossary file, searched from the translated file's folder upwards
+export const GLOSSARY_FILE_NAME = "l10n.glossary.json";
+
+// Terms are sent as placeholders, which translations keep unchanged
+const TERM_PLACEHOLDER_REGEX = /\{glossary_(\d+)\}/g;
+
+/**
+ * Terms that are translated the same way everywhere, committed with the project
+ */
+export interface Glossary {
+  /** Terms that are never translated, e.g. brand names and product tiers */
+  doNotTranslate?: string[];
+  /** Mandated translations of terms by target language */
+  terms?: Record<string, Record<string, string>>;
+}
+
+export interface LoadedGlossary {
+  glossaryPath: string;
+  glossary: Glossary;
+}
+
+/**
+ * A term of the source text and what a translation must have instead
+ */
+export interface GlossaryRule {
+  term: string;
+  translation: string;
+  doNotTranslate: boolean;
+}
+
+/**
+ * A translated string that doesn't follow the glossary
+ */
+export interface GlossaryViolation {
+  key: string;
+  rule: GlossaryRule;
+}
+
+/**
+ * Finds the nearest glossary of a file, stopping at stopPath
+ * (usually the workspace folder) or the file system root
+ */
+export function findGlossary(
+  filePath: string,
+  stopPath?: string
+): LoadedGlossary | undefined {
+  let dir = path.dirname(filePath);
+
+  for (;;) {
+    const glossaryPath = path.join(dir, GLOSSARY_FILE_NAME);
+    if (fs.statSync(glossaryPath, { throwIfNoEntry: false })?.isFile()) {
+      return { glossaryPath, glossary: readGlossary(glossaryPath) };
+    }
+
+    const parentDir = path.dirname(dir);
+    if (
+      parentDir === dir ||
+      (stopPath && path.relative(stopPath, dir) === "")
+    ) {
+      return undefined;
+    }
+    dir = parentDir;
+  }
+}
+
+export function readGlossary(glossaryPath: string): Glossary {
+  let glossary: unknown;
+  try {
+    glossary = JSON.parse(fs.readFileSync(glossaryPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${GLOSSARY_FILE_NAME}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const problem = validateGlossary(glossary);
+  if (problem) {
+    throw new Error(`Invalid ${GLOSSARY_FILE_NAME}: ${problem}`);
+  }
+  return glossary as Glossary;
+}
+
+/**
+ * Returns a description of the first invalid property, the JSON schema gives the details in the editor
+ */
+function validateGlossary(glossary: unknown): string | undefined {
+  if (!isObject(glossary)) {
+    return "expected an object";
+  }
+
+  const { doNotTranslate, terms = {} } = glossary;
+  if (
+    doNotTranslate !== undefined &&
+    (!Array.isArray(doNotTranslate) ||
+      doNotTranslate.some((term) => typeof term !== "string"))
+  ) {
+    return '"doNotTranslate" must be an array of strings';
+  }
+
+  if (!isObject(terms)) {
+    return '"terms" must be an object';
+  }
+  for (const [term, translations] of Object.entries(terms)) {
+    if (
+      !isObject(translations) ||
+      Object.values(translations).some(
+        (translation) => typeof translation !== "string"
+      )
+    ) {
+      return `"terms.${term}" must map languages to translations`;
+    }
+  }
+  return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Returns the rules of the glossary for a target language, longer terms first
+ * so "Acme Cloud" is matched before "Acme"
+ * Terms without a translation for the language aren't enforced
+ */
+export function getGlossaryRules(
+  glossary: Glossary,
+  targetLanguage: string
+): GlossaryRule[] {
+  const rules: GlossaryRule[] = (glossary.doNotTranslate ?? []).map((term) => ({
+    term,
+    translation: term,
+    doNotTranslate: true,
+  }));
+  for (const [term, translations] of Object.entries(glossary.terms ?? {})) {
+    const translation = getTermTranslation(translations, targetLanguage);
+    if (translation !== undefined) {
+      rules.push({ term, translation, doNotTranslate: false });
+    }
+  }
+  return rules
+    .filter((rule) => rule.term.trim() !== "")
+    .sort((a, b) => b.term.length - a.term.length);
+}
+
+/**
+ * pt_BR and pt-BR refer to the same language, pt applies to all its regions
+ */
+function getTermTranslation(
+  translations: Record<string, string>,
+  targetLanguage: string
+): string | undefined {
+  const normalize = (language: string) =>
+    language.replace(/_/g, "-").toLowerCase();
+  const language = normalize(targetLanguage);
+  const baseLanguage = language.split("-")[0];
+  const entries = Object.entries(translations);
+  return (
+    entries.find(([code]) => normalize(code) === language)?.[1] ??
+    entries.find(([code]) => normalize(code) === baseLanguage)?.[1]
+  );
+}
+
+/**
+ * Replaces the glossary terms of the source strings with placeholders
+ */
+export function maskGlossaryTerms(
+  sourceStrings: string,
+  rules: GlossaryRule[]
+): string {
+  if (rules.length === 0) {
+    return sourceStrings;
+  }
+  const regex = getTermsRegex(rules);
+  return mapStrings(sourceStrings, (value) =>
+    value.replace(regex, (...args) => {
+      const index = rules.findIndex(
+        (_rule, ruleIndex) => args[ruleIndex + 1] !== undefined
+      );
+      return `{glossary_${index}}`;
+    })
+  );
+}
+
+/**
+ * Puts the mandated translation, or the term that isn't translated, in place of
+ * the placeholders of the translated strings
+ */
+export function unmaskGlossaryTerms(
+  translations: string,
+  rules: GlossaryRule[]
+): string {
+  if (rules.length === 0) {
+    return translations;
+  }
+  return mapStrings(translations, (value) =>
+    value.replace(
+      TERM_PLACEHOLDER_REGEX,
+      (placeholder, index: string) =>
+        rules[Number(index)]?.translation ?? placeholder
+    )
+  );
+}
+
+/**
+ * Returns the translated strings of the given paths whose source has a glossary term
+ * the translation doesn't have as is (do not translate) or as its mandated translation
+ */
+export function findGlossaryViolations(
+  sourceStrings: string,
+  translations: string,
+  rules: GlossaryRule[],
+  keyPaths: Iterable<string>
+): GlossaryViolation[] {
+  if (rules.length === 0) {
+    return [];
+  }
+  const sourceValues = getStringValues(sourceStrings);
+  const translatedValues = getStringValues(translations);
+  const violations: GlossaryViolation[] = [];
+  for (const keyPath of keyPaths) {
+    const source = sourceValues.get(keyPath);
+    const translation = translatedValues.get(keyPath);
+    if (source === undefined || translation === undefined) {
+      continue;
+    }
+    for (const rule of findTerms(source, rules)) {
+      // Mandated translations may start a sentence, protected terms keep their case
+      const found = rule.doNotTranslate
+        ? translation.includes(rule.translation)
+        : translation
+            .toLocaleLowerCase()
+            .includes(rule.translation.toLocaleLowerCase());
+      if (!found) {
+        violations.push({ key: keyPath, rule });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Returns the rules whose term the text has, a longer term hides the terms it contains
+ */
+function findTerms(text: string, rules: GlossaryRule[]): GlossaryRule[] {
+  const found = new Set<GlossaryRule>();
+  for (const match of text.matchAll(getTermsRegex(rules))) {
+    const index = rules.findIndex(
+      (_rule, ruleIndex) => match[ruleIndex + 1] !== undefined
+    );
+    found.add(rules[index]);
+  }
+  return Array.from(found);
+}
+
+/**
+ * Matches whole terms with one capture group per rule
+ */
+function getTermsRegex(rules: GlossaryRule[]): RegExp {
+  const alternatives = rules.map(
+    (rule) => `(${rule.term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`
+  );
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}_])`,
+    "gu"
+  );
+}
@@ -4,6 +4,11 @@ import * as fs from "fs";
 export enum ProjectStructureType {
   FolderBased = "folder",
   FileBased = "file",
+  Gettext = "gettext",
+  Android = "android",
+  StringCatalog = "stringCatalog",
+  Lproj = "lproj",
+  Template = "template",
   Unknown = "unknown",
 }
 
@@ -11,9 +16,34 @@ export interface ProjectStructureInfo {
   type: ProjectStructureType;
   basePath: string;
   sourceLanguage?: string;
+  /** Path of the source file relative to basePath, split at each language code */
+  templateParts?: string[];
+}
+
+/**
+ * A set of locale files that are translations of one source file
+ */
+export interface I18nRoot {
+  sourceFilePath: string;
+  structure: ProjectStructureInfo;
+}
+
+/**
+ * Locale path templates configured for a file, relative to rootPath
+ * e.g. src/i18n/{lang}/{namespace}.json or public/locales/{lang}/translation.json
+ */
+export interface LocalePathTemplates {
+  rootPath: string;
+  templates: string[];
 }
 
 export class I18nProjectManager {
+  constructor(
+    private readonly getPathTemplates: (
+      filePath: string
+    ) => LocalePathTemplates | undefined = () => undefined
+  ) {}
+
   private readonly languageCodeRegex =
     /^(?<language>[a-z]{2,3})([-|_](?<script>[A-Z][a-z]{3}))?([-|_](?<region>[A-Z]{2,3}|[0-9]{3}))?$/i;
 
@@ -21,6 +51,42 @@ export class I18nProjectManager {
   private readonly arbLanguageCodeRegex =
     /^(?<language>[a-z]{2,3})(_(?<script>[A-Z][a-z]{3}))?(_(?<region>[A-Z]{2,3}|[0-9]{3}))?$/;
 
+  private readonly yamlExtensions = [".yml", ".yaml"];
+
+  // XLIFF files follow Angular's messages.<lang>.xlf naming
+  private readonly xliffExtensions = [".xlf", ".xliff"];
+
+  // Java resource bundles are named <basename>_<locale>.properties
+  private readonly propertiesExtension = ".properties";
+
+  // .NET satellite resources are named <basename>.<culture>.resx
+  private readonly resxExtension = ".resx";
+
+  // Gettext catalogs live in locale/<lang>/LC_MESSAGES/<domain>.po
+  private readonly gettextMessagesDir = "LC_MESSAGES";
+
+  // Android resources live in res/values-<qualifier>/strings.xml
+  private readonly androidValuesDir = "values";
+
+  // Apple localizations live in <lang>.lproj folders, Base.lproj holds the development language
+  private readonly lprojExtension = ".lproj";
+  private readonly lprojBaseDir = "Base.lproj";
+
+  // Apple String Catalogs keep every language in one file
+  private readonly stringCatalogExtension = ".xcstrings";
+
+  // Android locale qualifiers: values-fr, values-pt-rBR, values-b+sr+Latn
+  private readonly androidQualifierRegex =
+    /^(?<language>[a-z]{2,3})(-r(?<region>[A-Z]{2}))?$/;
+
+  // Matches {lang}, {namespace}, {basename}, **/ and * in path templates
+  private readonly templateTokenRegex =
+    /\{(lang|namespace|basename)\}|\*\*\/|\*|[^{*]+|[{*]/g;
+
+  // Candidate language codes in template paths, validated with languageCodeRegex
+  private readonly templateLanguagePattern =
+    "[a-zA-Z]{2,3}(?:[-_][a-zA-Z0-9]{2,4}){0,2}";
+
   detectLanguagesFromProject(sourceFilePath: string): string[] {
     const languageCodes = new Set<string>();
     const isArbFile = sourceFilePath.endsWith(".arb");
@@ -51,17 +117,26 @@ export class I18nProjectManager {
       }
     } else if (structureInfo.type === ProjectStructureType.FileBased) {
       // For file-based, scan the base path for language files
-      const fileExtension = isArbFile ? ".arb" : ".json";
+      const fileExtensions = this.getLocaleFileExtensions(sourceFilePath);
+      // Resource bundles only count files of the same bundle
+      const bundlePrefix = this.isResourceBundleFile(sourceFilePath)
+        ? this.getFileBasedPrefix(sourceFilePath, structureInfo)
+        : "";
       try {
         const entries = fs.readdirSync(structureInfo.basePath, {
           withFileTypes: true,
         });
         for (const entry of entries) {
-          if (entry.isFile() && entry.name.endsWith(fileExtension)) {
+          const fileExtension = path.extname(entry.name);
+          if (
+            entry.isFile() &&
+            fileExtensions.includes(fileExtension) &&
+            entry.name.startsWith(bundlePrefix)
+          ) {
             const fileName = path.basename(entry.name, fileExtension);
             const languageCode = this.extractLanguageCodeFromFileName(
               fileName,
-              isArbFile
+              fileExtension
             );
             if (languageCode) {
               languageCodes.add(languageCode);
@@ -71,6 +146,101 @@ export class I18nProjectManager {
       } catch (error) {
         console.warn("Error scanning for language files:", error);
       }
+    } else if (structureInfo.type === ProjectStructureType.Template) {
+      // For path templates, look for files that differ from the source only in the language code
+      try {
+        for (const languageCode of this.findTemplateLanguages(
+          structureInfo.basePath,
+          structureInfo.templateParts!
+        )) {
+          languageCodes.add(languageCode);
+        }
+      } catch (error) {
+        console.warn("Error scanning for path template languages:", error);
+      }
+    } else if (structureInfo.type === ProjectStructureType.Gettext) {
+      // For gettext, scan the base path for <lang>/LC_MESSAGES directories
+      try {
+        for (const languageDir of this.getGettextLanguageDirs(
+          structureInfo.basePath
+        )) {
+          languageCodes.add(languageDir);
+        }
+      } catch (error) {
+        console.warn("Error scanning for gettext language directories:", error);
+      }
+    } else if (structureInfo.type === ProjectStructureType.Android) {
+      // For Android, scan the res folder for values-<qualifier> directories
+      try {
+        const entries = fs.readdirSync(structureInfo.basePath, {
+          withFileTypes: true,
+        });
+        for (const entry of entries) {
+          if (entry.isDirectory()) {
+            const languageCode = this.extractLanguageCodeFromAndroidDir(
+              entry.name
+            );
+            if (languageCode) {
+              languageCodes.add(languageCode);
+            }
+          }
+        }
+      } catch (error) {
+        console.warn("Error scanning for Android values directories:", error);
+      }
+    } else if (structureInfo.type === ProjectStructureType.Lproj) {
+      // For Apple projects, scan the base path for <lang>.lproj directories
+      try {
+        const entries = fs.readdirSync(structureInfo.basePath, {
+          withFileTypes: true,
+        });
+        for (const entry of entries) {
+          if (entry.isDirectory() && entry.name.endsWith(this.lprojExtension)) {
+            const languageCode = path.basename(entry.name, this.lprojExtension);
+            if (this.languageCodeRegex.test(languageCode)) {
+              languageCodes.add(languageCode);
+            }
+          }
+        }
+      } catch (error) {
+        console.warn("Error scanning for lproj directories:", error);
+      }
+    } else if (structureInfo.type === ProjectStructureType.StringCatalog) {
+      // For String Catalogs, the languages are the localizations in the file
+      try {
+        for (const languageCode of this.getStringCatalogLanguages(
+          sourceFilePath
+        )) {
+          languageCodes.add(languageCode);
+        }
+      } catch (error) {
+        console.warn("Error reading String Catalog languages:", error);
+      }
+    } else {
+      // For unknown structure, look for {originalname}.{languagecode} files saved next to the source
+      const fileExtension = path.extname(sourceFilePath);
+      const prefix = `${path.basename(sourceFilePath, fileExtension)}.`;
+      try {
+        const entries = fs.readdirSync(structureInfo.basePath, {
+          withFileTypes: true,
+        });
+        for (const entry of entries) {
+          if (
+            entry.isFile() &&
+            entry.name.startsWith(prefix) &&
+            entry.name.endsWith(fileExtension)
+          ) {
+            const languageCode = path
+              .basename(entry.name, fileExtension)
+              .substring(prefix.length);
+            if (this.languageCodeRegex.test(languageCode)) {
+              languageCodes.add(languageCode);
+            }
+          }
+        }
+      } catch (error) {
+        console.warn("Error scanning for language files:", error);
+      }
     }
 
     // Remove source language from the set if it exists
@@ -84,25 +254,46 @@ export class I18nProjectManager {
     );
   }
 
+  /**
+   * Returns the target file path and creates its folder if it doesn't exist
+   */
   generateTargetFilePath(
     sourceFilePath: string,
     targetLanguage: string
   ): string {
+    const targetFilePath = this.getTargetFilePath(
+      sourceFilePath,
+      targetLanguage
+    );
+
+    // Create target language folder if it doesn't exist
+    const targetDir = path.dirname(targetFilePath);
+    if (!fs.existsSync(targetDir)) {
+      fs.mkdirSync(targetDir, { recursive: true });
+    }
+    return targetFilePath;
+  }
+
+  /**
+   * Returns the path of the translation of the source file without creating folders
+   */
+  getTargetFilePath(sourceFilePath: string, targetLanguage: string): string {
     const structureInfo = this.detectProjectStructure(sourceFilePath);
-    const fileExtension = path.extname(sourceFilePath);
-    const sourceFileName = path.basename(sourceFilePath, fileExtension);
-    const isArbFile = fileExtension === ".arb";
-    const languageCode = isArbFile
-      ? targetLanguage.replace(/-/g, "_")
-      : targetLanguage;
+    const sourceFileExt = path.extname(sourceFilePath);
+    const sourceFileName = path.basename(sourceFilePath, sourceFileExt);
+    const isArbFile = sourceFileExt === ".arb";
+    const isGettextFile = this.isGettextFile(sourceFilePath);
+    const isPropertiesFile = this.isPropertiesFile(sourceFilePath);
+    // Translations of a .pot template are .po catalogs
+    const fileExtension = sourceFileExt === ".pot" ? ".po" : sourceFileExt;
+    const languageCode =
+      isArbFile || isGettextFile || isPropertiesFile
+        ? targetLanguage.replace(/-/g, "_")
+        : targetLanguage;
 
     switch (structureInfo.type) {
       case ProjectStructureType.FolderBased: {
-        // Create target language folder if it doesn't exist
         const targetDir = path.join(structureInfo.basePath, languageCode);
-        if (!fs.existsSync(targetDir)) {
-          fs.mkdirSync(targetDir, { recursive: true });
-        }
 
         // Use the same file name as source
         const targetFilePath = path.join(
@@ -112,33 +303,61 @@ export class I18nProjectManager {
         return targetFilePath;
       }
 
+      case ProjectStructureType.Gettext: {
+        const targetDir = path.join(
+          structureInfo.basePath,
+          languageCode,
+          this.gettextMessagesDir
+        );
+
+        // Use the domain name of the source catalog or template
+        return path.join(targetDir, `${sourceFileName}${fileExtension}`);
+      }
+
+      case ProjectStructureType.Android: {
+        const targetDir = path.join(
+          structureInfo.basePath,
+          `${this.androidValuesDir}-${this.toAndroidQualifier(targetLanguage)}`
+        );
+
+        // Use the same resource file name as source
+        return path.join(targetDir, `${sourceFileName}${fileExtension}`);
+      }
+
+      case ProjectStructureType.Lproj: {
+        const targetDir = path.join(
+          structureInfo.basePath,
+          `${languageCode}${this.lprojExtension}`
+        );
+
+        return path.join(targetDir, `${sourceFileName}${fileExtension}`);
+      }
+
+      case ProjectStructureType.StringCatalog:
+        // Translations are added to the catalog itself
+        return sourceFilePath;
+
+      case ProjectStructureType.Template: {
+        // Replace every language code of the matched template, keep the rest of the path
+        const templateLanguage = structureInfo.sourceLanguage?.includes("_")
+          ? targetLanguage.replace(/-/g, "_")
+          : languageCode;
+        return path.join(
+          structureInfo.basePath,
+          ...structureInfo.templateParts!.join(templateLanguage).split("/")
+        );
+      }
+
       case ProjectStructureType.FileBased: {
-        if (isArbFile) {
-          // For ARB files, extract prefix and append target language
-          // app_en_US.arb -> app_es.arb
-          const sourceLanguage = structureInfo.sourceLanguage;
-          let prefix = "";
-
-          if (sourceLanguage) {
-            const langIndex = sourceFileName.indexOf(sourceLanguage);
-            if (langIndex > 0) {
-              prefix = sourceFileName.substring(0, langIndex);
-            }
-          }
+        // Keep any prefix before the language code and append target language
+        // en.json -> es.json, app_en_US.arb -> app_es.arb, messages.en.xlf -> messages.es.xlf
+        const prefix = this.getFileBasedPrefix(sourceFilePath, structureInfo);
 
-          const targetFilePath = path.join(
-            structureInfo.basePath,
-            `${prefix}${languageCode}${fileExtension}`
-          );
-          return targetFilePath;
-        } else {
-          // Save in the same directory with target language as filename
-          const targetFilePath = path.join(
-            structureInfo.basePath,
-            `${languageCode}${fileExtension}`
-          );
-          return targetFilePath;
-        }
+        const targetFilePath = path.join(
+          structureInfo.basePath,
+          `${prefix}${languageCode}${fileExtension}`
+        );
+        return targetFilePath;
       }
 
       default: {
@@ -153,6 +372,114 @@ export class I18nProjectManager {
     }
   }
 
+  /**
+   * Groups locale files into i18n roots, each with the file translations are made from
+   * Files without a language (messages.properties, values/strings.xml, .pot templates)
+   * or in the source language are source files, files of unknown structure are skipped
+   */
+  findI18nRoots(
+    filePaths: string[],
+    getSourceLanguage: (filePath: string) => string
+  ): I18nRoot[] {
+    const roots = new Map<string, I18nRoot>();
+
+    for (const filePath of filePaths) {
+      if (!this.isSourceFile(filePath, getSourceLanguage(filePath))) {
+        continue;
+      }
+      const structure = this.detectProjectStructure(filePath);
+      const languageCode = structure.sourceLanguage;
+
+      // Source files of the same root have the same translations,
+      // e.g. messages.properties and messages_en.properties
+      const rootKey = this.getTargetFilePath(filePath, "zz");
+      const existing = roots.get(rootKey);
+      if (!existing || (existing.structure.sourceLanguage && !languageCode)) {
+        roots.set(rootKey, { sourceFilePath: filePath, structure });
+      }
+    }
+
+    return Array.from(roots.values()).sort((a, b) =>
+      a.sourceFilePath.localeCompare(b.sourceFilePath)
+    );
+  }
+
+  /**
+   * Returns true for locale files in the source language and files without a language
+   */
+  isSourceFile(filePath: string, sourceLanguage: string): boolean {
+    const structure = this.detectProjectStructure(filePath);
+    const languageCode = structure.sourceLanguage;
+    return (
+      structure.type !== ProjectStructureType.Unknown &&
+      (!languageCode ||
+        this.getPrimaryLanguage(languageCode) ===
+          this.getPrimaryLanguage(sourceLanguage))
+    );
+  }
+
+  /**
+   * Returns the source file a target file is translated from, or undefined for source
+   * files, files that store all languages and targets whose source doesn't exist
+   * The file in the source language (or a regional variant of it) comes first, then
+   * the neutral file (messages.properties, values/strings.xml, <domain>.pot)
+   */
+  findSourceFilePath(
+    targetFilePath: string,
+    sourceLanguage: string
+  ): string | undefined {
+    const structure = this.detectProjectStructure(targetFilePath);
+    const languageCode = structure.sourceLanguage;
+    const primaryLanguage = this.getPrimaryLanguage(sourceLanguage);
+    if (
+      structure.type === ProjectStructureType.Unknown ||
+      structure.type === ProjectStructureType.StringCatalog ||
+      !languageCode ||
+      this.getPrimaryLanguage(languageCode) === primaryLanguage
+    ) {
+      return undefined;
+    }
+
+    const sourceLanguages = [
+      sourceLanguage,
+      ...this.detectLanguagesFromProject(targetFilePath).filter(
+        (code) => this.getPrimaryLanguage(code) === primaryLanguage
+      ),
+    ];
+    const candidates = sourceLanguages.map((code) =>
+      this.getTargetFilePath(targetFilePath, code)
+    );
+
+    const fileExtension = path.extname(targetFilePath);
+    const fileName = path.basename(targetFilePath, fileExtension);
+    if (structure.type === ProjectStructureType.Gettext) {
+      candidates.push(path.join(structure.basePath, `${fileName}.pot`));
+    } else if (structure.type === ProjectStructureType.Android) {
+      candidates.push(
+        path.join(
+          structure.basePath,
+          this.androidValuesDir,
+          `${fileName}${fileExtension}`
+        )
+      );
+    } else if (structure.type === ProjectStructureType.FileBased) {
+      // messages_de.properties -> messages.properties, messages.de.xlf -> messages.xlf
+      const prefix = this.getFileBasedPrefix(targetFilePath, structure);
+      if (/[._-]$/.test(prefix)) {
+        candidates.push(
+          path.join(
+            structure.basePath,
+            `${prefix.slice(0, -1)}${fileExtension}`
+          )
+        );
+      }
+    }
+
+    return candidates.find(
+      (candidate) => candidate !== targetFilePath && fs.existsSync(candidate)
+    );
+  }
+
   getUniqueFilePath(filePath: string): string {
     if (!fs.existsSync(filePath)) {
       return filePath;
@@ -200,14 +527,90 @@ export class I18nProjectManager {
     return !!code && this.languageCodeRegex.test(code);
   }
 
+  /**
+   * Returns the language code of the source file if it can be detected from the project structure
+   */
+  detectSourceLanguage(sourceFilePath: string): string | undefined {
+    return this.detectProjectStructure(sourceFilePath).sourceLanguage;
+  }
+
   private detectProjectStructure(sourceFilePath: string): ProjectStructureInfo {
     const sourceDir = path.dirname(sourceFilePath);
     const sourceFileExt = path.extname(sourceFilePath);
     const sourceFileName = path.basename(sourceFilePath, sourceFileExt);
     const isArbFile = sourceFileExt === ".arb";
+    const parentDirName = path.basename(sourceDir);
+
+    // Configured path templates take precedence over the heuristics below
+    const templateStructure = this.matchPathTemplates(sourceFilePath);
+    if (templateStructure) {
+      return templateStructure;
+    }
+
+    // Check for the gettext layout (locale/<lang>/LC_MESSAGES/<domain>.po)
+    if (this.isGettextFile(sourceFilePath)) {
+      const languageDir = path.dirname(sourceDir);
+      const languageDirName = path.basename(languageDir);
+      if (
+        parentDirName === this.gettextMessagesDir &&
+        this.languageCodeRegex.test(languageDirName)
+      ) {
+        return {
+          type: ProjectStructureType.Gettext,
+          basePath: path.dirname(languageDir),
+          sourceLanguage: languageDirName,
+        };
+      }
+
+      // Templates sit either next to the language folders (locale/<domain>.pot)
+      // or next to the catalogs (po/<domain>.pot, po/de.po)
+      if (sourceFileExt === ".pot") {
+        const hasLanguageDirs =
+          parentDirName === "locale" ||
+          this.getGettextLanguageDirs(sourceDir).length > 0;
+        return {
+          type: hasLanguageDirs
+            ? ProjectStructureType.Gettext
+            : ProjectStructureType.FileBased,
+          basePath: sourceDir,
+        };
+      }
+    }
+
+    // Check for Apple String Catalogs (Localizable.xcstrings)
+    if (sourceFileExt === this.stringCatalogExtension) {
+      return {
+        type: ProjectStructureType.StringCatalog,
+        basePath: sourceDir,
+        sourceLanguage: this.readStringCatalog(sourceFilePath)?.sourceLanguage,
+      };
+    }
+
+    // Check for Apple .lproj folders (en.lproj/Localizable.strings)
+    if (parentDirName.endsWith(this.lprojExtension)) {
+      const languageCode = path.basename(parentDirName, this.lprojExtension);
+      return {
+        type: ProjectStructureType.Lproj,
+        basePath: path.dirname(sourceDir),
+        sourceLanguage:
+          parentDirName !== this.lprojBaseDir &&
+          this.languageCodeRegex.test(languageCode)
+            ? languageCode
+            : undefined,
+      };
+    }
+
+    // Check for Android resources (res/values/strings.xml, res/values-fr/strings.xml)
+    if (sourceFileExt === ".xml" && this.isAndroidValuesDir(parentDirName)) {
+      return {
+        type: ProjectStructureType.Android,
+        basePath: path.dirname(sourceDir),
+        sourceLanguage:
+          this.extractLanguageCodeFromAndroidDir(parentDirName) ?? undefined,
+      };
+    }
 
     // Check if the parent directory name is a language code (folder-based structure)
-    const parentDirName = path.basename(sourceDir);
     const regex = isArbFile
       ? this.arbLanguageCodeRegex
       : this.languageCodeRegex;
@@ -222,7 +625,7 @@ export class I18nProjectManager {
     // Check if the source file name is a language code (file-based structure)
     const languageCode = this.extractLanguageCodeFromFileName(
       sourceFileName,
-      isArbFile
+      sourceFileExt
     );
     if (languageCode) {
       return {
@@ -232,6 +635,14 @@ export class I18nProjectManager {
       };
     }
 
+    // The default resource bundle has no locale (messages.properties, Resources.resx)
+    if (this.isResourceBundleFile(sourceFilePath)) {
+      return {
+        type: ProjectStructureType.FileBased,
+        basePath: sourceDir,
+      };
+    }
+
     // Unknown structure
     return {
       type: ProjectStructureType.Unknown,
@@ -240,21 +651,356 @@ export class I18nProjectManager {
   }
 
   /**
-   * Extracts language code from file name, handling custom prefixes for ARB files
+   * Returns the structure of the first configured path template that matches the source file
+   */
+  private matchPathTemplates(
+    sourceFilePath: string
+  ): ProjectStructureInfo | undefined {
+    const pathTemplates = this.getPathTemplates(sourceFilePath);
+    if (!pathTemplates) {
+      return undefined;
+    }
+
+    const relativePath = path
+      .relative(pathTemplates.rootPath, sourceFilePath)
+      .split(path.sep)
+      .join("/");
+    if (relativePath.startsWith("../") || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+
+    for (const template of pathTemplates.templates) {
+      const match = this.compilePathTemplate(template)?.exec(relativePath);
+      const languageCode = match?.groups?.lang;
+      if (
+        !languageCode ||
+        !match.indices?.groups ||
+        !this.languageCodeRegex.test(languageCode)
+      ) {
+        continue;
+      }
+
+      // Split the path at every occurrence of the language code
+      const spans = Object.entries(match.indices.groups)
+        .filter(([name, span]) => /^lang\d*$/.test(name) && span)
+        .map(([, span]) => span!)
+        .sort((a, b) => a[0] - b[0]);
+      const templateParts: string[] = [];
+      let partStart = 0;
+      for (const [start, end] of spans) {
+        templateParts.push(relativePath.substring(partStart, start));
+        partStart = end;
+      }
+      templateParts.push(relativePath.substring(partStart));
+
+      return {
+        type: ProjectStructureType.Template,
+        basePath: pathTemplates.rootPath,
+        sourceLanguage: languageCode,
+        templateParts,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Converts a path template to a regular expression, {lang} is captured as lang, lang1, ...
+   * Templates without {lang} can't be resolved and return undefined
+   */
+  private compilePathTemplate(template: string): RegExp | undefined {
+    const normalized = template.replace(/\\/g, "/").replace(/^\.?\//, "");
+    const groupCounts: Record<string, number> = {};
+    let source = "";
+
+    for (const [token, placeholder] of normalized.matchAll(
+      this.templateTokenRegex
+    )) {
+      if (placeholder) {
+        // Repeated placeholders must have the same value
+        const count = groupCounts[placeholder] ?? 0;
+        groupCounts[placeholder] = count + 1;
+        const pattern =
+          placeholder === "lang" ? this.templateLanguagePattern : "[^/]+?";
+        source +=
+          count === 0
+            ? `(?<${placeholder}>${pattern})`
+            : `(?<${placeholder}${count}>\\k<${placeholder}>)`;
+      } else if (token === "**/") {
+        source += "(?:[^/]+/)*";
+      } else if (token === "*") {
+        source += "[^/]*";
+      } else {
+        source += this.escapeRegExp(token);
+      }
+    }
+
+    return groupCounts.lang ? new RegExp(`^${source}$`, "d") : undefined;
+  }
+
+  /**
+   * Returns the language codes of existing files whose path is the template path
+   * of the source file with a different language code
+   */
+  private findTemplateLanguages(
+    basePath: string,
+    templateParts: string[]
+  ): string[] {
+    const languagePattern = `(?<lang>${this.templateLanguagePattern})`;
+    const pathRegex = new RegExp(
+      `^${templateParts
+        .map((part) => this.escapeRegExp(part))
+        .reduce(
+          (source, part, index) =>
+            // Every later occurrence must repeat the first language code
+            `${source}${index === 1 ? languagePattern : "\\k<lang>"}${part}`
+        )}$`
+    );
+
+    // Walk the folders, reading only the ones whose name contains a language code
+    let candidates = [""];
+    for (const segment of templateParts.join("\0").split("/")) {
+      if (!segment.includes("\0")) {
+        candidates = candidates.map((candidate) =>
+          path.posix.join(candidate, segment)
+        );
+        continue;
+      }
+
+      const segmentRegex = new RegExp(
+        `^${segment
+          .split("\0")
+          .map((part) => this.escapeRegExp(part))
+          .join(this.templateLanguagePattern)}$`
+      );
+      candidates = candidates.flatMap((candidate) => {
+        const dir = path.join(basePath, candidate);
+        return fs.existsSync(dir)
+          ? fs
+              .readdirSync(dir)
+              .filter((name) => segmentRegex.test(name))
+              .map((name) => path.posix.join(candidate, name))
+          : [];
+      });
+    }
+
+    return candidates
+      .map((candidate) => candidate.match(pathRegex)?.groups?.lang)
+      .filter(
+        (languageCode, index): languageCode is string =>
+          !!languageCode &&
+          this.validateLanguageCode(languageCode) &&
+          fs.existsSync(path.join(basePath, candidates[index]))
+      );
+  }
+
+  private getPrimaryLanguage(languageCode: string): string {
+    return languageCode.split(/[-_]/)[0].toLowerCase();
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  /**
+   * Returns the extensions of sibling locale files that belong to the same format
+   * YAML projects mix .yml and .yaml, other formats use the source file extension
+   */
+  private getLocaleFileExtensions(sourceFilePath: string): string[] {
+    const fileExtension = path.extname(sourceFilePath);
+    if (this.yamlExtensions.includes(fileExtension)) {
+      return this.yamlExtensions;
+    }
+    if (this.isGettextFile(sourceFilePath)) {
+      return [".po"];
+    }
+    return [fileExtension];
+  }
+
+  /**
+   * Returns the part of a file-based source file name before the language code
+   * messages_en.properties and messages.properties both -> messages_
+   * Resources.de-DE.resx and Resources.resx both -> Resources.
+   */
+  private getFileBasedPrefix(
+    sourceFilePath: string,
+    structureInfo: ProjectStructureInfo
+  ): string {
+    const sourceFileName = path.basename(
+      sourceFilePath,
+      path.extname(sourceFilePath)
+    );
+    const sourceLanguage = structureInfo.sourceLanguage;
+
+    if (sourceLanguage) {
+      return sourceFileName.substring(
+        0,
+        sourceFileName.length - sourceLanguage.length
+      );
+    }
+    if (this.isPropertiesFile(sourceFilePath)) {
+      return `${sourceFileName}_`;
+    }
+    return this.isResxFile(sourceFilePath) ? `${sourceFileName}.` : "";
+  }
+
+  /**
+   * Resource bundles have a neutral file without a language code and localized siblings
+   */
+  private isResourceBundleFile(filePath: string): boolean {
+    return this.isPropertiesFile(filePath) || this.isResxFile(filePath);
+  }
+
+  private isResxFile(filePath: string): boolean {
+    return path.extname(filePath) === this.resxExtension;
+  }
+
+  private isPropertiesFile(filePath: string): boolean {
+    return path.extname(filePath) === this.propertiesExtension;
+  }
+
+  private isGettextFile(filePath: string): boolean {
+    const fileExtension = path.extname(filePath);
+    return fileExtension === ".po" || fileExtension === ".pot";
+  }
+
+  /**
+   * Returns language directories that contain an LC_MESSAGES folder
+   */
+  private getGettextLanguageDirs(basePath: string): string[] {
+    if (!fs.existsSync(basePath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(basePath, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isDirectory() &&
+          this.languageCodeRegex.test(entry.name) &&
+          fs.existsSync(
+            path.join(basePath, entry.name, this.gettextMessagesDir)
+          )
+      )
+      .map((entry) => entry.name);
+  }
+
+  private readStringCatalog(
+    filePath: string
+  ):
+    { sourceLanguage?: string; strings?: Record<string, unknown> } | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns every language that has a localization in the String Catalog
+   */
+  private getStringCatalogLanguages(filePath: string): string[] {
+    const languages = new Set<string>();
+    const strings = this.readStringCatalog(filePath)?.strings ?? {};
+
+    for (const entry of Object.values(strings)) {
+      const localizations = (entry as { localizations?: object }).localizations;
+      for (const languageCode of Object.keys(localizations ?? {})) {
+        languages.add(languageCode);
+      }
+    }
+
+    return Array.from(languages);
+  }
+
+  private isAndroidValuesDir(dirName: string): boolean {
+    return (
+      dirName === this.androidValuesDir ||
+      dirName.startsWith(`${this.androidValuesDir}-`)
+    );
+  }
+
+  /**
+   * Converts a BCP-47 code to an Android resource qualifier
+   * fr -> fr, pt-BR -> pt-rBR, sr-Latn -> b+sr+Latn, es-419 -> b+es+419
+   */
+  private toAndroidQualifier(languageCode: string): string {
+    const normalized = this.normalizeLanguageCode(languageCode);
+    const match = normalized.match(this.languageCodeRegex);
+    if (!match?.groups) {
+      return normalized;
+    }
+
+    const { language, script, region } = match.groups;
+    if (script || (region && !/^[A-Z]{2}$/.test(region))) {
+      return ["b", language, script, region].filter(Boolean).join("+");
+    }
+    return region ? `${language}-r${region}` : language;
+  }
+
+  /**
+   * Extracts the language code from an Android values directory name
+   * values-pt-rBR -> pt-BR, values-b+sr+Latn -> sr-Latn
+   * Other qualifiers such as values-night or values-v21 return null
+   */
+  private extractLanguageCodeFromAndroidDir(dirName: string): string | null {
+    const prefix = `${this.androidValuesDir}-`;
+    if (!dirName.startsWith(prefix)) {
+      return null;
+    }
+
+    const qualifier = dirName.substring(prefix.length);
+    if (qualifier.startsWith("b+")) {
+      const languageCode = qualifier.substring(2).split("+").join("-");
+      return this.languageCodeRegex.test(languageCode) ? languageCode : null;
+    }
+
+    // "car" is the car dock UI mode, not a language
+    const match = qualifier.match(this.androidQualifierRegex);
+    if (!match?.groups || qualifier === "car") {
+      return null;
+    }
+
+    const { language, region } = match.groups;
+    return region ? `${language}-${region}` : language;
+  }
+
+  /**
+   * Extracts language code from file name, handling custom prefixes for ARB, properties and XLIFF files
    * ARB files: app_en_US.arb -> en_US, my_app_fr.arb -> fr
-   * JSON files: en-US.json -> en-US
+   * Properties files: messages_pt_BR.properties -> pt_BR, messages.properties -> null
+   * XLIFF and RESX files: messages.fr.xlf -> fr, Resources.de-DE.resx -> de-DE
+   * JSON and YAML files: en-US.json -> en-US, en.yml -> en
    */
   private extractLanguageCodeFromFileName(
     fileName: string,
-    isArbFile: boolean
+    fileExtension: string
   ): string | null {
-    if (isArbFile) {
-      // For ARB files, try to extract language code after potential prefix
+    if (
+      this.xliffExtensions.includes(fileExtension) ||
+      fileExtension === this.resxExtension
+    ) {
+      // The language code follows the last dot of the base name, the neutral file has none
+      const dotIndex = fileName.lastIndexOf(".");
+      const suffix = fileName.substring(dotIndex + 1);
+      return dotIndex > 0 && this.languageCodeRegex.test(suffix)
+        ? suffix
+        : null;
+    }
+
+    if (
+      fileExtension === ".arb" ||
+      fileExtension === this.propertiesExtension
+    ) {
+      // For ARB and properties files, try to extract language code after potential prefix
       // Pattern: [prefix_]language[_script][_region]
       const parts = fileName.split("_");
 
+      // Resource bundles always have a base name before the locale
+      const firstPart = fileExtension === this.propertiesExtension ? 1 : 0;
+
       // Try combinations from right to left to find valid language code
-      for (let i = 0; i < parts.length; i++) {
+      for (let i = firstPart; i < parts.length; i++) {
         const potentialCode = parts.slice(i).join("_");
         if (this.arbLanguageCodeRegex.test(potentialCode)) {
           return potentialCode;
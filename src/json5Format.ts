@@ -0,0 +1,456 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+
+interface Token {
+  type: "punctuator" | "string" | "identifier" | "number" | "comment";
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface StringNode {
+  type: "string";
+  value: string;
+  quote: string;
+  start: number;
+  end: number;
+}
+
+interface LiteralNode {
+  type: "literal";
+  value: unknown;
+  start: number;
+  end: number;
+}
+
+interface ArrayNode {
+  type: "array";
+  items: Json5Node[];
+  start: number;
+  end: number;
+}
+
+interface ObjectMember {
+  key: string;
+  keyToken: Token;
+  value: Json5Node;
+  /** Comments on the lines above the member */
+  comment?: string;
+  /** Offset after the member's trailing comma, if it has one */
+  commaEnd?: number;
+}
+
+interface ObjectNode {
+  type: "object";
+  members: ObjectMember[];
+  start: number;
+  end: number;
+}
+
+type Json5Node = StringNode | LiteralNode | ArrayNode | ObjectNode;
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TOKEN_REGEX =
+  /\/\/[^\n\r\u2028\u2029]*|\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\[\s\S])*"|'(?:[^'\\]|\\[\s\S])*'|[{}[\]:,]|[+-]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|(?:Infinity|NaN)(?![$_\p{L}\p{N}]))|[$_\p{L}][$_\p{L}\p{N}\u200C\u200D]*|\S/gu;
+const IDENTIFIER_REGEX = /^[$_\p{L}][$_\p{L}\p{N}\u200C\u200D]*$/u;
+// i18next plural keys must keep their suffix, so comments aren't added to them
+const PLURAL_SUFFIX_REGEX = /_(zero|one|two|few|many|other)$/;
+
+/**
+ * JSON locale files, including JSON with comments and JSON5
+ * Plain JSON is sent to the API as-is; files with comments are converted to JSON
+ * and the translations are written into the source text, so comments, trailing
+ * commas, quote style and key order survive
+ */
+export class Json5FormatHandler implements FileFormatHandler {
+  readonly displayName = "JSON";
+  readonly extensions = [".json", ".jsonc", ".json5"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = false;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    if (isPlainJson(content)) {
+      return content;
+    }
+    return JSON.stringify(toData(parseJson5(content)), null, 2);
+  }
+
+  readTargetStrings(content: string): string {
+    return this.toJson(content);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const content = context.sourceContent;
+    if (isPlainJson(content)) {
+      return translations;
+    }
+
+    const edits: Edit[] = [];
+    applyTranslations(
+      content,
+      parseJson5(content),
+      JSON.parse(translations),
+      edits
+    );
+
+    return edits
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (output, edit) =>
+          output.substring(0, edit.start) +
+          edit.text +
+          output.substring(edit.end),
+        content
+      );
+  }
+}
+
+function isPlainJson(content: string): boolean {
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses JSON5 (and so JSON with comments) keeping the position of every value
+ */
+function parseJson5(content: string): Json5Node {
+  const tokens = Array.from(content.matchAll(TOKEN_REGEX), (match) => ({
+    type: getTokenType(match[0]),
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+  let position = 0;
+  let lastEnd = 0;
+  let comments: string[] = [];
+
+  const fail = (message: string): never => {
+    const token = tokens[position];
+    const line = content
+      .substring(0, token?.start ?? content.length)
+      .split("\n").length;
+    throw new Error(`Invalid JSON5: ${message} at line ${line}`);
+  };
+
+  // Skips comments, collecting the ones that start on their own line
+  const peek = (): Token | undefined => {
+    while (tokens[position]?.type === "comment") {
+      const comment = tokens[position];
+      if (/[\n\r]/.test(content.substring(lastEnd, comment.start))) {
+        comments.push(getCommentText(comment.text));
+      }
+      position++;
+    }
+    return tokens[position];
+  };
+
+  const next = (): Token => {
+    const token = peek() ?? fail("Unexpected end of input");
+    position++;
+    lastEnd = token.end;
+    return token;
+  };
+
+  const expect = (text: string): Token => {
+    const token = next();
+    if (token.text !== text) {
+      position--;
+      fail(`Expected "${text}" but found "${token.text}"`);
+    }
+    return token;
+  };
+
+  const parseValue = (): Json5Node => {
+    const token = next();
+
+    if (token.text === "{") {
+      const members: ObjectMember[] = [];
+      comments = [];
+      while (peek()?.text !== "}") {
+        const comment = comments.length > 0 ? comments.join(" ") : undefined;
+        const keyToken = next();
+        if (keyToken.type !== "string" && keyToken.type !== "identifier") {
+          position--;
+          fail(`Unexpected "${keyToken.text}"`);
+        }
+        expect(":");
+        const member: ObjectMember = {
+          key:
+            keyToken.type === "string"
+              ? parseString(keyToken.text)
+              : keyToken.text,
+          keyToken,
+          value: parseValue(),
+          comment,
+        };
+        members.push(member);
+
+        if (peek()?.text !== ",") {
+          break;
+        }
+        member.commaEnd = next().end;
+        comments = [];
+      }
+      const end = expect("}").end;
+      return { type: "object", members, start: token.start, end };
+    }
+
+    if (token.text === "[") {
+      const items: Json5Node[] = [];
+      while (peek()?.text !== "]") {
+        items.push(parseValue());
+        if (peek()?.text !== ",") {
+          break;
+        }
+        next();
+      }
+      const end = expect("]").end;
+      return { type: "array", items, start: token.start, end };
+    }
+
+    if (token.type === "string") {
+      return {
+        type: "string",
+        value: parseString(token.text),
+        quote: token.text[0],
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (token.type === "number") {
+      return { ...token, type: "literal", value: parseNumber(token.text) };
+    }
+
+    const literals: Record<string, unknown> = {
+      true: true,
+      false: false,
+      null: null,
+    };
+    if (token.type === "identifier" && token.text in literals) {
+      return { ...token, type: "literal", value: literals[token.text] };
+    }
+
+    position--;
+    return fail(`Unexpected "${token.text}"`);
+  };
+
+  const root = parseValue();
+  if (peek()) {
+    fail(`Unexpected "${tokens[position].text}"`);
+  }
+  return root;
+}
+
+function getTokenType(text: string): Token["type"] {
+  if (text.startsWith("//") || text.startsWith("/*")) {
+    return "comment";
+  }
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return "string";
+  }
+  if (/^[{}[\]:,]$/.test(text)) {
+    return "punctuator";
+  }
+  if (/^[+-]?(\d|\.\d|Infinity$|NaN$)/.test(text)) {
+    return "number";
+  }
+  return "identifier";
+}
+
+function getCommentText(comment: string): string {
+  return comment
+    .replace(/^\/\/|^\/\*|\*\/$/g, "")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*\*?\s?/, "").trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+function parseString(quoted: string): string {
+  return quoted
+    .slice(1, -1)
+    .replace(
+      /\\(?:u([0-9a-fA-F]{4})|x([0-9a-fA-F]{2})|(\r\n|[\s\S]))/g,
+      (_, unicode?: string, hex?: string, char?: string) => {
+        if (unicode || hex) {
+          return String.fromCharCode(parseInt((unicode ?? hex)!, 16));
+        }
+        switch (char) {
+          case "n":
+            return "\n";
+          case "r":
+            return "\r";
+          case "t":
+            return "\t";
+          case "b":
+            return "\b";
+          case "f":
+            return "\f";
+          case "v":
+            return "\v";
+          case "0":
+            return "\0";
+          case "\n":
+          case "\r\n":
+          case "\r":
+          case "\u2028":
+          case "\u2029":
+            // Line continuation
+            return "";
+          default:
+            return char!;
+        }
+      }
+    );
+}
+
+function parseNumber(text: string): number {
+  const sign = text.startsWith("-") ? -1 : 1;
+  const unsigned = text.replace(/^[+-]/, "");
+  if (/^0x/i.test(unsigned)) {
+    return sign * parseInt(unsigned, 16);
+  }
+  return sign * Number(unsigned);
+}
+
+function quoteString(value: string, quote: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(new RegExp(quote, "g"), `\\${quote}`)
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+  return `${quote}${escaped}${quote}`;
+}
+
+/**
+ * Builds the key sent to the API, adding the comment above the member as context
+ */
+function getJsonKey(member: ObjectMember): string {
+  return member.comment &&
+    member.value.type === "string" &&
+    !PLURAL_SUFFIX_REGEX.test(member.key)
+    ? `${member.key} (${member.comment})`
+    : member.key;
+}
+
+/**
+ * Converts the syntax tree to the data sent to the API
+ */
+function toData(node: Json5Node): unknown {
+  switch (node.type) {
+    case "object":
+      return Object.fromEntries(
+        node.members.map((member) => [getJsonKey(member), toData(member.value)])
+      );
+    case "array":
+      return node.items.map((item) => toData(item));
+    default:
+      return node.value;
+  }
+}
+
+/**
+ * Collects edits that replace source strings with their translations and append
+ * keys the API added (e.g. generated plural forms) to the end of their object
+ */
+function applyTranslations(
+  content: string,
+  node: Json5Node,
+  translated: unknown,
+  edits: Edit[]
+) {
+  if (node.type === "string") {
+    if (typeof translated === "string") {
+      edits.push({
+        start: node.start,
+        end: node.end,
+        text: quoteString(translated, node.quote),
+      });
+    }
+    return;
+  }
+
+  if (node.type === "array") {
+    if (Array.isArray(translated)) {
+      node.items.forEach((item, index) =>
+        applyTranslations(content, item, translated[index], edits)
+      );
+    }
+    return;
+  }
+
+  if (node.type !== "object" || !translated || typeof translated !== "object") {
+    return;
+  }
+
+  const values = translated as Record<string, unknown>;
+  const jsonKeys = new Set<string>();
+  for (const member of node.members) {
+    const jsonKey = getJsonKey(member);
+    jsonKeys.add(jsonKey);
+    applyTranslations(content, member.value, values[jsonKey], edits);
+  }
+
+  const lastMember = node.members[node.members.length - 1];
+  const newEntries = Object.entries(values).filter(
+    ([key]) => !jsonKeys.has(key)
+  );
+  if (!lastMember || newEntries.length === 0) {
+    return;
+  }
+
+  // New members copy the indentation, key quotes and separator of the last member
+  const keyStart = lastMember.keyToken.start;
+  const indent = content.substring(
+    content.lastIndexOf("\n", keyStart) + 1,
+    keyStart
+  );
+  const separator = content.substring(
+    lastMember.keyToken.end,
+    lastMember.value.start
+  );
+  const keyQuote =
+    lastMember.keyToken.type === "string" ? lastMember.keyToken.text[0] : "";
+  const valueQuote =
+    lastMember.value.type === "string" ? lastMember.value.quote : '"';
+
+  const members = newEntries.map(([key, value]) => {
+    const quotedKey =
+      keyQuote || !IDENTIFIER_REGEX.test(key)
+        ? quoteString(key, keyQuote || '"')
+        : key;
+    const text =
+      typeof value === "string"
+        ? quoteString(value, valueQuote)
+        : JSON.stringify(value);
+    return `${quotedKey}${separator}${text}`;
+  });
+
+  const lineBreak = /^\s*$/.test(indent) ? `\n${indent}` : " ";
+  if (lastMember.commaEnd !== undefined) {
+    edits.push({
+      start: lastMember.commaEnd,
+      end: lastMember.commaEnd,
+      text: members.map((member) => `${lineBreak}${member},`).join(""),
+    });
+  } else {
+    edits.push({
+      start: lastMember.value.end,
+      end: lastMember.value.end,
+      text: members.map((member) => `,${lineBreak}${member}`).join(""),
+    });
+  }
+}
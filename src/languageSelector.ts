@@ -7,10 +7,16 @@ export class LanguageSelector {
 
   async selectTargetLanguage(
     detectedLanguages: string[] = [],
-    useUnderscores: boolean = false
+    useUnderscores: boolean = false,
+    configuredLanguages: string[] = []
   ): Promise<string | string[] | undefined> {
     let targetLanguage: string | string[] | undefined;
 
+    // Languages declared in the project config are used without asking
+    if (configuredLanguages.length > 0) {
+      return configuredLanguages;
+    }
+
     // Step 1: Show detected languages from project if available
     if (detectedLanguages.length > 0) {
       const result = await this.showDetectedLanguagesQuickPick(
@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+
+import { I18nProjectManager } from "./i18nProjectManager";
+import { detectFileFormat, getFileFormatHandler } from "./fileFormats";
+import { getKeysInLines, getStringKeys } from "./localeCoverage";
+import { DEFAULT_SOURCE_LANGUAGE, findProjectConfig } from "./projectConfig";
+import { COMMANDS } from "./constants";
+
+/**
+ * Offers to translate the keys at the cursor or in the selection of a source
+ * locale file, or every key under the parent key at the cursor
+ */
+export class LocaleCodeActionsProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.RefactorRewrite,
+  ];
+
+  constructor(private readonly i18nProjectManager: I18nProjectManager) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    const keys = this.getSelectedKeys(document, range);
+    if (!keys) {
+      return [];
+    }
+
+    const title =
+      keys.length === 1
+        ? `Translate "${keys[0]}" to all languages`
+        : `Translate ${keys.length} keys to all languages`;
+    const action = new vscode.CodeAction(
+      title,
+      vscode.CodeActionKind.RefactorRewrite
+    );
+    action.command = {
+      command: COMMANDS.TRANSLATE_SELECTION,
+      title,
+      arguments: [document.uri, keys],
+    };
+    return [action];
+  }
+
+  /**
+   * Returns the keys on the lines of the range, or undefined if the document
+   * isn't a source locale file or has no keys there
+   */
+  getSelectedKeys(
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): string[] | undefined {
+    const filePath = document.uri.fsPath;
+    const fileFormat = detectFileFormat(filePath);
+    // Files that store all languages are translated as a whole
+    if (
+      document.uri.scheme !== "file" ||
+      !fileFormat ||
+      getFileFormatHandler(fileFormat).storesAllLanguages
+    ) {
+      return undefined;
+    }
+
+    try {
+      const projectConfig = findProjectConfig(
+        filePath,
+        vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+      );
+      const sourceLanguage =
+        projectConfig?.config.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE;
+      if (!this.i18nProjectManager.isSourceFile(filePath, sourceLanguage)) {
+        return undefined;
+      }
+
+      const content = document.getText();
+      const sourceKeys = getStringKeys(
+        getFileFormatHandler(fileFormat).toJson(
+          content,
+          this.i18nProjectManager.detectSourceLanguage(filePath)
+        )
+      );
+
+      // A selection that ends at the start of a line doesn't include that line
+      const endLine =
+        range.end.line > range.start.line && range.end.character === 0
+          ? range.end.line - 1
+          : range.end.line;
+      const keys = getKeysInLines(
+        content,
+        sourceKeys,
+        range.start.line,
+        endLine
+      );
+      return keys.length > 0 ? keys : undefined;
+    } catch {
+      // Files that don't parse while being edited have no keys to offer
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,425 @@
+import type { FileFormatHandler } from "./fileFormats";
+import { comparePlaceholders, PlaceholderMismatch } from "./placeholders";
+
+// i18next-style plural suffixes, every plural form of a key counts as one string
+const PLURAL_SUFFIX_REGEX = /_(zero|one|two|few|many|other)$/;
+// Context added to a key for the API, e.g. "title (Shown in the menu)"
+const CONTEXT_SUFFIX_REGEX = / \([\s\S]*\)$/;
+// Placeholders and markup, e.g. {{count}}, {0}, %1$s, %@, ${name} or <b>
+const PLACEHOLDER_REGEX =
+  /\{\{[^}]*\}\}|\$?\{[^}]*\}|%(?:\d+\$)?[-+ #0]*\d*(?:\.\d+)?[a-zA-Z@]|<[^>]*>/g;
+
+/**
+ * Offsets of a key in a locale file
+ */
+export interface KeyRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Translation state of a target file compared to its source file
+ */
+export interface LocaleCoverage {
+  /** Number of strings in the source file */
+  total: number;
+  /** Number of source strings that have a translation */
+  translated: number;
+  /** Keys of source strings without a translation */
+  missing: string[];
+  /** Keys in the target file that aren't in the source file */
+  extra: string[];
+  /** Keys of target strings that are still the source text */
+  untranslated: string[];
+  /** Target strings whose placeholders differ from their source string */
+  placeholderMismatches: PlaceholderMismatch[];
+}
+
+/**
+ * Compares the strings of a target file with the strings of its source file
+ * A missing target file has every source string missing
+ */
+export function getLocaleCoverage(
+  formatHandler: FileFormatHandler,
+  sourceContent: string,
+  targetContent: string | undefined,
+  sourceLanguage: string | undefined,
+  targetLanguage: string
+): LocaleCoverage {
+  const sourceValues = getStringValues(
+    formatHandler.toJson(sourceContent, sourceLanguage)
+  );
+  const targetValues =
+    targetContent === undefined
+      ? new Map<string, string>()
+      : getStringValues(
+          formatHandler.readTargetStrings(
+            targetContent,
+            targetLanguage,
+            sourceContent
+          )
+        );
+  const sourceKeys = Array.from(
+    new Set(Array.from(sourceValues.keys(), getStringKey))
+  );
+  const targetKeys = new Set(Array.from(targetValues.keys(), getStringKey));
+
+  const missing = sourceKeys.filter((key) => !targetKeys.has(key));
+  const sourceKeySet = new Set(sourceKeys);
+  const extra = Array.from(targetKeys).filter((key) => !sourceKeySet.has(key));
+
+  // Values with no letters outside placeholders look the same in every language
+  const untranslated = new Set<string>();
+  for (const [keyPath, value] of targetValues) {
+    if (
+      sourceValues.get(keyPath) === value &&
+      /\p{L}/u.test(value.replace(PLACEHOLDER_REGEX, ""))
+    ) {
+      untranslated.add(getStringKey(keyPath));
+    }
+  }
+
+  return {
+    total: sourceKeys.length,
+    translated: sourceKeys.length - missing.length,
+    missing,
+    extra,
+    untranslated: Array.from(untranslated),
+    placeholderMismatches: findPlaceholderMismatches(
+      sourceValues,
+      targetValues,
+      targetValues.keys()
+    ),
+  };
+}
+
+/**
+ * Compares the placeholders of the translated strings at the given full paths
+ * with their source strings, strings only one side has are skipped
+ */
+export function findPlaceholderMismatches(
+  sourceValues: Map<string, string>,
+  targetValues: Map<string, string>,
+  keyPaths: Iterable<string>
+): PlaceholderMismatch[] {
+  const mismatches: PlaceholderMismatch[] = [];
+  for (const keyPath of keyPaths) {
+    const source = sourceValues.get(keyPath);
+    const translation = targetValues.get(keyPath);
+    if (source === undefined || translation === undefined) {
+      continue;
+    }
+    const { missing, unexpected } = comparePlaceholders(source, translation);
+    if (missing.length > 0 || unexpected.length > 0) {
+      mismatches.push({ key: getStringKey(keyPath), missing, unexpected });
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Returns the dot-separated paths of the non-empty strings in the JSON sent to the API
+ * Plural forms share one key, ARB metadata (@key, @@locale) is skipped
+ */
+export function getStringKeys(json: string): string[] {
+  return Array.from(
+    new Set(Array.from(getStringValues(json).keys(), getStringKey))
+  );
+}
+
+/**
+ * Returns the non-empty strings in the JSON sent to the API by their full path,
+ * including plural suffixes
+ */
+export function getStringValues(json: string): Map<string, string> {
+  const values = new Map<string, string>();
+
+  const collect = (value: unknown, keyPath: string) => {
+    if (typeof value === "string") {
+      if (value.trim() !== "") {
+        values.set(keyPath, value);
+      }
+      return;
+    }
+    if (!value || typeof value !== "object") {
+      return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (!key.startsWith("@")) {
+        collect(item, keyPath ? `${keyPath}.${key}` : key);
+      }
+    }
+  };
+
+  collect(JSON.parse(json), "");
+  return values;
+}
+
+/**
+ * Replaces the non-empty strings in the JSON sent to the API, keeping the structure,
+ * the values that aren't strings and ARB metadata
+ */
+export function mapStrings(
+  json: string,
+  map: (value: string, keyPath: string) => string
+): string {
+  const replace = (value: unknown, keyPath: string): unknown => {
+    if (typeof value === "string") {
+      return value.trim() !== "" ? map(value, keyPath) : value;
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => replace(item, `${keyPath}.${index}`));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        key.startsWith("@")
+          ? item
+          : replace(item, keyPath ? `${keyPath}.${key}` : key),
+      ])
+    );
+  };
+
+  return JSON.stringify(replace(JSON.parse(json), ""), null, 2);
+}
+
+/**
+ * Returns the keys of strings that were added or changed between two versions
+ * of the JSON sent to the API
+ */
+export function getChangedKeys(previousJson: string, json: string): string[] {
+  const previousValues = getStringValues(previousJson);
+  const changed = new Set<string>();
+  for (const [keyPath, value] of getStringValues(json)) {
+    if (previousValues.get(keyPath) !== value) {
+      changed.add(getStringKey(keyPath));
+    }
+  }
+  return Array.from(changed);
+}
+
+/**
+ * Returns the key a string path counts as, plural forms share the key without suffix
+ */
+export function getStringKey(keyPath: string): string {
+  return keyPath.replace(PLURAL_SUFFIX_REGEX, "");
+}
+
+/**
+ * Removes the strings whose key doesn't pass the filter, keeping the structure
+ * and the values that aren't strings
+ */
+export function filterStrings(
+  json: string,
+  filter: (key: string) => boolean
+): string {
+  const prune = (value: unknown, keyPath: string): unknown => {
+    if (typeof value === "string") {
+      return filter(getStringKey(keyPath)) ? value : undefined;
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      // Array items keep their index, removed strings become empty
+      return value.map(
+        (item, index) => prune(item, `${keyPath}.${index}`) ?? ""
+      );
+    }
+
+    const entries = Object.entries(value)
+      .map(([key, item]): [string, unknown] => [
+        key,
+        key.startsWith("@")
+          ? item
+          : prune(item, keyPath ? `${keyPath}.${key}` : key),
+      ])
+      .filter(
+        ([, item]) =>
+          item !== undefined && !(isEmptyObject(item) && !isEmptyObject(value))
+      );
+    return Object.fromEntries(entries);
+  };
+
+  return JSON.stringify(prune(JSON.parse(json), ""), null, 2);
+}
+
+/**
+ * Adds strings by their full path to the target JSON, where the source JSON has them
+ * Strings the target already has are kept
+ */
+export function addStrings(
+  targetJson: string | undefined,
+  sourceJson: string,
+  values: Map<string, string>
+): string {
+  // Returns undefined for a missing target part that gets no strings
+  const add = (target: unknown, source: unknown, keyPath: string): unknown => {
+    if (typeof source === "string") {
+      return typeof target === "string" && target.trim() !== ""
+        ? target
+        : (values.get(keyPath) ?? target);
+    }
+    if (!source || typeof source !== "object") {
+      return target;
+    }
+    if (Array.isArray(source)) {
+      const items: unknown[] = Array.isArray(target) ? [...target] : [];
+      source.forEach((item, index) => {
+        items[index] = add(items[index], item, `${keyPath}.${index}`);
+      });
+      return target === undefined && items.every((item) => item === undefined)
+        ? undefined
+        : items.map((item) => item ?? "");
+    }
+
+    const result: Record<string, unknown> =
+      target && typeof target === "object" && !Array.isArray(target)
+        ? { ...target }
+        : {};
+    let added = false;
+    for (const [key, item] of Object.entries(source)) {
+      if (key.startsWith("@")) {
+        continue;
+      }
+      const value = add(result[key], item, keyPath ? `${keyPath}.${key}` : key);
+      if (value !== undefined && value !== result[key]) {
+        result[key] = value;
+        added = true;
+      }
+    }
+    return target === undefined && !added ? undefined : result;
+  };
+
+  const target = targetJson === undefined ? undefined : JSON.parse(targetJson);
+  return JSON.stringify(
+    add(target, JSON.parse(sourceJson), "") ?? target ?? {},
+    null,
+    2
+  );
+}
+
+function isEmptyObject(value: unknown): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 0
+  );
+}
+
+/**
+ * Finds where a key is written in a locale file
+ * Flat files write the whole key (menu.open=Open), nested files each part of its
+ * path after the previous one, e.g. "menu" and then "open" for "menu.open"
+ * Context added to keys, such as "title (comment)", isn't part of the file
+ */
+export function findKeyRange(
+  content: string,
+  key: string
+): KeyRange | undefined {
+  const name = key.replace(CONTEXT_SUFFIX_REGEX, "");
+  if (name.includes(".")) {
+    const range = searchKey(content, name, 0, true);
+    if (range) {
+      return range;
+    }
+  }
+  return findKeyPathRange(content, name.split("."), false);
+}
+
+/**
+ * Returns the keys written on the given lines (zero-based, inclusive)
+ * A parent key on the lines, e.g. "menu", includes every key under it
+ */
+export function getKeysInLines(
+  content: string,
+  keys: string[],
+  startLine: number,
+  endLine: number
+): string[] {
+  const isInLines = (range: KeyRange | undefined) => {
+    if (!range) {
+      return false;
+    }
+    const line = content.substring(0, range.start).split("\n").length - 1;
+    return line >= startLine && line <= endLine;
+  };
+
+  // Parents are only searched where they are written as keys, so a flat
+  // menu.open=Open doesn't make "menu" the parent of every menu.* key
+  const parentRanges = new Map<string, KeyRange | undefined>();
+  const isParentInLines = (segments: string[]) => {
+    const parent = segments.join(".");
+    if (!parentRanges.has(parent)) {
+      parentRanges.set(parent, findKeyPathRange(content, segments, true));
+    }
+    return isInLines(parentRanges.get(parent));
+  };
+
+  return keys.filter((key) => {
+    const segments = key.replace(CONTEXT_SUFFIX_REGEX, "").split(".");
+    for (let i = 1; i < segments.length; i++) {
+      if (isParentInLines(segments.slice(0, i))) {
+        return true;
+      }
+    }
+    return isInLines(findKeyRange(content, key));
+  });
+}
+
+/**
+ * Searches each part of a key path after the previous one
+ */
+function findKeyPathRange(
+  content: string,
+  segments: string[],
+  keysOnly: boolean
+): KeyRange | undefined {
+  let offset = 0;
+  let range: KeyRange | undefined;
+
+  for (const segment of segments) {
+    const match =
+      searchKey(content, segment, offset, true) ??
+      (keysOnly ? undefined : searchKey(content, segment, offset, false));
+    if (!match) {
+      // Array indexes and keys that were renamed for the API aren't in the file
+      continue;
+    }
+    range = match;
+    offset = range.end;
+  }
+
+  return range;
+}
+
+/**
+ * Finds a key name after the offset, a name followed by : or = is written as a key
+ * (JSON, YAML, .properties, .strings) and is preferred to the name anywhere else
+ */
+function searchKey(
+  content: string,
+  name: string,
+  offset: number,
+  asKey: boolean
+): KeyRange | undefined {
+  const regex = new RegExp(
+    `(?<![\\w.-])${escapeRegExp(name)}(?:_(?:zero|one|two|few|many|other))?(?![\\w-])${
+      asKey ? `(?=["']?\\s*[:=])` : ""
+    }`,
+    "g"
+  );
+  regex.lastIndex = offset;
+  const match = regex.exec(content);
+  return match
+    ? { start: match.index, end: match.index + match[0].length }
+    : undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
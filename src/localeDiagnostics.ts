@@ -0,0 +1,358 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { I18nProjectManager } from "./i18nProjectManager";
+import {
+  detectFileFormat,
+  FileFormat,
+  getFileFormatHandler,
+} from "./fileFormats";
+import { findKeyRange, getLocaleCoverage } from "./localeCoverage";
+import { formatPlaceholderMismatch } from "./placeholders";
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  findProjectConfig,
+  isExcludedByProjectConfig,
+} from "./projectConfig";
+import { logWarning } from "./logger";
+import { COMMANDS, CONFIG } from "./constants";
+
+// Typing in a locale file updates its diagnostics once the user pauses
+const UPDATE_DELAY_MS = 500;
+
+export const DIAGNOSTIC_SOURCE = "l10n.dev";
+
+export enum LocaleDiagnosticCode {
+  MissingKey = "missing-key",
+  StaleKey = "stale-key",
+  UntranslatedValue = "untranslated-value",
+  PlaceholderMismatch = "placeholder-mismatch",
+}
+
+/**
+ * A target file with diagnostics and what its quick fixes need
+ */
+interface TargetFileInfo {
+  sourceFilePath: string;
+  language: string;
+  fileFormat: FileFormat;
+  missingKeys: string[];
+  /** The key each published diagnostic is about */
+  diagnosticKeys: Map<vscode.Diagnostic, string>;
+}
+
+/**
+ * Flags keys missing from target locale files, keys the source file no longer has,
+ * values that are still the source text and values whose placeholders differ from
+ * the source text, with quick fixes that translate them
+ */
+export class LocaleDiagnosticsProvider
+  implements vscode.CodeActionProvider, vscode.Disposable
+{
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly diagnostics =
+    vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+  private readonly targetFiles = new Map<string, TargetFileInfo>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private updateTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly i18nProjectManager: I18nProjectManager) {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.updateDocument(document)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.clearDocument(document.uri)
+      ),
+      // A changed source file changes the diagnostics of its open targets
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.scheduleUpdate(event.document)
+      ),
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this.scheduleUpdate(document)
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(CONFIG.SECTION)) {
+          this.updateAll();
+        }
+      })
+    );
+    this.updateAll();
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const targetFile = this.targetFiles.get(document.uri.toString());
+    if (!targetFile) {
+      return [];
+    }
+
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) => diagnostic.source === DIAGNOSTIC_SOURCE
+    );
+    const actions: vscode.CodeAction[] = [];
+    const translatedKeys = new Set<string>();
+    for (const diagnostic of diagnostics) {
+      const key = this.findDiagnosticKey(targetFile, diagnostic);
+      // Stale keys have nothing to translate
+      if (
+        key === undefined ||
+        diagnostic.code === LocaleDiagnosticCode.StaleKey ||
+        translatedKeys.has(key)
+      ) {
+        continue;
+      }
+      translatedKeys.add(key);
+      actions.push(
+        this.createTranslateAction(
+          `Translate "${key}"`,
+          document.uri,
+          targetFile,
+          [key],
+          diagnostic
+        )
+      );
+    }
+
+    const { missingKeys } = targetFile;
+    if (
+      diagnostics.length > 0 &&
+      missingKeys.some((key) => !translatedKeys.has(key))
+    ) {
+      actions.push(
+        this.createTranslateAction(
+          missingKeys.length === 1
+            ? "Translate 1 missing key"
+            : `Translate all ${missingKeys.length} missing keys`,
+          document.uri,
+          targetFile,
+          missingKeys
+        )
+      );
+    }
+    return actions;
+  }
+
+  dispose() {
+    clearTimeout(this.updateTimer);
+    this.diagnostics.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private scheduleUpdate(document: vscode.TextDocument) {
+    if (!detectFileFormat(document.uri.fsPath)) {
+      return;
+    }
+    clearTimeout(this.updateTimer);
+    this.updateTimer = setTimeout(() => this.updateAll(), UPDATE_DELAY_MS);
+  }
+
+  private updateAll() {
+    for (const document of vscode.workspace.textDocuments) {
+      this.updateDocument(document);
+    }
+  }
+
+  private clearDocument(uri: vscode.Uri) {
+    this.diagnostics.delete(uri);
+    this.targetFiles.delete(uri.toString());
+  }
+
+  private updateDocument(document: vscode.TextDocument) {
+    const enabled = vscode.workspace
+      .getConfiguration(CONFIG.SECTION, document.uri)
+      .get<boolean>(CONFIG.KEYS.KEY_DIAGNOSTICS, true);
+    const fileFormat = detectFileFormat(document.uri.fsPath);
+    if (
+      !enabled ||
+      document.uri.scheme !== "file" ||
+      !fileFormat ||
+      getFileFormatHandler(fileFormat).storesAllLanguages
+    ) {
+      this.clearDocument(document.uri);
+      return;
+    }
+
+    try {
+      this.diagnoseDocument(document, fileFormat);
+    } catch (error) {
+      // Files that don't parse while being edited keep their last diagnostics
+      logWarning(
+        `Failed to check ${document.uri.fsPath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  private diagnoseDocument(
+    document: vscode.TextDocument,
+    fileFormat: FileFormat
+  ) {
+    const targetFilePath = document.uri.fsPath;
+    const projectConfig = findProjectConfig(
+      targetFilePath,
+      vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+    );
+    const sourceLanguage =
+      projectConfig?.config.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE;
+    const language =
+      this.i18nProjectManager.detectSourceLanguage(targetFilePath);
+    const sourceFilePath = this.i18nProjectManager.findSourceFilePath(
+      targetFilePath,
+      sourceLanguage
+    );
+    if (
+      !language ||
+      !sourceFilePath ||
+      (projectConfig &&
+        isExcludedByProjectConfig(projectConfig, sourceFilePath))
+    ) {
+      this.clearDocument(document.uri);
+      return;
+    }
+
+    const targetContent = document.getText();
+    const coverage = getLocaleCoverage(
+      getFileFormatHandler(fileFormat),
+      readDocumentText(sourceFilePath),
+      targetContent,
+      this.i18nProjectManager.detectSourceLanguage(sourceFilePath),
+      language
+    );
+
+    const sourceFileName = path.basename(sourceFilePath);
+    const diagnosticKeys = new Map<vscode.Diagnostic, string>();
+    const addDiagnostic = (
+      key: string,
+      range: vscode.Range,
+      message: string,
+      severity: vscode.DiagnosticSeverity,
+      code: LocaleDiagnosticCode
+    ) => {
+      const diagnostic = new vscode.Diagnostic(range, message, severity);
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = code;
+      if (code === LocaleDiagnosticCode.StaleKey) {
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      }
+      diagnosticKeys.set(diagnostic, key);
+    };
+    const getKeyRange = (key: string) => {
+      const range = findKeyRange(targetContent, key);
+      return range
+        ? new vscode.Range(
+            document.positionAt(range.start),
+            document.positionAt(range.end)
+          )
+        : document.lineAt(0).range;
+    };
+
+    // Missing keys have no place in the file, they are reported on the first line
+    for (const key of coverage.missing) {
+      addDiagnostic(
+        key,
+        document.lineAt(0).range,
+        `Missing translation for "${key}" from ${sourceFileName}`,
+        vscode.DiagnosticSeverity.Warning,
+        LocaleDiagnosticCode.MissingKey
+      );
+    }
+    for (const key of coverage.extra) {
+      addDiagnostic(
+        key,
+        getKeyRange(key),
+        `"${key}" is no longer in ${sourceFileName}`,
+        vscode.DiagnosticSeverity.Information,
+        LocaleDiagnosticCode.StaleKey
+      );
+    }
+    for (const key of coverage.untranslated) {
+      addDiagnostic(
+        key,
+        getKeyRange(key),
+        `"${key}" is the same as in ${sourceFileName}`,
+        vscode.DiagnosticSeverity.Information,
+        LocaleDiagnosticCode.UntranslatedValue
+      );
+    }
+    for (const mismatch of coverage.placeholderMismatches) {
+      addDiagnostic(
+        mismatch.key,
+        getKeyRange(mismatch.key),
+        `"${mismatch.key}" has different placeholders than ${sourceFileName}: ${formatPlaceholderMismatch(
+          mismatch
+        )}`,
+        vscode.DiagnosticSeverity.Warning,
+        LocaleDiagnosticCode.PlaceholderMismatch
+      );
+    }
+
+    this.targetFiles.set(document.uri.toString(), {
+      sourceFilePath,
+      language,
+      fileFormat,
+      missingKeys: coverage.missing,
+      diagnosticKeys,
+    });
+    this.diagnostics.set(document.uri, Array.from(diagnosticKeys.keys()));
+  }
+
+  /**
+   * Code action contexts may hold copies of the published diagnostics
+   */
+  private findDiagnosticKey(
+    targetFile: TargetFileInfo,
+    diagnostic: vscode.Diagnostic
+  ): string | undefined {
+    for (const [published, key] of targetFile.diagnosticKeys) {
+      if (
+        published === diagnostic ||
+        (published.code === diagnostic.code &&
+          published.message === diagnostic.message &&
+          published.range.isEqual(diagnostic.range))
+      ) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  private createTranslateAction(
+    title: string,
+    uri: vscode.Uri,
+    targetFile: TargetFileInfo,
+    keys: string[],
+    diagnostic?: vscode.Diagnostic
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = diagnostic ? [diagnostic] : undefined;
+    action.command = {
+      command: COMMANDS.TRANSLATE_KEYS,
+      title,
+      arguments: [
+        targetFile.sourceFilePath,
+        uri.fsPath,
+        targetFile.language,
+        keys,
+        targetFile.fileFormat,
+      ],
+    };
+    return action;
+  }
+}
+
+/**
+ * Reads the text of an open document, so unsaved changes count, or the file on disk
+ */
+function readDocumentText(filePath: string): string {
+  const document = vscode.workspace.textDocuments.find(
+    (openDocument) => openDocument.uri.fsPath === filePath
+  );
+  return document ? document.getText() : fs.readFileSync(filePath, "utf8");
+}
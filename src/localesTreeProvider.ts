@@ -0,0 +1,367 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { I18nProjectManager, I18nRoot } from "./i18nProjectManager";
+import {
+  detectFileFormat,
+  FileFormat,
+  getFileFormatHandler,
+  getSupportedExtensions,
+} from "./fileFormats";
+import { getLocaleCoverage, LocaleCoverage } from "./localeCoverage";
+import {
+  DEFAULT_SOURCE_LANGUAGE,
+  findProjectConfig,
+  isExcludedByProjectConfig,
+  LoadedProjectConfig,
+  PROJECT_CONFIG_FILE_NAMES,
+} from "./projectConfig";
+import { logWarning } from "./logger";
+
+// Build output and dependencies never hold the project's locale files
+const EXCLUDED_FOLDERS_GLOB =
+  "**/{node_modules,.git,dist,out,build,Pods,.dart_tool}/**";
+const MAX_LOCALE_FILES = 5000;
+// Saving several files at once triggers one refresh
+const REFRESH_DELAY_MS = 500;
+
+/**
+ * A source file and its translations
+ */
+export class LocaleRootItem extends vscode.TreeItem {
+  constructor(
+    readonly root: I18nRoot,
+    readonly fileFormat: FileFormat,
+    readonly projectConfig: LoadedProjectConfig | undefined
+  ) {
+    super(
+      vscode.workspace.asRelativePath(root.sourceFilePath),
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.description = getFileFormatHandler(fileFormat).displayName;
+    this.iconPath = new vscode.ThemeIcon("globe");
+    this.contextValue = "localeRoot";
+  }
+}
+
+/**
+ * The source file of an i18n root
+ */
+export class LocaleSourceItem extends vscode.TreeItem {
+  constructor(
+    readonly root: I18nRoot,
+    readonly fileFormat: FileFormat,
+    stringCount: number | undefined
+  ) {
+    super(
+      root.structure.sourceLanguage ?? "source",
+      vscode.TreeItemCollapsibleState.None
+    );
+    const filePath = root.sourceFilePath;
+    this.description =
+      stringCount === undefined ? "source" : `source · ${stringCount} strings`;
+    this.tooltip = filePath;
+    this.iconPath = new vscode.ThemeIcon("symbol-key");
+    this.resourceUri = vscode.Uri.file(filePath);
+    this.contextValue = "localeSource";
+    this.command = {
+      command: "vscode.open",
+      title: "Open File",
+      arguments: [this.resourceUri],
+    };
+  }
+}
+
+/**
+ * A target language of an i18n root with its coverage
+ */
+export class LocaleLanguageItem extends vscode.TreeItem {
+  constructor(
+    readonly root: I18nRoot,
+    readonly fileFormat: FileFormat,
+    readonly language: string,
+    readonly targetFilePath: string,
+    coverage: LocaleCoverage | undefined,
+    error?: string
+  ) {
+    super(language, vscode.TreeItemCollapsibleState.None);
+    const exists = fs.existsSync(targetFilePath);
+
+    if (error) {
+      this.description = `error: ${error}`;
+      this.iconPath = new vscode.ThemeIcon("error");
+    } else if (!exists || !coverage) {
+      this.description = "not translated";
+      this.iconPath = new vscode.ThemeIcon("circle-outline");
+    } else {
+      this.description = formatCoverage(coverage);
+      this.iconPath = new vscode.ThemeIcon(
+        coverage.missing.length === 0 ? "pass" : "warning"
+      );
+      this.tooltip = getCoverageTooltip(targetFilePath, coverage);
+    }
+
+    this.contextValue = exists ? "localeLanguage" : "localeLanguageMissing";
+    if (exists) {
+      this.resourceUri = vscode.Uri.file(targetFilePath);
+      this.command = {
+        command: "vscode.open",
+        title: "Open File",
+        arguments: [this.resourceUri],
+      };
+    }
+  }
+}
+
+export type LocaleTreeItem =
+  LocaleRootItem | LocaleSourceItem | LocaleLanguageItem;
+
+/**
+ * Lists the i18n roots of the workspace with the coverage of every target language
+ */
+export class LocalesTreeProvider
+  implements vscode.TreeDataProvider<LocaleTreeItem>, vscode.Disposable
+{
+  private readonly changeEmitter = new vscode.EventEmitter<
+    LocaleTreeItem | undefined
+  >();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private readonly watcher: vscode.FileSystemWatcher;
+  private roots: LocaleRootItem[] | undefined;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly i18nProjectManager: I18nProjectManager) {
+    const fileNames = [
+      ...getSupportedExtensions().map((ext) => `*${ext}`),
+      ...PROJECT_CONFIG_FILE_NAMES,
+    ];
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      `**/{${fileNames.join(",")}}`
+    );
+    this.watcher.onDidCreate(() => this.scheduleRefresh());
+    this.watcher.onDidChange(() => this.scheduleRefresh());
+    this.watcher.onDidDelete(() => this.scheduleRefresh());
+  }
+
+  refresh() {
+    this.roots = undefined;
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: LocaleTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: LocaleTreeItem): Promise<LocaleTreeItem[]> {
+    if (!element) {
+      return this.getRoots();
+    }
+
+    return element instanceof LocaleRootItem
+      ? this.getRootChildren(element)
+      : [];
+  }
+
+  async getRoots(): Promise<LocaleRootItem[]> {
+    this.roots ??= await this.findRoots();
+    return this.roots;
+  }
+
+  /**
+   * Languages found in the project and the ones the project config asks for
+   */
+  getTargetLanguages(item: LocaleRootItem): string[] {
+    const { root, projectConfig } = item;
+    const sourceLanguage =
+      root.structure.sourceLanguage ?? projectConfig?.config.sourceLanguage;
+    const languages = new Set(
+      this.i18nProjectManager.detectLanguagesFromProject(root.sourceFilePath)
+    );
+    for (const language of projectConfig?.config.targetLanguages ?? []) {
+      languages.add(language);
+    }
+    languages.delete(sourceLanguage ?? "");
+    return Array.from(languages).sort((a, b) =>
+      a.localeCompare(b, undefined, { sensitivity: "base" })
+    );
+  }
+
+  dispose() {
+    clearTimeout(this.refreshTimer);
+    this.watcher.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  private scheduleRefresh() {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY_MS);
+  }
+
+  private async findRoots(): Promise<LocaleRootItem[]> {
+    const extensions = getSupportedExtensions().map((ext) => ext.substring(1));
+    const uris = await vscode.workspace.findFiles(
+      `**/*.{${extensions.join(",")}}`,
+      EXCLUDED_FOLDERS_GLOB,
+      MAX_LOCALE_FILES
+    );
+
+    // Project configs are looked up once per folder
+    const configs = new Map<string, LoadedProjectConfig | undefined>();
+    const getProjectConfig = (filePath: string) => {
+      const dir = path.dirname(filePath);
+      if (!configs.has(dir)) {
+        configs.set(dir, this.readProjectConfig(filePath));
+      }
+      return configs.get(dir);
+    };
+
+    const roots = this.i18nProjectManager.findI18nRoots(
+      uris.map((uri) => uri.fsPath),
+      (filePath) =>
+        getProjectConfig(filePath)?.config.sourceLanguage ??
+        DEFAULT_SOURCE_LANGUAGE
+    );
+
+    return roots.flatMap((root) => {
+      const fileFormat = detectFileFormat(root.sourceFilePath);
+      const projectConfig = getProjectConfig(root.sourceFilePath);
+      if (
+        !fileFormat ||
+        (projectConfig &&
+          isExcludedByProjectConfig(projectConfig, root.sourceFilePath))
+      ) {
+        return [];
+      }
+      return [new LocaleRootItem(root, fileFormat, projectConfig)];
+    });
+  }
+
+  private readProjectConfig(filePath: string): LoadedProjectConfig | undefined {
+    try {
+      return findProjectConfig(
+        filePath,
+        vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri
+          .fsPath
+      );
+    } catch (error) {
+      logWarning(
+        `Ignoring project config for ${filePath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return undefined;
+    }
+  }
+
+  private getRootChildren(item: LocaleRootItem): LocaleTreeItem[] {
+    const { root, fileFormat, projectConfig } = item;
+    const formatHandler = getFileFormatHandler(fileFormat);
+    const sourceLanguage =
+      root.structure.sourceLanguage ?? projectConfig?.config.sourceLanguage;
+
+    let sourceContent: string;
+    let stringCount: number | undefined;
+    try {
+      sourceContent = fs.readFileSync(root.sourceFilePath, "utf8");
+      stringCount = getLocaleCoverage(
+        formatHandler,
+        sourceContent,
+        undefined,
+        sourceLanguage,
+        sourceLanguage ?? ""
+      ).total;
+    } catch (error) {
+      logWarning(
+        `Failed to read ${root.sourceFilePath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return [new LocaleSourceItem(root, fileFormat, undefined)];
+    }
+
+    const languageItems = this.getTargetLanguages(item).map((language) => {
+      const targetFilePath = this.i18nProjectManager.getTargetFilePath(
+        root.sourceFilePath,
+        language
+      );
+      try {
+        const targetContent = fs.existsSync(targetFilePath)
+          ? fs.readFileSync(targetFilePath, "utf8")
+          : undefined;
+        const coverage = getLocaleCoverage(
+          formatHandler,
+          sourceContent,
+          targetContent,
+          sourceLanguage,
+          language
+        );
+        return new LocaleLanguageItem(
+          root,
+          fileFormat,
+          language,
+          targetFilePath,
+          targetContent === undefined ? undefined : coverage
+        );
+      } catch (error) {
+        return new LocaleLanguageItem(
+          root,
+          fileFormat,
+          language,
+          targetFilePath,
+          undefined,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+    });
+
+    return [
+      new LocaleSourceItem(root, fileFormat, stringCount),
+      ...languageItems,
+    ];
+  }
+}
+
+/**
+ * Formats the coverage badge, e.g. "95% · 3 missing · 1 extra"
+ */
+function formatCoverage(coverage: LocaleCoverage): string {
+  const percent =
+    coverage.total === 0
+      ? 100
+      : Math.floor((coverage.translated / coverage.total) * 100);
+  return [
+    `${percent}%`,
+    coverage.missing.length > 0 ? `${coverage.missing.length} missing` : "",
+    coverage.extra.length > 0 ? `${coverage.extra.length} extra` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function getCoverageTooltip(
+  targetFilePath: string,
+  coverage: LocaleCoverage
+): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendText(targetFilePath);
+  tooltip.appendMarkdown(
+    `\n\n**${coverage.translated}/${coverage.total}** strings translated`
+  );
+
+  // Show the first keys so long lists don't fill the screen
+  for (const [title, keys] of [
+    ["Missing", coverage.missing],
+    ["Extra", coverage.extra],
+    ["Untranslated", coverage.untranslated],
+  ] as const) {
+    if (keys.length > 0) {
+      const shown = keys.slice(0, 10).join(", ");
+      const more = keys.length > 10 ? ` and ${keys.length - 10} more` : "";
+      tooltip.appendMarkdown(`\n\n${title}: `);
+      tooltip.appendText(`${shown}${more}`);
+    }
+  }
+  return tooltip;
+}
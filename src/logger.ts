@@ -49,6 +49,13 @@ export function logInfo(message: string) {
   outputChannel.appendLine(`[${timestamp}] INFO: ${message}`);
 }
 
+/**
+ * Shows the output channel without taking focus
+ */
+export function showLog() {
+  outputChannel.show(true);
+}
+
 /**
  * Logs a warning message with timestamp
  */
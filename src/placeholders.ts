@@ -0,0 +1,136 @@
+// Interpolation tokens other than ICU arguments, markup and escape sequences:
+// {{name}}, ${name}, %s, %1$d, %@, %%, $name, <b>, </b>, <br/>, \n, \u00A0
+const TOKEN_REGEX =
+  /\{\{[^{}]*\}\}|\$\{[^{}]*\}|%(?:\d+\$)?[-+#0]*\d*(?:\.\d+)?(?:hh?|ll?|[Lqjzt])?[diouxXeEfFgGaAcspn@]|%%|\$[A-Za-z_]\w*|<\/?[A-Za-z][\w:.-]*[^<>]*>|\\(?:u[0-9a-fA-F]{4}|[nrt"'\\])|[\n\t]/g;
+const TAG_REGEX = /^<(\/?)([A-Za-z][\w:.-]*)[^<>]*?(\/?)>$/;
+// ICU arguments with sub-messages, e.g. {count, plural, one {# item} other {# items}}
+const ICU_MESSAGE_TYPES = ["plural", "select", "selectordinal"];
+
+/**
+ * What a translation does with keys whose placeholders differ from the source
+ */
+export type PlaceholderMismatchAction = "report" | "retranslate" | "doNotWrite";
+
+/**
+ * Placeholders of a source string that its translation doesn't have, and the other way round
+ */
+export interface PlaceholderMismatch {
+  key: string;
+  missing: string[];
+  unexpected: string[];
+}
+
+/**
+ * Returns the placeholders, tags and escape sequences of a string
+ * Tags are compared by name, attributes such as title may be translated
+ */
+export function getPlaceholders(value: string): string[] {
+  const placeholders = new Set<string>();
+  const rest = value.replace(TOKEN_REGEX, (token) => {
+    if (token !== "%%") {
+      const tag = TAG_REGEX.exec(token);
+      placeholders.add(tag ? `<${tag[1]}${tag[2]}${tag[3]}>` : token);
+    }
+    return " ";
+  });
+  for (const argument of getIcuArguments(rest)) {
+    placeholders.add(argument);
+  }
+  return Array.from(placeholders);
+}
+
+/**
+ * Compares the placeholders of a source string and its translation, the order
+ * and number of times a placeholder is used may differ between languages
+ */
+export function comparePlaceholders(
+  source: string,
+  translation: string
+): { missing: string[]; unexpected: string[] } {
+  const sourcePlaceholders = getPlaceholders(source);
+  const targetPlaceholders = getPlaceholders(translation);
+  return {
+    missing: sourcePlaceholders.filter(
+      (placeholder) => !targetPlaceholders.includes(placeholder)
+    ),
+    unexpected: targetPlaceholders.filter(
+      (placeholder) => !sourcePlaceholders.includes(placeholder)
+    ),
+  };
+}
+
+export function formatPlaceholderMismatch({
+  missing,
+  unexpected,
+}: PlaceholderMismatch): string {
+  const format = (placeholders: string[]) =>
+    placeholders.map((placeholder) => JSON.stringify(placeholder)).join(", ");
+  return [
+    missing.length > 0 ? `missing ${format(missing)}` : "",
+    unexpected.length > 0 ? `unexpected ${format(unexpected)}` : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+/**
+ * Returns the ICU arguments of a message as {name} or {name, type}
+ * Sub-messages of plural and select arguments are searched too, their
+ * selectors (one, other, male) aren't placeholders
+ */
+function getIcuArguments(message: string): string[] {
+  const icuArguments: string[] = [];
+  let i = 0;
+
+  // Reads until the "}" that closes the enclosing argument
+  const parseMessage = () => {
+    while (i < message.length && message[i] !== "}") {
+      if (message[i] === "{") {
+        i++;
+        parseArgument();
+      } else {
+        i++;
+      }
+    }
+  };
+
+  const parseArgument = () => {
+    const match = /^\s*([^\s{},]+)\s*(?:,\s*(\w+)\s*)?/.exec(message.slice(i));
+    if (!match) {
+      // Braces around text, e.g. {# item} outside of a plural, are skipped
+      parseMessage();
+      i++;
+      return;
+    }
+
+    const [argument, name, type] = match;
+    i += argument.length;
+    icuArguments.push(type ? `{${name}, ${type}}` : `{${name}}`);
+    if (type && ICU_MESSAGE_TYPES.includes(type)) {
+      // Selectors, offsets and sub-messages up to the closing brace
+      while (i < message.length && message[i] !== "}") {
+        if (message[i] === "{") {
+          i++;
+          parseMessage();
+        }
+        i++;
+      }
+    } else {
+      // Styles such as {price, number, ::currency/EUR} may have nested braces
+      let depth = 0;
+      while (i < message.length && (message[i] !== "}" || depth > 0)) {
+        depth += message[i] === "{" ? 1 : message[i] === "}" ? -1 : 0;
+        i++;
+      }
+    }
+    i++;
+  };
+
+  parseMessage();
+  // Text after an unmatched "}" is searched as well
+  while (i < message.length) {
+    i++;
+    parseMessage();
+  }
+  return icuArguments;
+}
@@ -0,0 +1,523 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+
+interface PoEntry {
+  translatorComments: string[];
+  extractedComments: string[];
+  references: string[];
+  flags: string[];
+  previous: string[];
+  msgctxt?: string;
+  msgid?: string;
+  msgidPlural?: string;
+  msgstr: string[];
+}
+
+interface PluralRule {
+  header: string;
+  // CLDR plural category for each msgstr[n] index
+  categories: string[];
+}
+
+const FUZZY_FLAG = "fuzzy";
+
+const ONE_OTHER: PluralRule = {
+  header: "nplurals=2; plural=(n != 1);",
+  categories: ["one", "other"],
+};
+
+const ONLY_OTHER: PluralRule = {
+  header: "nplurals=1; plural=0;",
+  categories: ["other"],
+};
+
+const ONE_OTHER_ZERO_IS_ONE: PluralRule = {
+  header: "nplurals=2; plural=(n > 1);",
+  categories: ["one", "other"],
+};
+
+const EAST_SLAVIC_FORMULA =
+  "(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)";
+
+// Plural-Forms headers as used by GNU gettext, keyed by lowercase language or language-region
+const PLURAL_RULES: Record<string, PluralRule> = {
+  ja: ONLY_OTHER,
+  ko: ONLY_OTHER,
+  zh: ONLY_OTHER,
+  vi: ONLY_OTHER,
+  th: ONLY_OTHER,
+  id: ONLY_OTHER,
+  ms: ONLY_OTHER,
+  lo: ONLY_OTHER,
+  km: ONLY_OTHER,
+  my: ONLY_OTHER,
+  fr: ONE_OTHER_ZERO_IS_ONE,
+  "pt-br": ONE_OTHER_ZERO_IS_ONE,
+  ru: {
+    header: `nplurals=3; plural=${EAST_SLAVIC_FORMULA};`,
+    categories: ["one", "few", "many"],
+  },
+  uk: {
+    header: `nplurals=3; plural=${EAST_SLAVIC_FORMULA};`,
+    categories: ["one", "few", "many"],
+  },
+  be: {
+    header: `nplurals=3; plural=${EAST_SLAVIC_FORMULA};`,
+    categories: ["one", "few", "many"],
+  },
+  sr: {
+    header: `nplurals=3; plural=${EAST_SLAVIC_FORMULA};`,
+    categories: ["one", "few", "other"],
+  },
+  hr: {
+    header: `nplurals=3; plural=${EAST_SLAVIC_FORMULA};`,
+    categories: ["one", "few", "other"],
+  },
+  bs: {
+    header: `nplurals=3; plural=${EAST_SLAVIC_FORMULA};`,
+    categories: ["one", "few", "other"],
+  },
+  pl: {
+    header:
+      "nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+    categories: ["one", "few", "many"],
+  },
+  cs: {
+    header: "nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;",
+    categories: ["one", "few", "other"],
+  },
+  sk: {
+    header: "nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;",
+    categories: ["one", "few", "other"],
+  },
+  lt: {
+    header:
+      "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);",
+    categories: ["one", "few", "other"],
+  },
+  lv: {
+    header: "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);",
+    categories: ["one", "other", "zero"],
+  },
+  ro: {
+    header:
+      "nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);",
+    categories: ["one", "few", "other"],
+  },
+  sl: {
+    header:
+      "nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);",
+    categories: ["one", "two", "few", "other"],
+  },
+  ga: {
+    header:
+      "nplurals=5; plural=(n==1 ? 0 : n==2 ? 1 : n<7 ? 2 : n<11 ? 3 : 4);",
+    categories: ["one", "two", "few", "many", "other"],
+  },
+  ar: {
+    header:
+      "nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);",
+    categories: ["zero", "one", "two", "few", "many", "other"],
+  },
+};
+
+/**
+ * Returns the gettext plural rule for a language, defaulting to the English-like two forms
+ */
+export function getPluralRule(languageCode: string): PluralRule {
+  const [language, ...subtags] = languageCode.toLowerCase().split(/[-_]/);
+  const region = subtags.find((tag) => tag.length !== 4); // skip script subtags
+
+  return (
+    (region && PLURAL_RULES[`${language}-${region}`]) ||
+    PLURAL_RULES[language] ||
+    ONE_OTHER
+  );
+}
+
+/**
+ * Gettext PO/POT files
+ * Entries are sent as a flat JSON object keyed by msgid, with msgctxt, translator
+ * and extracted comments in the key for context. Plural entries use i18next-style `_one`/`_other`
+ * suffixes so the API generates the forms the target language needs
+ */
+export class PoFormatHandler implements FileFormatHandler {
+  readonly displayName = "PO";
+  readonly extensions = [".po", ".pot"] as const;
+  readonly useUnderscores = true;
+  readonly requiresPluralForms = true;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    const strings: Record<string, string> = {};
+
+    for (const entry of this.getTranslatableEntries(parsePo(content))) {
+      const key = this.getEntryKey(entry);
+      if (entry.msgidPlural !== undefined) {
+        strings[`${key}_one`] = entry.msgid!;
+        strings[`${key}_other`] = entry.msgidPlural;
+      } else {
+        strings[key] = entry.msgid!;
+      }
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(
+    content: string,
+    languageCode: string,
+    sourceContent?: string
+  ): string {
+    const strings: Record<string, string> = {};
+    const { categories } = getPluralRule(languageCode);
+    // Translators may change the comments of a target entry, the source's comments make the key
+    const sourceKeys = new Map(
+      this.getTranslatableEntries(
+        sourceContent ? parsePo(sourceContent) : []
+      ).map((entry) => [this.getEntryId(entry), this.getEntryKey(entry)])
+    );
+
+    for (const entry of this.getTranslatableEntries(parsePo(content))) {
+      const key =
+        sourceKeys.get(this.getEntryId(entry)) ?? this.getEntryKey(entry);
+      if (entry.msgidPlural !== undefined) {
+        entry.msgstr.forEach((value, index) => {
+          if (value && index < categories.length) {
+            strings[`${key}_${categories[index]}`] = value;
+          }
+        });
+      } else if (entry.msgstr[0]) {
+        strings[key] = entry.msgstr[0];
+      }
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+    const getString = (key: string) =>
+      typeof translated[key] === "string"
+        ? (translated[key] as string)
+        : undefined;
+
+    const sourceEntries = parsePo(context.sourceContent);
+    const existingEntries = context.targetContent
+      ? parsePo(context.targetContent)
+      : [];
+    // Translators may change the comments of a target entry, so entries are
+    // matched without them
+    const existingById = new Map(
+      this.getTranslatableEntries(existingEntries).map((entry) => [
+        this.getEntryId(entry),
+        entry,
+      ])
+    );
+
+    const pluralRule = getPluralRule(context.targetLanguage);
+    const header = this.createHeader(
+      existingEntries.find(isHeaderEntry) ?? sourceEntries.find(isHeaderEntry),
+      context.targetLanguage,
+      pluralRule
+    );
+
+    const entries = this.getTranslatableEntries(sourceEntries).map((entry) => {
+      const key = this.getEntryKey(entry);
+      const existing = existingById.get(this.getEntryId(entry));
+
+      const msgstr =
+        entry.msgidPlural !== undefined
+          ? pluralRule.categories.map(
+              (category) =>
+                getString(`${key}_${category}`) ??
+                getString(`${key}_other`) ??
+                ""
+            )
+          : [getString(key) ?? ""];
+
+      const wasTranslated = !!existing?.msgstr.some((value) => value);
+      const isFuzzy = wasTranslated
+        ? existing!.flags.includes(FUZZY_FLAG)
+        : !!context.markForReview && msgstr.some((value) => value);
+
+      const flags = entry.flags.filter((flag) => flag !== FUZZY_FLAG);
+      if (isFuzzy) {
+        flags.unshift(FUZZY_FLAG);
+      }
+
+      return {
+        ...entry,
+        translatorComments:
+          existing?.translatorComments ?? entry.translatorComments,
+        flags,
+        msgstr,
+      };
+    });
+
+    return [header, ...entries].map(formatEntry).join("\n\n") + "\n";
+  }
+
+  private getTranslatableEntries(entries: PoEntry[]): PoEntry[] {
+    return entries.filter(
+      (entry) => entry.msgid !== undefined && !isHeaderEntry(entry)
+    );
+  }
+
+  /**
+   * Builds the JSON key for an entry: "[msgctxt] msgid (comments)", with the
+   * translator (#) and extracted (#.) comments as context
+   */
+  private getEntryKey(entry: PoEntry): string {
+    const comments = [
+      ...entry.translatorComments,
+      ...entry.extractedComments,
+    ].filter((comment) => comment);
+    const id = this.getEntryId(entry);
+    return comments.length > 0 ? `${id} (${comments.join(" ")})` : id;
+  }
+
+  /**
+   * Identifies an entry by msgctxt and msgid: "[msgctxt] msgid"
+   */
+  private getEntryId(entry: PoEntry): string {
+    return entry.msgctxt !== undefined
+      ? `[${entry.msgctxt}] ${entry.msgid}`
+      : entry.msgid!;
+  }
+
+  /**
+   * Creates the target header entry, setting Language and Plural-Forms for the target language
+   */
+  private createHeader(
+    header: PoEntry | undefined,
+    targetLanguage: string,
+    pluralRule: PluralRule
+  ): PoEntry {
+    const fields = new Map<string, string>();
+    for (const line of (header?.msgstr[0] ?? "").split("\n")) {
+      const separatorIndex = line.indexOf(":");
+      if (separatorIndex > 0) {
+        fields.set(
+          line.substring(0, separatorIndex).trim(),
+          line.substring(separatorIndex + 1).trim()
+        );
+      }
+    }
+
+    fields.set("Language", targetLanguage);
+    fields.set("Plural-Forms", pluralRule.header);
+    if (!fields.has("Content-Type")) {
+      fields.set("Content-Type", "text/plain; charset=UTF-8");
+    }
+    if (!fields.has("Content-Transfer-Encoding")) {
+      fields.set("Content-Transfer-Encoding", "8bit");
+    }
+
+    const msgstr = Array.from(fields)
+      .map(([name, value]) => `${name}: ${value}\n`)
+      .join("");
+
+    return {
+      translatorComments: header?.translatorComments ?? [],
+      extractedComments: header?.extractedComments ?? [],
+      references: [],
+      // Templates mark their header as fuzzy, a translated file shouldn't
+      flags: (header?.flags ?? []).filter((flag) => flag !== FUZZY_FLAG),
+      previous: [],
+      msgid: "",
+      msgstr: [msgstr],
+    };
+  }
+}
+
+function isHeaderEntry(entry: PoEntry): boolean {
+  return entry.msgid === "" && entry.msgctxt === undefined;
+}
+
+function createEntry(): PoEntry {
+  return {
+    translatorComments: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    previous: [],
+    msgstr: [],
+  };
+}
+
+/**
+ * Parses PO content into entries, obsolete (#~) entries are dropped
+ */
+function parsePo(content: string): PoEntry[] {
+  const entries: PoEntry[] = [];
+  let entry = createEntry();
+  let appendToField: ((value: string) => void) | undefined;
+
+  const flush = () => {
+    if (entry.msgid !== undefined) {
+      entries.push(entry);
+    }
+    entry = createEntry();
+    appendToField = undefined;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    if (line.startsWith("#~")) {
+      continue;
+    }
+
+    if (line.startsWith("#")) {
+      // A comment after a message starts the next entry
+      if (entry.msgid !== undefined) {
+        flush();
+      }
+
+      const text = line.substring(2).trim();
+      switch (line.charAt(1)) {
+        case ".":
+          entry.extractedComments.push(text);
+          break;
+        case ":":
+          entry.references.push(text);
+          break;
+        case ",":
+          entry.flags.push(
+            ...text
+              .split(",")
+              .map((flag) => flag.trim())
+              .filter((flag) => flag)
+          );
+          break;
+        case "|":
+          entry.previous.push(text);
+          break;
+        default:
+          entry.translatorComments.push(line.substring(1).trim());
+      }
+      continue;
+    }
+
+    if (line.startsWith('"')) {
+      appendToField?.(unescapePoString(line));
+      continue;
+    }
+
+    const match = line.match(
+      /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")$/
+    );
+    if (!match) {
+      throw new Error(`Invalid PO line: ${line}`);
+    }
+
+    const [, keyword, index, value] = match;
+    const text = unescapePoString(value);
+
+    switch (keyword) {
+      case "msgctxt":
+        if (entry.msgid !== undefined) {
+          flush();
+        }
+        entry.msgctxt = text;
+        appendToField = (more) => (entry.msgctxt += more);
+        break;
+      case "msgid":
+        if (entry.msgid !== undefined) {
+          flush();
+        }
+        entry.msgid = text;
+        appendToField = (more) => (entry.msgid += more);
+        break;
+      case "msgid_plural":
+        entry.msgidPlural = text;
+        appendToField = (more) => (entry.msgidPlural += more);
+        break;
+      case "msgstr": {
+        const msgstrIndex = index ? parseInt(index, 10) : 0;
+        const target = entry;
+        target.msgstr[msgstrIndex] = text;
+        appendToField = (more) => (target.msgstr[msgstrIndex] += more);
+        break;
+      }
+    }
+  }
+
+  flush();
+  return entries;
+}
+
+function unescapePoString(quoted: string): string {
+  return quoted.slice(1, -1).replace(/\\(["\\ntr])/g, (_, char: string) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      default:
+        return char;
+    }
+  });
+}
+
+function escapePoString(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats a keyword and its string, wrapping multi-line values the way msgmerge does
+ */
+function formatPoString(keyword: string, value: string): string {
+  const lines = value.split(/(?<=\n)/);
+  if (lines.length === 1) {
+    return `${keyword} "${escapePoString(value)}"`;
+  }
+
+  return [
+    `${keyword} ""`,
+    ...lines.map((line) => `"${escapePoString(line)}"`),
+  ].join("\n");
+}
+
+function formatEntry(entry: PoEntry): string {
+  const lines = [
+    ...entry.translatorComments.map((comment) =>
+      comment ? `# ${comment}` : "#"
+    ),
+    ...entry.extractedComments.map((comment) => `#. ${comment}`),
+    ...entry.references.map((reference) => `#: ${reference}`),
+  ];
+
+  if (entry.flags.length > 0) {
+    lines.push(`#, ${entry.flags.join(", ")}`);
+  }
+  lines.push(...entry.previous.map((previous) => `#| ${previous}`));
+
+  if (entry.msgctxt !== undefined) {
+    lines.push(formatPoString("msgctxt", entry.msgctxt));
+  }
+  lines.push(formatPoString("msgid", entry.msgid ?? ""));
+
+  if (entry.msgidPlural !== undefined) {
+    lines.push(formatPoString("msgid_plural", entry.msgidPlural));
+    entry.msgstr.forEach((value, index) =>
+      lines.push(formatPoString(`msgstr[${index}]`, value ?? ""))
+    );
+  } else {
+    lines.push(formatPoString("msgstr", entry.msgstr[0] ?? ""));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,244 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Used when no project config declares the source language
+export const DEFAULT_SOURCE_LANGUAGE = "en";
+
+// Project configuration files, searched from the translated file's folder upwards
+export const PROJECT_CONFIG_FILE_NAMES = [
+  ".l10nrc",
+  ".l10nrc.json",
+  "l10n.config.json",
+] as const;
+
+const OPTION_KEYS = [
+  "useContractions",
+  "useShortening",
+  "generatePluralForms",
+  "markTranslationsForReview",
+] as const;
+
+/**
+ * Translation options that can be set for the project and overridden per language
+ */
+export type ProjectTranslationOptions = {
+  [K in (typeof OPTION_KEYS)[number]]?: boolean;
+};
+
+/**
+ * Team-shared settings committed with the project (.l10nrc or l10n.config.json)
+ */
+export interface ProjectConfig extends ProjectTranslationOptions {
+  sourceLanguage?: string;
+  targetLanguages?: string[];
+  /** Locale path templates relative to the config file's folder */
+  pathTemplates?: string[];
+  languageOptions?: Record<string, ProjectTranslationOptions>;
+  /** Glob patterns of files that are never translated */
+  exclude?: string[];
+  /** Update existing target files (true) or create copies (false) without asking */
+  translateOnlyNewStrings?: boolean;
+}
+
+export interface LoadedProjectConfig {
+  configPath: string;
+  /** Folder of the config file, paths in the config are relative to it */
+  rootPath: string;
+  config: ProjectConfig;
+}
+
+/**
+ * Finds the nearest project config file of a file, stopping at stopPath
+ * (usually the workspace folder) or the file system root
+ */
+export function findProjectConfig(
+  filePath: string,
+  stopPath?: string
+): LoadedProjectConfig | undefined {
+  let dir = path.dirname(filePath);
+
+  for (;;) {
+    for (const fileName of PROJECT_CONFIG_FILE_NAMES) {
+      const configPath = path.join(dir, fileName);
+      if (fs.statSync(configPath, { throwIfNoEntry: false })?.isFile()) {
+        return {
+          configPath,
+          rootPath: dir,
+          config: readProjectConfig(configPath),
+        };
+      }
+    }
+
+    const parentDir = path.dirname(dir);
+    if (
+      parentDir === dir ||
+      (stopPath && path.relative(stopPath, dir) === "")
+    ) {
+      return undefined;
+    }
+    dir = parentDir;
+  }
+}
+
+export function readProjectConfig(configPath: string): ProjectConfig {
+  const fileName = path.basename(configPath);
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${fileName}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const problem = validateProjectConfig(config);
+  if (problem) {
+    throw new Error(`Invalid ${fileName}: ${problem}`);
+  }
+  return config as ProjectConfig;
+}
+
+/**
+ * Returns a description of the first invalid property, the JSON schema gives the details in the editor
+ */
+function validateProjectConfig(config: unknown): string | undefined {
+  if (!isObject(config)) {
+    return "expected an object";
+  }
+
+  if (
+    config.sourceLanguage !== undefined &&
+    typeof config.sourceLanguage !== "string"
+  ) {
+    return '"sourceLanguage" must be a string';
+  }
+
+  for (const key of ["targetLanguages", "pathTemplates", "exclude"]) {
+    const value = config[key];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) || value.some((item) => typeof item !== "string"))
+    ) {
+      return `"${key}" must be an array of strings`;
+    }
+  }
+
+  const languageOptions = config.languageOptions ?? {};
+  if (!isObject(languageOptions)) {
+    return '"languageOptions" must be an object';
+  }
+
+  for (const [language, options] of Object.entries(languageOptions)) {
+    if (!isObject(options)) {
+      return `"languageOptions.${language}" must be an object`;
+    }
+    const problem = validateOptions(options, `languageOptions.${language}.`);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  if (
+    config.translateOnlyNewStrings !== undefined &&
+    typeof config.translateOnlyNewStrings !== "boolean"
+  ) {
+    return '"translateOnlyNewStrings" must be true or false';
+  }
+
+  return validateOptions(config, "");
+}
+
+function validateOptions(
+  options: Record<string, unknown>,
+  prefix: string
+): string | undefined {
+  const key = OPTION_KEYS.find(
+    (key) => options[key] !== undefined && typeof options[key] !== "boolean"
+  );
+  return key ? `"${prefix}${key}" must be true or false` : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Returns the option for the target language, falling back to the project-wide value
+ * pt_BR and pt-BR refer to the same language options
+ */
+export function getProjectOption(
+  projectConfig: LoadedProjectConfig | undefined,
+  targetLanguage: string,
+  key: keyof ProjectTranslationOptions
+): boolean | undefined {
+  const config = projectConfig?.config;
+  const languageOptions = config?.languageOptions ?? {};
+  const options =
+    languageOptions[targetLanguage] ??
+    Object.entries(languageOptions).find(
+      ([language]) =>
+        language.replace(/_/g, "-").toLowerCase() ===
+        targetLanguage.replace(/_/g, "-").toLowerCase()
+    )?.[1];
+
+  return options?.[key] ?? config?.[key];
+}
+
+/**
+ * Returns true if the file matches one of the config's exclude patterns
+ * Patterns without a slash match file names in any folder
+ */
+export function isExcludedByProjectConfig(
+  projectConfig: LoadedProjectConfig,
+  filePath: string
+): boolean {
+  return matchesGlobPatterns(
+    projectConfig.rootPath,
+    filePath,
+    projectConfig.config.exclude ?? []
+  );
+}
+
+/**
+ * Returns true if the file path relative to rootPath matches one of the patterns
+ * Patterns without a slash match file names in any folder
+ */
+export function matchesGlobPatterns(
+  rootPath: string,
+  filePath: string,
+  patterns: string[]
+): boolean {
+  const relativePath = path
+    .relative(rootPath, filePath)
+    .split(path.sep)
+    .join("/");
+
+  return patterns.some((pattern) => globToRegExp(pattern).test(relativePath));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^\.?\//, "");
+  const source = normalized
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case "**/":
+          return "(?:.*/)?";
+        case "**":
+          return ".*";
+        case "*":
+          return "[^/]*";
+        case "?":
+          return "[^/]";
+        default:
+          return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      }
+    })
+    .join("");
+
+  return new RegExp(
+    `^${normalized.includes("/") ? "" : "(?:.*/)?"}${source}(?:/.*)?$`
+  );
+}
@@ -0,0 +1,210 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+
+interface PropertiesEntry {
+  key: string;
+  value: string;
+  /** Comment lines directly above the entry */
+  comment?: string;
+  /** Offset of the raw value in the file */
+  valueStart: number;
+  /** Offset after the last continuation line of the entry */
+  end: number;
+}
+
+// MessageFormat arguments such as {0} or {1,number}
+const MESSAGE_FORMAT_ARGUMENT_REGEX = /\{\d+(,[^}]*)?\}/;
+
+/**
+ * Java .properties resource bundles (messages.properties, messages_fr.properties)
+ * Values are sent by key with the comment above them as context and written
+ * back on a single line, MessageFormat patterns keep their doubled quotes
+ */
+export class PropertiesFormatHandler implements FileFormatHandler {
+  readonly displayName = "Properties";
+  readonly extensions = [".properties"] as const;
+  readonly useUnderscores = true;
+  readonly requiresPluralForms = false;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    const strings: Record<string, string> = {};
+
+    for (const entry of parseProperties(content)) {
+      if (entry.value.trim() !== "") {
+        strings[getJsonKey(entry)] = isMessageFormat(entry.value)
+          ? entry.value.replace(/''/g, "'")
+          : entry.value;
+      }
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(content: string): string {
+    return this.toJson(content);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+    const content = context.sourceContent;
+    // Files written with \uXXXX escapes are read as ISO-8859-1 by older Java versions
+    const escapeUnicode = !/[^\x00-\x7f]/.test(content);
+
+    return parseProperties(content)
+      .reverse()
+      .reduce((output, entry) => {
+        const translation = translated[getJsonKey(entry)];
+        if (typeof translation !== "string" || entry.value.trim() === "") {
+          return output;
+        }
+
+        const value = isMessageFormat(entry.value)
+          ? translation.replace(/'/g, "''")
+          : translation;
+        return (
+          output.substring(0, entry.valueStart) +
+          escapeValue(value, escapeUnicode) +
+          output.substring(entry.end)
+        );
+      }, content);
+  }
+}
+
+function getJsonKey(entry: PropertiesEntry): string {
+  return entry.comment ? `${entry.key} (${entry.comment})` : entry.key;
+}
+
+/**
+ * Values with arguments or doubled quotes are MessageFormat patterns
+ */
+function isMessageFormat(value: string): boolean {
+  return MESSAGE_FORMAT_ARGUMENT_REGEX.test(value) || value.includes("''");
+}
+
+/**
+ * Parses logical lines, joining lines that end with an odd number of backslashes
+ */
+function parseProperties(content: string): PropertiesEntry[] {
+  const entries: PropertiesEntry[] = [];
+  const lines = content.split(/(?<=\n)/);
+  let comments: string[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineStart = offset;
+    offset += lines[i].length;
+
+    const text = lines[i].replace(/\r?\n$/, "");
+    const trimmed = text.trimStart();
+    if (trimmed === "") {
+      comments = [];
+      continue;
+    }
+    if (trimmed.startsWith("#") || trimmed.startsWith("!")) {
+      comments.push(trimmed.substring(1).trim());
+      continue;
+    }
+
+    // Keep the file offset of every character of the logical line
+    let logical = "";
+    const positions: number[] = [];
+    let pieceStart = lineStart + text.length - trimmed.length;
+    let piece = trimmed;
+    let end: number;
+
+    for (;;) {
+      const continues = (piece.match(/\\*$/)?.[0].length ?? 0) % 2 === 1;
+      const kept = continues ? piece.slice(0, -1) : piece;
+      for (let c = 0; c < kept.length; c++) {
+        positions.push(pieceStart + c);
+      }
+      logical += kept;
+      end = pieceStart + piece.length;
+
+      if (!continues || i + 1 >= lines.length) {
+        break;
+      }
+
+      i++;
+      const nextStart = offset;
+      offset += lines[i].length;
+      const nextText = lines[i].replace(/\r?\n$/, "");
+      piece = nextText.trimStart();
+      pieceStart = nextStart + nextText.length - piece.length;
+    }
+
+    const { key, valueIndex } = splitKey(logical);
+    entries.push({
+      key,
+      value: unescapeValue(logical.substring(valueIndex)),
+      comment: comments.length > 0 ? comments.join(" ") : undefined,
+      valueStart: positions[valueIndex] ?? end,
+      end,
+    });
+    comments = [];
+  }
+
+  return entries;
+}
+
+/**
+ * Splits a logical line at the first unescaped =, : or whitespace
+ */
+function splitKey(line: string): { key: string; valueIndex: number } {
+  let index = 0;
+  while (index < line.length && !/[=:\s]/.test(line[index])) {
+    index += line[index] === "\\" ? 2 : 1;
+  }
+  const key = unescapeValue(line.substring(0, index));
+
+  // Whitespace, then at most one separator, then whitespace
+  while (index < line.length && /[ \t\f]/.test(line[index])) {
+    index++;
+  }
+  if (line[index] === "=" || line[index] === ":") {
+    index++;
+  }
+  while (index < line.length && /[ \t\f]/.test(line[index])) {
+    index++;
+  }
+
+  return { key, valueIndex: index };
+}
+
+function unescapeValue(raw: string): string {
+  return raw.replace(/\\(u[0-9a-fA-F]{4}|[\s\S])/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "f":
+        return "\f";
+      case "u":
+        return String.fromCharCode(parseInt(escape.substring(1), 16));
+      default:
+        return escape;
+    }
+  });
+}
+
+function escapeValue(value: string, escapeUnicode: boolean): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t")
+    .replace(/\f/g, "\\f")
+    // Leading whitespace would be skipped when the file is read
+    .replace(/^ /, "\\ ");
+
+  return escapeUnicode
+    ? escaped.replace(
+        /[^\x00-\x7f]/g,
+        (char) =>
+          `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`
+      )
+    : escaped;
+}
@@ -0,0 +1,96 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+import { escapeXml, getAttribute, unescapeXml } from "./xmlUtils";
+
+// Comments come first, the standard .resx header comment contains sample <data> elements
+const DATA_REGEX =
+  /<!--[\s\S]*?-->|<data\b([^>]*?)(?:\/>|>([\s\S]*?)<\/data>)/g;
+const VALUE_REGEX = /<value>([\s\S]*?)<\/value>/;
+const COMMENT_REGEX = /<comment>([\s\S]*?)<\/comment>/;
+
+/**
+ * .NET resource files (Resources.resx, Resources.de-DE.resx)
+ * Only string resources are sent, keyed by name with their <comment> as context;
+ * images, file references and other typed resources are copied unchanged
+ */
+export class ResxFormatHandler implements FileFormatHandler {
+  readonly displayName = "RESX";
+  readonly extensions = [".resx"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = false;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    const strings: Record<string, string> = {};
+
+    this.rewriteStrings(content, (key, value) => {
+      strings[key] = value;
+      return undefined;
+    });
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(content: string): string {
+    return this.toJson(content);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+
+    return this.rewriteStrings(context.sourceContent, (key) => {
+      const translation = translated[key];
+      return typeof translation === "string" ? translation : undefined;
+    });
+  }
+
+  /**
+   * Calls rewrite for every string resource with its JSON key and value,
+   * a returned string replaces the <value>
+   */
+  private rewriteStrings(
+    content: string,
+    rewrite: (key: string, value: string) => string | undefined
+  ): string {
+    return content.replace(
+      DATA_REGEX,
+      (dataXml, attributes: string | undefined, inner: string | undefined) => {
+        const name = attributes ? getAttribute(attributes, "name") : undefined;
+        const valueMatch = inner?.match(VALUE_REGEX);
+        if (!name || !valueMatch || !isStringResource(attributes!)) {
+          return dataXml;
+        }
+
+        const value = unescapeXml(valueMatch[1]);
+        if (value.trim() === "") {
+          return dataXml;
+        }
+
+        const comment = inner!.match(COMMENT_REGEX)?.[1];
+        const key = comment ? `${name} (${unescapeXml(comment).trim()})` : name;
+
+        const translation = rewrite(key, value);
+        if (translation === undefined) {
+          return dataXml;
+        }
+
+        const valueStart = dataXml.indexOf(valueMatch[0]);
+        return (
+          dataXml.substring(0, valueStart) +
+          `<value>${escapeXml(translation)}</value>` +
+          dataXml.substring(valueStart + valueMatch[0].length)
+        );
+      }
+    );
+  }
+}
+
+/**
+ * Resources without a type or mimetype, or typed as System.String, hold text
+ */
+function isStringResource(attributes: string): boolean {
+  const type = getAttribute(attributes, "type");
+  return (
+    getAttribute(attributes, "mimetype") === undefined &&
+    (type === undefined || type.startsWith("System.String"))
+  );
+}
@@ -0,0 +1,136 @@
+import * as assert from "assert";
+
+import { AndroidFormatHandler } from "../androidFormat";
+
+const STRINGS_XML = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">',
+  '    <string name="app_name" translatable="false">MyApp</string>',
+  "    <!-- Shown on the home screen -->",
+  '    <string name="welcome">Welcome, <xliff:g id="user">%1$s</xliff:g>! Don\\\'t miss <b>today\\\'s</b> deals &amp; offers</string>',
+  '    <string name="alias">@string/welcome</string>',
+  '    <!-- <string name="old">Old</string> -->',
+  '    <string-array name="planets">',
+  "        <item>Mercury</item>",
+  "        <item>@string/app_name</item>",
+  "        <item>Venus</item>",
+  "    </string-array>",
+  '    <plurals name="songs">',
+  '        <item quantity="one">%d song</item>',
+  '        <item quantity="other">%d songs</item>',
+  "    </plurals>",
+  "</resources>",
+  "",
+].join("\n");
+
+suite("AndroidFormatHandler Test Suite", () => {
+  let handler: AndroidFormatHandler;
+
+  setup(() => {
+    handler = new AndroidFormatHandler();
+  });
+
+  suite("toJson", () => {
+    test("reads strings, arrays and plurals and skips untranslatable ones", () => {
+      const json = JSON.parse(handler.toJson(STRINGS_XML));
+
+      assert.deepStrictEqual(json, {
+        welcome:
+          "Welcome, {{ph_0}}! Don't miss {{ph_1}}today's{{ph_2}} deals & offers",
+        planets: ["Mercury", "Venus"],
+        songs_one: "%d song",
+        songs_other: "%d songs",
+      });
+    });
+
+    test("unescapes quoted values, CDATA and unicode escapes", () => {
+      const content = [
+        "<resources>",
+        '    <string name="quoted">"  It\'s \\"here\\"  "</string>',
+        '    <string name="html"><![CDATA[<b>Bold</b> & more]]></string>',
+        '    <string name="escapes">\\@home\\nline \\u00e9</string>',
+        "</resources>",
+      ].join("\n");
+
+      const json = JSON.parse(handler.toJson(content));
+
+      assert.deepStrictEqual(json, {
+        quoted: '  It\'s "here"  ',
+        html: "{{ph_0}}Bold{{ph_1}} & more",
+        escapes: "@home\nline é",
+      });
+    });
+  });
+
+  suite("fromJson", () => {
+    test("writes translations, restores markup and escapes apostrophes", () => {
+      const translations = JSON.stringify({
+        welcome:
+          "Bienvenue, {{ph_0}} ! Ne manquez pas les offres d'{{ph_1}}aujourd'hui{{ph_2}} & promos",
+        planets: ["Mercure", "Vénus"],
+        songs_one: "%d chanson",
+        songs_many: "%d de chansons",
+        songs_other: "%d chansons",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: STRINGS_XML,
+        targetLanguage: "fr",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          '<?xml version="1.0" encoding="utf-8"?>',
+          '<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">',
+          "    <!-- Shown on the home screen -->",
+          '    <string name="welcome">Bienvenue, <xliff:g id="user">%1$s</xliff:g> ! Ne manquez pas les offres d\\\'<b>aujourd\\\'hui</b> &amp; promos</string>',
+          '    <string name="alias">@string/welcome</string>',
+          '    <!-- <string name="old">Old</string> -->',
+          '    <string-array name="planets">',
+          "        <item>Mercure</item>",
+          "        <item>@string/app_name</item>",
+          "        <item>Vénus</item>",
+          "    </string-array>",
+          '    <plurals name="songs">',
+          '        <item quantity="one">%d chanson</item>',
+          '        <item quantity="many">%d de chansons</item>',
+          '        <item quantity="other">%d chansons</item>',
+          "    </plurals>",
+          "</resources>",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("escapes leading @ and ? and keeps quoted values quoted", () => {
+      const content = [
+        "<resources>",
+        '    <string name="handle">Handle</string>',
+        '    <string name="padded">"  Hi  "</string>',
+        "</resources>",
+      ].join("\n");
+
+      const output = handler.fromJson(
+        JSON.stringify({ handle: "@nom", padded: '  C\'est "ça"  ' }),
+        { sourceContent: content, targetLanguage: "fr" }
+      );
+
+      assert.ok(output.includes('<string name="handle">\\@nom</string>'));
+      assert.ok(
+        output.includes('<string name="padded">"  C\'est \\"ça\\"  "</string>')
+      );
+    });
+
+    test("leaves out strings without a translation", () => {
+      const output = handler.fromJson(JSON.stringify({ songs_other: "x" }), {
+        sourceContent: STRINGS_XML,
+        targetLanguage: "fr",
+      });
+
+      assert.ok(!output.includes('name="welcome"'));
+      assert.ok(!output.includes('name="planets"'));
+      assert.ok(output.includes('<item quantity="other">x</item>'));
+    });
+  });
+});
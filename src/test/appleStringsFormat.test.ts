@@ -0,0 +1,172 @@
+import * as assert from "assert";
+
+import { AppleStringsFormatHandler } from "../appleStringsFormat";
+
+const LOCALIZABLE_STRINGS = [
+  "/* Title of the settings screen */",
+  '"settings.title" = "Settings";',
+  "",
+  "/* No comment provided by engineer. */",
+  '"Hello, %@!" = "Hello, %@!";',
+  "",
+  '// Shown when the "save" button fails',
+  'save_error = "Couldn\'t save \\"%@\\".\\nTry again.";',
+  "",
+].join("\n");
+
+const LOCALIZABLE_STRINGSDICT = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+  '<plist version="1.0">',
+  "<dict>",
+  "\t<key>%d files selected</key>",
+  "\t<dict>",
+  "\t\t<key>NSStringLocalizedFormatKey</key>",
+  "\t\t<string>%#@files@</string>",
+  "\t\t<key>files</key>",
+  "\t\t<dict>",
+  "\t\t\t<key>NSStringFormatSpecTypeKey</key>",
+  "\t\t\t<string>NSStringPluralRuleType</string>",
+  "\t\t\t<key>NSStringFormatValueTypeKey</key>",
+  "\t\t\t<string>d</string>",
+  "\t\t\t<key>one</key>",
+  "\t\t\t<string>%d file selected</string>",
+  "\t\t\t<key>other</key>",
+  "\t\t\t<string>%d files selected</string>",
+  "\t\t</dict>",
+  "\t</dict>",
+  "\t<key>In %d days</key>",
+  "\t<dict>",
+  "\t\t<key>NSStringLocalizedFormatKey</key>",
+  "\t\t<string>Expires %#@days@</string>",
+  "\t\t<key>days</key>",
+  "\t\t<dict>",
+  "\t\t\t<key>NSStringFormatSpecTypeKey</key>",
+  "\t\t\t<string>NSStringPluralRuleType</string>",
+  "\t\t\t<key>NSStringFormatValueTypeKey</key>",
+  "\t\t\t<string>d</string>",
+  "\t\t\t<key>one</key>",
+  "\t\t\t<string>in %d day</string>",
+  "\t\t\t<key>other</key>",
+  "\t\t\t<string>in %d days</string>",
+  "\t\t</dict>",
+  "\t</dict>",
+  "</dict>",
+  "</plist>",
+  "",
+].join("\n");
+
+suite("AppleStringsFormatHandler Test Suite", () => {
+  let handler: AppleStringsFormatHandler;
+
+  setup(() => {
+    handler = new AppleStringsFormatHandler();
+  });
+
+  suite(".strings", () => {
+    test("reads entries with comments as context", () => {
+      const json = JSON.parse(handler.toJson(LOCALIZABLE_STRINGS));
+
+      assert.deepStrictEqual(json, {
+        "settings.title (Title of the settings screen)": "Settings",
+        "Hello, %@!": "Hello, %@!",
+        'save_error (Shown when the "save" button fails)':
+          'Couldn\'t save "%@".\nTry again.',
+      });
+    });
+
+    test("writes escaped translations and keeps keys and comments", () => {
+      const translations = JSON.stringify({
+        "settings.title (Title of the settings screen)": "Réglages",
+        'save_error (Shown when the "save" button fails)':
+          "Impossible d'enregistrer « %@ ».\nRéessayez.",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: LOCALIZABLE_STRINGS,
+        targetLanguage: "fr",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "/* Title of the settings screen */",
+          '"settings.title" = "Réglages";',
+          "",
+          "/* No comment provided by engineer. */",
+          '"Hello, %@!" = "Hello, %@!";',
+          "",
+          '// Shown when the "save" button fails',
+          'save_error = "Impossible d\'enregistrer « %@ ».\\nRéessayez.";',
+          "",
+        ].join("\n")
+      );
+    });
+  });
+
+  suite(".stringsdict", () => {
+    test("reads plural rules per variable and skips variable-only format keys", () => {
+      const json = JSON.parse(handler.toJson(LOCALIZABLE_STRINGSDICT));
+
+      assert.deepStrictEqual(json, {
+        "%d files selected": {
+          files_one: "%d file selected",
+          files_other: "%d files selected",
+        },
+        "In %d days": {
+          NSStringLocalizedFormatKey: "Expires %#@days@",
+          days_one: "in %d day",
+          days_other: "in %d days",
+        },
+      });
+    });
+
+    test("writes the plural categories of the target language", () => {
+      const translations = JSON.stringify({
+        "%d files selected": {
+          files_one: "Wybrano %d plik",
+          files_few: "Wybrano %d pliki",
+          files_many: "Wybrano %d plików",
+          files_other: "Wybrano %d pliku",
+        },
+        "In %d days": {
+          NSStringLocalizedFormatKey: "Wygasa %#@days@",
+          days_one: "za %d dzień",
+          days_other: "za %d dnia",
+        },
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: LOCALIZABLE_STRINGSDICT,
+        targetLanguage: "pl",
+      });
+
+      assert.ok(
+        output.includes(
+          [
+            "\t\t\t<string>d</string>",
+            "\t\t\t<key>one</key>",
+            "\t\t\t<string>Wybrano %d plik</string>",
+            "\t\t\t<key>few</key>",
+            "\t\t\t<string>Wybrano %d pliki</string>",
+            "\t\t\t<key>many</key>",
+            "\t\t\t<string>Wybrano %d plików</string>",
+            "\t\t\t<key>other</key>",
+            "\t\t\t<string>Wybrano %d pliku</string>",
+            "\t\t</dict>",
+          ].join("\n")
+        )
+      );
+      assert.ok(
+        output.includes(
+          "\t\t<key>NSStringLocalizedFormatKey</key>\n\t\t<string>Wygasa %#@days@</string>"
+        )
+      );
+      assert.ok(output.includes("<string>%#@files@</string>"));
+      assert.deepStrictEqual(
+        Object.keys(JSON.parse(handler.toJson(output))["%d files selected"]),
+        ["files_one", "files_few", "files_many", "files_other"]
+      );
+    });
+  });
+});
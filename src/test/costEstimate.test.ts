@@ -0,0 +1,114 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import * as vscode from "vscode";
+
+import { confirmCost, estimateCost, getTotalCharacters } from "../costEstimate";
+
+suite("Cost Estimate Test Suite", () => {
+  teardown(() => {
+    sinon.restore();
+  });
+
+  suite("estimateCost", () => {
+    test("counts every non-empty source string without a target", () => {
+      const estimate = estimateCost(
+        "de",
+        JSON.stringify({
+          title: "Welcome",
+          menu: { open: "Open", save: "" },
+          "@title": { description: "Page title" },
+        })
+      );
+
+      assert.deepStrictEqual(estimate, {
+        language: "de",
+        stringCount: 2,
+        charCount: 11,
+      });
+    });
+
+    test("skips strings the target already has", () => {
+      const estimate = estimateCost(
+        "de",
+        JSON.stringify({
+          title: "Welcome",
+          items_one: "Item",
+          items_other: "Items",
+        }),
+        JSON.stringify({ title: "Willkommen", items_one: "Eintrag" })
+      );
+
+      assert.strictEqual(estimate.stringCount, 1);
+      assert.strictEqual(estimate.charCount, 5);
+    });
+
+    test("adds up the characters of all languages", () => {
+      assert.strictEqual(
+        getTotalCharacters([
+          { language: "de", stringCount: 2, charCount: 11 },
+          { language: "fr", stringCount: 1, charCount: 5 },
+        ]),
+        16
+      );
+    });
+  });
+
+  suite("confirmCost", () => {
+    const estimates = [
+      { language: "de", stringCount: 10, charCount: 600 },
+      { language: "fr", stringCount: 10, charCount: 600 },
+    ];
+    const setThreshold = (threshold: number) =>
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: sinon.stub().returns(threshold),
+      } as any);
+
+    test("shows the estimate without asking below the threshold", async () => {
+      setThreshold(1200);
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage");
+      const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+      assert.strictEqual(await confirmCost(estimates, 5000), true);
+      assert.ok(!warningStub.called);
+      assert.ok(
+        infoStub.calledWith(
+          "This translation will use about 1,200 characters for 2 languages. Remaining balance: 5,000 characters."
+        )
+      );
+    });
+
+    test("asks above the threshold with the remaining balance", async () => {
+      setThreshold(1000);
+      const warningStub = sinon
+        .stub(vscode.window, "showWarningMessage")
+        .resolves(undefined);
+
+      assert.strictEqual(await confirmCost(estimates, 1000), false);
+      assert.ok(
+        warningStub.calledWith(
+          sinon.match(
+            /about 1,200 characters for 2 languages\. Remaining balance: 1,000 characters\. This is more than your remaining balance\./
+          )
+        )
+      );
+    });
+
+    test("translates when confirmed", async () => {
+      setThreshold(1000);
+      sinon
+        .stub(vscode.window, "showWarningMessage")
+        .resolves("Translate" as any);
+
+      assert.strictEqual(await confirmCost(estimates, undefined), true);
+    });
+
+    test("never asks with a threshold of 0", async () => {
+      setThreshold(0);
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage");
+      sinon.stub(vscode.window, "showInformationMessage");
+
+      assert.strictEqual(await confirmCost(estimates, 0), true);
+      assert.ok(!warningStub.called);
+    });
+  });
+});
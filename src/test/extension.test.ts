@@ -1,5 +1,11 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { getLocalePathTemplates } from "../extension";
+import { I18nProjectManager } from "../i18nProjectManager";
 
 suite("Extension Test Suite", () => {
   vscode.window.showInformationMessage("Start all tests.");
@@ -15,4 +21,25 @@ suite("Extension Test Suite", () => {
       console.log("Extension not loaded in test environment - skipping test");
     }
   });
+
+  test("detects languages when the project config is invalid", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "l10n-extension-"));
+    try {
+      const i18nDir = path.join(tempDir, "i18n");
+      fs.mkdirSync(i18nDir);
+      fs.writeFileSync(path.join(i18nDir, ".l10nrc"), "{ invalid");
+      for (const lang of ["en", "fr", "de"]) {
+        fs.writeFileSync(path.join(i18nDir, `${lang}.json`), "{}");
+      }
+
+      const i18nProjectManager = new I18nProjectManager(getLocalePathTemplates);
+      const detectedLanguages = i18nProjectManager.detectLanguagesFromProject(
+        path.join(i18nDir, "en.json")
+      );
+
+      assert.deepStrictEqual(detectedLanguages.sort(), ["de", "fr"]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,152 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  findGlossary,
+  findGlossaryViolations,
+  getGlossaryRules,
+  maskGlossaryTerms,
+  unmaskGlossaryTerms,
+} from "../glossary";
+
+suite("Glossary Test Suite", () => {
+  const glossary = {
+    doNotTranslate: ["Acme", "Acme Cloud"],
+    terms: {
+      Workspace: { de: "Arbeitsbereich", fr: "Espace de travail" },
+      Board: { "pt-BR": "Quadro" },
+    },
+  };
+
+  suite("getGlossaryRules", () => {
+    test("returns the protected terms and the translations of the language, longer terms first", () => {
+      assert.deepStrictEqual(getGlossaryRules(glossary, "de"), [
+        { term: "Acme Cloud", translation: "Acme Cloud", doNotTranslate: true },
+        {
+          term: "Workspace",
+          translation: "Arbeitsbereich",
+          doNotTranslate: false,
+        },
+        { term: "Acme", translation: "Acme", doNotTranslate: true },
+      ]);
+    });
+
+    test("matches regions and underscores of the language", () => {
+      const rules = getGlossaryRules(glossary, "de_AT");
+      assert.ok(rules.some((rule) => rule.translation === "Arbeitsbereich"));
+      assert.ok(
+        getGlossaryRules(glossary, "pt_BR").some(
+          (rule) => rule.translation === "Quadro"
+        )
+      );
+      assert.ok(
+        !getGlossaryRules(glossary, "pt").some((rule) => rule.term === "Board")
+      );
+    });
+  });
+
+  suite("maskGlossaryTerms", () => {
+    const rules = getGlossaryRules(glossary, "de");
+
+    test("sends whole terms as placeholders and puts the translations in their place", () => {
+      const masked = maskGlossaryTerms(
+        JSON.stringify({
+          title: "Open your Workspace in Acme Cloud",
+          brand: "Acme",
+          other: "Workspaces of Acmeco",
+          "@title": { description: "Workspace title" },
+        }),
+        rules
+      );
+
+      assert.deepStrictEqual(JSON.parse(masked), {
+        title: "Open your {glossary_1} in {glossary_0}",
+        brand: "{glossary_2}",
+        other: "Workspaces of Acmeco",
+        "@title": { description: "Workspace title" },
+      });
+      assert.deepStrictEqual(
+        JSON.parse(
+          unmaskGlossaryTerms(
+            JSON.stringify({
+              title: "Öffnen Sie {glossary_1} in {glossary_0}",
+            }),
+            rules
+          )
+        ),
+        { title: "Öffnen Sie Arbeitsbereich in Acme Cloud" }
+      );
+    });
+  });
+
+  suite("findGlossaryViolations", () => {
+    test("reports translated protected terms and terms without their translation", () => {
+      const rules = getGlossaryRules(glossary, "de");
+      const source = JSON.stringify({
+        brand: "Welcome to Acme",
+        workspace: "New Workspace",
+        done: "Workspace ready",
+      });
+      const translations = JSON.stringify({
+        brand: "Willkommen bei Akme",
+        workspace: "Neuer Arbeitsplatz",
+        done: "arbeitsbereich bereit",
+      });
+
+      const violations = findGlossaryViolations(source, translations, rules, [
+        "brand",
+        "workspace",
+        "done",
+      ]);
+
+      assert.deepStrictEqual(
+        violations.map(({ key, rule }) => [key, rule.term]),
+        [
+          ["brand", "Acme"],
+          ["workspace", "Workspace"],
+        ]
+      );
+    });
+  });
+
+  suite("findGlossary", () => {
+    let rootPath: string;
+
+    setup(() => {
+      rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "l10n-glossary-"));
+      fs.mkdirSync(path.join(rootPath, "locales"));
+    });
+
+    teardown(() => {
+      fs.rmSync(rootPath, { recursive: true, force: true });
+    });
+
+    test("finds the glossary in a parent folder", () => {
+      fs.writeFileSync(
+        path.join(rootPath, "l10n.glossary.json"),
+        JSON.stringify(glossary)
+      );
+
+      const found = findGlossary(
+        path.join(rootPath, "locales", "en.json"),
+        rootPath
+      );
+
+      assert.deepStrictEqual(found?.glossary, glossary);
+    });
+
+    test("throws for an invalid glossary", () => {
+      fs.writeFileSync(
+        path.join(rootPath, "l10n.glossary.json"),
+        JSON.stringify({ terms: { Workspace: "Arbeitsbereich" } })
+      );
+
+      assert.throws(
+        () => findGlossary(path.join(rootPath, "locales", "en.json"), rootPath),
+        /Invalid l10n\.glossary\.json: "terms\.Workspace" must map languages to translations/
+      );
+    });
+  });
+});
@@ -511,4 +511,585 @@ suite("I18nProjectManager Test Suite", () => {
       });
     });
   });
+
+  suite("YAML File Support", () => {
+    test("detects Rails-style file-based structure (config/locales/en.yml)", () => {
+      const localesDir = path.join(tempDir, "config", "locales");
+      fs.mkdirSync(localesDir, { recursive: true });
+      const sourceFile = path.join(localesDir, "en.yml");
+      fs.writeFileSync(sourceFile, "en:\n  hello: Hello\n");
+
+      const structure = detector.detectProjectStructure(sourceFile);
+
+      assert.strictEqual(structure.type, ProjectStructureType.FileBased);
+      assert.strictEqual(structure.sourceLanguage, "en");
+      assert.strictEqual(detector.detectSourceLanguage(sourceFile), "en");
+    });
+
+    test("generates folder-based YAML target path", () => {
+      const localesDir = path.join(tempDir, "locales", "en");
+      fs.mkdirSync(localesDir, { recursive: true });
+      const sourceFile = path.join(localesDir, "common.yaml");
+      fs.writeFileSync(sourceFile, "hello: Hello\n");
+
+      const targetPath = detector.generateTargetFilePath(sourceFile, "de");
+
+      const expectedPath = path.join(tempDir, "locales", "de", "common.yaml");
+      assert.strictEqual(targetPath, expectedPath);
+    });
+
+    test("detects languages from both .yml and .yaml files", () => {
+      const localesDir = path.join(tempDir, "config", "locales");
+      fs.mkdirSync(localesDir, { recursive: true });
+      const sourceFile = path.join(localesDir, "en.yml");
+      fs.writeFileSync(sourceFile, "en: {}\n");
+      fs.writeFileSync(path.join(localesDir, "fr.yml"), "fr: {}\n");
+      fs.writeFileSync(path.join(localesDir, "de.yaml"), "de: {}\n");
+      fs.writeFileSync(path.join(localesDir, "es.json"), "{}"); // Should be ignored
+
+      const detectedLanguages = detector.detectLanguagesFromProject(sourceFile);
+
+      assert.deepStrictEqual(detectedLanguages, ["de", "fr"]);
+    });
+  });
+
+  suite("Gettext File Support", () => {
+    test("detects gettext structure (locale/en/LC_MESSAGES/app.po)", () => {
+      const messagesDir = path.join(tempDir, "locale", "en", "LC_MESSAGES");
+      fs.mkdirSync(messagesDir, { recursive: true });
+      const sourceFile = path.join(messagesDir, "app.po");
+      fs.writeFileSync(sourceFile, "");
+
+      const structure = detector.detectProjectStructure(sourceFile);
+
+      assert.strictEqual(structure.type, ProjectStructureType.Gettext);
+      assert.strictEqual(structure.basePath, path.join(tempDir, "locale"));
+      assert.strictEqual(structure.sourceLanguage, "en");
+    });
+
+    test("generates gettext target path with underscores", () => {
+      const messagesDir = path.join(tempDir, "locale", "en", "LC_MESSAGES");
+      fs.mkdirSync(messagesDir, { recursive: true });
+      const sourceFile = path.join(messagesDir, "app.po");
+      fs.writeFileSync(sourceFile, "");
+
+      const targetPath = detector.generateTargetFilePath(sourceFile, "pt-BR");
+
+      const expectedPath = path.join(
+        tempDir,
+        "locale",
+        "pt_BR",
+        "LC_MESSAGES",
+        "app.po"
+      );
+      assert.strictEqual(targetPath, expectedPath);
+      assert.ok(fs.existsSync(path.dirname(expectedPath)));
+    });
+
+    test("generates .po target path for template next to language folders", () => {
+      const localeDir = path.join(tempDir, "locale");
+      fs.mkdirSync(path.join(localeDir, "de", "LC_MESSAGES"), {
+        recursive: true,
+      });
+      const sourceFile = path.join(localeDir, "messages.pot");
+      fs.writeFileSync(sourceFile, "");
+
+      const targetPath = detector.generateTargetFilePath(sourceFile, "fr");
+
+      const expectedPath = path.join(
+        localeDir,
+        "fr",
+        "LC_MESSAGES",
+        "messages.po"
+      );
+      assert.strictEqual(targetPath, expectedPath);
+    });
+
+    test("generates .po target path for template next to catalogs (po/app.pot)", () => {
+      const poDir = path.join(tempDir, "po");
+      fs.mkdirSync(poDir, { recursive: true });
+      const sourceFile = path.join(poDir, "app.pot");
+      fs.writeFileSync(sourceFile, "");
+      fs.writeFileSync(path.join(poDir, "de.po"), "");
+
+      const targetPath = detector.generateTargetFilePath(sourceFile, "fr");
+
+      assert.strictEqual(targetPath, path.join(poDir, "fr.po"));
+      assert.deepStrictEqual(detector.detectLanguagesFromProject(sourceFile), [
+        "de",
+      ]);
+    });
+
+    test("detects gettext languages from LC_MESSAGES folders", () => {
+      const localeDir = path.join(tempDir, "locale");
+      for (const lang of ["en", "de", "pt_BR"]) {
+        fs.mkdirSync(path.join(localeDir, lang, "LC_MESSAGES"), {
+          recursive: true,
+        });
+      }
+      fs.mkdirSync(path.join(localeDir, "fr")); // No LC_MESSAGES, should be ignored
+      const sourceFile = path.join(localeDir, "en", "LC_MESSAGES", "app.po");
+      fs.writeFileSync(sourceFile, "");
+
+      const detectedLanguages = detector.detectLanguagesFromProject(sourceFile);
+
+      assert.deepStrictEqual(detectedLanguages, ["de", "pt_BR"]);
+    });
+  });
+
+  suite("XLIFF File Support", () => {
+    test("generates target path for Angular source file (messages.xlf)", () => {
+      const localeDir = path.join(tempDir, "src", "locale");
+      fs.mkdirSync(localeDir, { recursive: true });
+      const sourceFile = path.join(localeDir, "messages.xlf");
+      fs.writeFileSync(sourceFile, "");
+
+      const targetPath = detector.generateTargetFilePath(sourceFile, "fr");
+
+      assert.strictEqual(targetPath, path.join(localeDir, "messages.fr.xlf"));
+    });
+
+    test("replaces language suffix in target path (messages.en.xlf)", () => {
+      const localeDir = path.join(tempDir, "src", "locale");
+      fs.mkdirSync(localeDir, { recursive: true });
+      const sourceFile = path.join(localeDir, "messages.en.xlf");
+      fs.writeFileSync(sourceFile, "");
+
+      const targetPath = detector.generateTargetFilePath(sourceFile, "de-DE");
+
+      assert.strictEqual(
+        targetPath,
+        path.join(localeDir, "messages.de-DE.xlf")
+      );
+      assert.strictEqual(detector.detectSourceLanguage(sourceFile), "en");
+    });
+
+    test("detects languages from translated XLIFF siblings", () => {
+      const localeDir = path.join(tempDir, "src", "locale");
+      fs.mkdirSync(localeDir, { recursive: true });
+      const sourceFile = path.join(localeDir, "messages.xlf");
+      fs.writeFileSync(sourceFile, "");
+      fs.writeFileSync(path.join(localeDir, "messages.fr.xlf"), "");
+      fs.writeFileSync(path.join(localeDir, "messages.pt-BR.xlf"), "");
+      fs.writeFileSync(path.join(localeDir, "other.de.xlf"), ""); // Different file, ignored
+
+      const detectedLanguages = detector.detectLanguagesFromProject(sourceFile);
+
+      assert.deepStrictEqual(detectedLanguages, ["fr", "pt-BR"]);
+    });
+  });
+
+  suite("Android Resources Support", () => {
+    test("detects Android structure (res/values/strings.xml)", () => {
+      const valuesDir = path.join(
+        tempDir,
+        "app",
+        "src",
+        "main",
+        "res",
+        "values"
+      );
+      fs.mkdirSync(valuesDir, { recursive: true });
+      const sourceFile = path.join(valuesDir, "strings.xml");
+      fs.writeFileSync(sourceFile, "<resources/>");
+
+      const structure = detector.detectProjectStructure(sourceFile);
+
+      assert.strictEqual(structure.type, ProjectStructureType.Android);
+      assert.strictEqual(structure.basePath, path.dirname(valuesDir));
+      assert.strictEqual(structure.sourceLanguage, undefined);
+    });
+
+    test("maps language codes to Android qualifiers in target paths", () => {
+      const resDir = path.join(tempDir, "res");
+      fs.mkdirSync(path.join(resDir, "values"), { recursive: true });
+      const sourceFile = path.join(resDir, "values", "strings.xml");
+      fs.writeFileSync(sourceFile, "<resources/>");
+
+      const cases: Record<string, string> = {
+        fr: "values-fr",
+        "pt-BR": "values-pt-rBR",
+        "sr-Latn": "values-b+sr+Latn",
+        "zh-Hant-TW": "values-b+zh+Hant+TW",
+        "es-419": "values-b+es+419",
+      };
+
+      for (const [language, dirName] of Object.entries(cases)) {
+        const targetPath = detector.generateTargetFilePath(
+          sourceFile,
+          language
+        );
+        assert.strictEqual(
+          targetPath,
+          path.join(resDir, dirName, "strings.xml")
+        );
+        assert.ok(fs.existsSync(path.dirname(targetPath)));
+      }
+    });
+
+    test("detects languages from values-<qualifier> folders", () => {
+      const resDir = path.join(tempDir, "res");
+      for (const dirName of [
+        "values",
+        "values-de",
+        "values-pt-rBR",
+        "values-b+sr+Latn",
+        "values-night", // Not a locale qualifier
+        "values-v21",
+        "values-car",
+        "drawable",
+      ]) {
+        fs.mkdirSync(path.join(resDir, dirName), { recursive: true });
+      }
+      const sourceFile = path.join(resDir, "values-de", "strings.xml");
+      fs.writeFileSync(sourceFile, "<resources/>");
+
+      assert.strictEqual(detector.detectSourceLanguage(sourceFile), "de");
+      assert.deepStrictEqual(detector.detectLanguagesFromProject(sourceFile), [
+        "pt-BR",
+        "sr-Latn",
+      ]);
+    });
+  });
+
+  suite("Properties File Support", () => {
+    test("generates locale-suffixed sibling for the default bundle", () => {
+      const resourcesDir = path.join(tempDir, "src", "main", "resources");
+      fs.mkdirSync(resourcesDir, { recursive: true });
+      const sourceFile = path.join(resourcesDir, "messages.properties");
+      fs.writeFileSync(sourceFile, "greeting=Hello\n");
+
+      const structure = detector.detectProjectStructure(sourceFile);
+      assert.strictEqual(structure.type, ProjectStructureType.FileBased);
+      assert.strictEqual(structure.sourceLanguage, undefined);
+
+      assert.strictEqual(
+        detector.generateTargetFilePath(sourceFile, "pt-BR"),
+        path.join(resourcesDir, "messages_pt_BR.properties")
+      );
+    });
+
+    test("replaces the locale of a localized bundle", () => {
+      const resourcesDir = path.join(tempDir, "resources");
+      fs.mkdirSync(resourcesDir, { recursive: true });
+      const sourceFile = path.join(resourcesDir, "app_messages_en.properties");
+      fs.writeFileSync(sourceFile, "");
+
+      assert.strictEqual(detector.detectSourceLanguage(sourceFile), "en");
+      assert.strictEqual(
+        detector.generateTargetFilePath(sourceFile, "de"),
+        path.join(resourcesDir, "app_messages_de.properties")
+      );
+    });
+
+    test("detects languages of the same bundle only", () => {
+      const resourcesDir = path.join(tempDir, "resources");
+      fs.mkdirSync(resourcesDir, { recursive: true });
+      const sourceFile = path.join(resourcesDir, "messages.properties");
+      fs.writeFileSync(sourceFile, "");
+      fs.writeFileSync(path.join(resourcesDir, "messages_fr.properties"), "");
+      fs.writeFileSync(
+        path.join(resourcesDir, "messages_pt_BR.properties"),
+        ""
+      );
+      fs.writeFileSync(path.join(resourcesDir, "errors_de.properties"), ""); // Other bundle
+
+      assert.deepStrictEqual(detector.detectLanguagesFromProject(sourceFile), [
+        "fr",
+        "pt_BR",
+      ]);
+    });
+  });
+
+  suite("RESX File Support", () => {
+    test("generates culture-suffixed sibling for the neutral resources", () => {
+      const propertiesDir = path.join(tempDir, "Properties");
+      fs.mkdirSync(propertiesDir, { recursive: true });
+      const sourceFile = path.join(propertiesDir, "Resources.resx");
+      fs.writeFileSync(sourceFile, "<root/>");
+
+      const structure = detector.detectProjectStructure(sourceFile);
+      assert.strictEqual(structure.type, ProjectStructureType.FileBased);
+      assert.strictEqual(structure.sourceLanguage, undefined);
+
+      assert.strictEqual(
+        detector.generateTargetFilePath(sourceFile, "de-DE"),
+        path.join(propertiesDir, "Resources.de-DE.resx")
+      );
+    });
+
+    test("detects cultures of satellite files with the same base name", () => {
+      const propertiesDir = path.join(tempDir, "Properties");
+      fs.mkdirSync(propertiesDir, { recursive: true });
+      const sourceFile = path.join(propertiesDir, "Resources.en.resx");
+      fs.writeFileSync(sourceFile, "<root/>");
+      fs.writeFileSync(path.join(propertiesDir, "Resources.resx"), "");
+      fs.writeFileSync(path.join(propertiesDir, "Resources.de-DE.resx"), "");
+      fs.writeFileSync(path.join(propertiesDir, "Resources.zh-Hans.resx"), "");
+      fs.writeFileSync(path.join(propertiesDir, "Errors.fr.resx"), ""); // Other resources
+
+      assert.strictEqual(detector.detectSourceLanguage(sourceFile), "en");
+      assert.deepStrictEqual(detector.detectLanguagesFromProject(sourceFile), [
+        "de-DE",
+        "zh-Hans",
+      ]);
+      assert.strictEqual(
+        detector.generateTargetFilePath(sourceFile, "fr"),
+        path.join(propertiesDir, "Resources.fr.resx")
+      );
+    });
+  });
+
+  suite("Apple Localization Support", () => {
+    test("detects lproj structure and generates target path", () => {
+      const resourcesDir = path.join(tempDir, "App", "Resources");
+      fs.mkdirSync(path.join(resourcesDir, "en.lproj"), { recursive: true });
+      fs.mkdirSync(path.join(resourcesDir, "Base.lproj"));
+      fs.mkdirSync(path.join(resourcesDir, "de.lproj"));
+      fs.mkdirSync(path.join(resourcesDir, "zh-Hans.lproj"));
+      const sourceFile = path.join(
+        resourcesDir,
+        "en.lproj",
+        "Localizable.strings"
+      );
+      fs.writeFileSync(sourceFile, "");
+
+      const structure = detector.detectProjectStructure(sourceFile);
+      assert.strictEqual(structure.type, ProjectStructureType.Lproj);
+      assert.strictEqual(structure.sourceLanguage, "en");
+
+      assert.deepStrictEqual(detector.detectLanguagesFromProject(sourceFile), [
+        "de",
+        "zh-Hans",
+      ]);
+      assert.strictEqual(
+        detector.generateTargetFilePath(sourceFile, "pt-BR"),
+        path.join(resourcesDir, "pt-BR.lproj", "Localizable.strings")
+      );
+    });
+
+    test("uses the String Catalog itself as target file", () => {
+      const sourceFile = path.join(tempDir, "Localizable.xcstrings");
+      fs.writeFileSync(
+        sourceFile,
+        JSON.stringify({
+          sourceLanguage: "en",
+          strings: {
+            Done: { localizations: { de: {}, en: {} } },
+            Cancel: { localizations: { fr: {} } },
+            Empty: {},
+          },
+          version: "1.0",
+        })
+      );
+
+      assert.strictEqual(detector.detectSourceLanguage(sourceFile), "en");
+      assert.deepStrictEqual(detector.detectLanguagesFromProject(sourceFile), [
+        "de",
+        "fr",
+      ]);
+      assert.strictEqual(
+        detector.generateTargetFilePath(sourceFile, "es"),
+        sourceFile
+      );
+    });
+  });
+
+  suite("I18n Root Discovery", () => {
+    const createFile = (...segments: string[]) => {
+      const filePath = path.join(tempDir, ...segments);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, "");
+      return filePath;
+    };
+
+    test("groups locale files by source file", () => {
+      const common = createFile("locales", "en", "common.json");
+      const auth = createFile("locales", "en", "auth.json");
+      createFile("locales", "fr", "common.json");
+      const bundle = createFile("resources", "messages.properties");
+      createFile("resources", "messages_en.properties");
+      createFile("resources", "messages_de.properties");
+      createFile("package.json"); // Unknown structure, ignored
+
+      const roots = detector.findI18nRoots(
+        [
+          common,
+          auth,
+          path.join(tempDir, "locales", "fr", "common.json"),
+          path.join(tempDir, "resources", "messages_en.properties"),
+          bundle,
+          path.join(tempDir, "resources", "messages_de.properties"),
+          path.join(tempDir, "package.json"),
+        ],
+        () => "en"
+      );
+
+      assert.deepStrictEqual(
+        roots.map((root: any) => root.sourceFilePath),
+        [auth, common, bundle]
+      );
+      assert.strictEqual(
+        roots[0].structure.type,
+        ProjectStructureType.FolderBased
+      );
+    });
+
+    test("uses the source language of each file", () => {
+      const source = createFile("i18n", "de.json");
+      createFile("i18n", "en.json");
+
+      const roots = detector.findI18nRoots(
+        [path.join(tempDir, "i18n", "en.json"), source],
+        () => "de-DE"
+      );
+
+      assert.deepStrictEqual(
+        roots.map((root: any) => root.sourceFilePath),
+        [source]
+      );
+    });
+
+    test("returns target paths without creating folders", () => {
+      const sourceFile = createFile("locales", "en", "common.json");
+
+      const targetPath = detector.getTargetFilePath(sourceFile, "es");
+
+      assert.strictEqual(
+        targetPath,
+        path.join(tempDir, "locales", "es", "common.json")
+      );
+      assert.ok(!fs.existsSync(path.join(tempDir, "locales", "es")));
+    });
+
+    test("finds the source file of a target file", () => {
+      const source = createFile("locales", "en-US", "common.json");
+      const target = createFile("locales", "fr", "common.json");
+
+      assert.strictEqual(detector.findSourceFilePath(target, "en"), source);
+      assert.strictEqual(detector.findSourceFilePath(source, "en"), undefined);
+    });
+
+    test("falls back to the neutral source file", () => {
+      const bundle = createFile("resources", "messages.properties");
+      const target = createFile("resources", "messages_de.properties");
+      const strings = createFile("res", "values", "strings.xml");
+      const androidTarget = createFile("res", "values-fr", "strings.xml");
+
+      assert.strictEqual(detector.findSourceFilePath(target, "en"), bundle);
+      assert.strictEqual(
+        detector.findSourceFilePath(androidTarget, "en"),
+        strings
+      );
+      assert.strictEqual(detector.findSourceFilePath(bundle, "en"), undefined);
+    });
+  });
+
+  suite("Path Templates Support", () => {
+    const createFile = (...segments: string[]) => {
+      const filePath = path.join(tempDir, ...segments);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, "{}");
+      return filePath;
+    };
+
+    const withTemplates = (...templates: string[]) =>
+      new I18nProjectManager(() => ({ rootPath: tempDir, templates }));
+
+    test("resolves nested namespace folders (src/i18n/{lang}/{namespace}.json)", () => {
+      const sourceFile = createFile("src", "i18n", "en", "common.json");
+      createFile("src", "i18n", "fr", "common.json");
+      createFile("src", "i18n", "de", "other.json"); // Different namespace, ignored
+      const manager: any = withTemplates("src/i18n/{lang}/{namespace}.json");
+
+      const structure = manager.detectProjectStructure(sourceFile);
+      assert.strictEqual(structure.type, ProjectStructureType.Template);
+      assert.strictEqual(structure.sourceLanguage, "en");
+
+      assert.deepStrictEqual(manager.detectLanguagesFromProject(sourceFile), [
+        "fr",
+      ]);
+      assert.strictEqual(
+        manager.generateTargetFilePath(sourceFile, "pt-BR"),
+        path.join(tempDir, "src", "i18n", "pt-BR", "common.json")
+      );
+      assert.ok(fs.existsSync(path.join(tempDir, "src", "i18n", "pt-BR")));
+    });
+
+    test("resolves language codes inside file names (messages.{lang}.json)", () => {
+      const sourceFile = createFile("config", "messages.en.json");
+      createFile("config", "messages.es.json");
+      createFile("config", "messages.zh-Hant.json");
+      createFile("config", "labels.fr.json");
+      const manager = withTemplates("**/messages.{lang}.json");
+
+      assert.deepStrictEqual(manager.detectLanguagesFromProject(sourceFile), [
+        "es",
+        "zh-Hant",
+      ]);
+      assert.strictEqual(
+        manager.generateTargetFilePath(sourceFile, "de"),
+        path.join(tempDir, "config", "messages.de.json")
+      );
+    });
+
+    test("replaces every occurrence of {lang} and keeps {basename}", () => {
+      const sourceFile = createFile("l10n", "en_US", "app.en_US.arb");
+      createFile("l10n", "fr", "app.fr.arb");
+      createFile("l10n", "de", "app.fr.arb"); // Language codes differ, ignored
+      const manager = withTemplates("l10n/{lang}/{basename}.{lang}.arb");
+
+      assert.strictEqual(manager.detectSourceLanguage(sourceFile), "en_US");
+      assert.deepStrictEqual(manager.detectLanguagesFromProject(sourceFile), [
+        "fr",
+      ]);
+      assert.strictEqual(
+        manager.generateTargetFilePath(sourceFile, "pt-BR"),
+        path.join(tempDir, "l10n", "pt_BR", "app.pt_BR.arb")
+      );
+    });
+
+    test("uses the first matching template", () => {
+      const sourceFile = createFile("translations", "de", "en.json");
+      const manager = withTemplates(
+        "src/{lang}.json",
+        "translations/{lang}/*.json",
+        "translations/*/{lang}.json"
+      );
+
+      assert.strictEqual(manager.detectSourceLanguage(sourceFile), "de");
+      assert.strictEqual(
+        manager.generateTargetFilePath(sourceFile, "ja"),
+        path.join(tempDir, "translations", "ja", "en.json")
+      );
+    });
+
+    test("falls back to structure detection when no template matches", () => {
+      const sourceFile = createFile("i18n", "en.json");
+      const manager: any = withTemplates(
+        "src/i18n/{lang}/{namespace}.json",
+        "i18n/{namespace}.json" // No {lang}, ignored
+      );
+
+      const structure = manager.detectProjectStructure(sourceFile);
+      assert.strictEqual(structure.type, ProjectStructureType.FileBased);
+      assert.strictEqual(
+        manager.generateTargetFilePath(sourceFile, "es"),
+        path.join(tempDir, "i18n", "es.json")
+      );
+    });
+
+    test("ignores files outside the template root", () => {
+      const sourceFile = path.join(os.tmpdir(), "en.json");
+      const manager: any = new I18nProjectManager(() => ({
+        rootPath: path.join(tempDir, "project"),
+        templates: ["../{lang}.json", "**/{lang}.json"],
+      }));
+
+      assert.notStrictEqual(
+        manager.detectProjectStructure(sourceFile).type,
+        ProjectStructureType.Template
+      );
+    });
+  });
 });
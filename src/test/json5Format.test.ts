@@ -0,0 +1,163 @@
+import * as assert from "assert";
+
+import { Json5FormatHandler } from "../json5Format";
+
+const JSONC = [
+  "{",
+  "  // Title of the home page",
+  '  "title": "Welcome",',
+  '  "menu": {',
+  '    "open": "Open", // trailing comment stays in place',
+  "    /* Shown in the",
+  "       file menu */",
+  '    "save": "Save \\"all\\"",',
+  "  },",
+  '  "count": 3,',
+  '  "items_one": "{{count}} item",',
+  '  "items_other": "{{count}} items",',
+  "}",
+  "",
+].join("\n");
+
+const JSON5 = [
+  "{",
+  "  // Greeting",
+  "  greeting: 'Hello, {name}!',",
+  "  tags: ['new', 'sale',],",
+  "  enabled: true,",
+  "  ratio: .5,",
+  "}",
+  "",
+].join("\n");
+
+suite("Json5FormatHandler Test Suite", () => {
+  let handler: Json5FormatHandler;
+
+  setup(() => {
+    handler = new Json5FormatHandler();
+  });
+
+  suite("toJson", () => {
+    test("sends plain JSON unchanged", () => {
+      const content = '{\n  "title": "Welcome"\n}';
+
+      assert.strictEqual(handler.toJson(content), content);
+    });
+
+    test("converts JSON with comments and uses comments as context", () => {
+      const json = JSON.parse(handler.toJson(JSONC));
+
+      assert.deepStrictEqual(json, {
+        "title (Title of the home page)": "Welcome",
+        menu: {
+          open: "Open",
+          "save (Shown in the file menu)": 'Save "all"',
+        },
+        count: 3,
+        items_one: "{{count}} item",
+        items_other: "{{count}} items",
+      });
+    });
+
+    test("converts JSON5 syntax", () => {
+      const json = JSON.parse(handler.toJson(JSON5));
+
+      assert.deepStrictEqual(json, {
+        "greeting (Greeting)": "Hello, {name}!",
+        tags: ["new", "sale"],
+        enabled: true,
+        ratio: 0.5,
+      });
+    });
+
+    test("throws on invalid syntax", () => {
+      assert.throws(
+        () => handler.toJson('{\n  "title": "Welcome" "x"\n}'),
+        /Invalid JSON5: .* at line 2/
+      );
+    });
+  });
+
+  suite("fromJson", () => {
+    test("returns translated plain JSON as-is", () => {
+      const translations = '{\n  "title": "Bienvenue"\n}';
+
+      const output = handler.fromJson(translations, {
+        sourceContent: '{ "title": "Welcome" }',
+        targetLanguage: "fr",
+      });
+
+      assert.strictEqual(output, translations);
+    });
+
+    test("keeps comments, trailing commas and adds generated plural keys", () => {
+      const translations = JSON.stringify({
+        "title (Title of the home page)": "Witamy",
+        menu: {
+          open: "Otwórz",
+          "save (Shown in the file menu)": 'Zapisz "wszystko"',
+        },
+        count: 3,
+        items_one: "{{count}} element",
+        items_few: "{{count}} elementy",
+        items_many: "{{count}} elementów",
+        items_other: "{{count}} elementu",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: JSONC,
+        targetLanguage: "pl",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "{",
+          "  // Title of the home page",
+          '  "title": "Witamy",',
+          '  "menu": {',
+          '    "open": "Otwórz", // trailing comment stays in place',
+          "    /* Shown in the",
+          "       file menu */",
+          '    "save": "Zapisz \\"wszystko\\"",',
+          "  },",
+          '  "count": 3,',
+          '  "items_one": "{{count}} element",',
+          '  "items_other": "{{count}} elementu",',
+          '  "items_few": "{{count}} elementy",',
+          '  "items_many": "{{count}} elementów",',
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps JSON5 quote style and unquoted keys", () => {
+      const translations = JSON.stringify({
+        "greeting (Greeting)": "Hallo, {name}!",
+        tags: ["neu", "Angebot"],
+        enabled: true,
+        ratio: 0.5,
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: JSON5,
+        targetLanguage: "de",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "{",
+          "  // Greeting",
+          "  greeting: 'Hallo, {name}!',",
+          "  tags: ['neu', 'Angebot',],",
+          "  enabled: true,",
+          "  ratio: .5,",
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import * as assert from "assert";
+
+import { getFileFormatHandler, FileFormat } from "../fileFormats";
+import {
+  addStrings,
+  filterStrings,
+  findKeyRange,
+  getChangedKeys,
+  getKeysInLines,
+  getLocaleCoverage,
+  getStringKeys,
+} from "../localeCoverage";
+
+suite("Locale Coverage Test Suite", () => {
+  suite("getStringKeys", () => {
+    test("returns nested string keys with plural forms merged", () => {
+      const keys = getStringKeys(
+        JSON.stringify({
+          title: "Welcome",
+          menu: { open: "Open", save: "" },
+          items_one: "{{count}} item",
+          items_other: "{{count}} items",
+          tags: ["new", "sale"],
+          count: 3,
+        })
+      );
+
+      assert.deepStrictEqual(keys, [
+        "title",
+        "menu.open",
+        "items",
+        "tags.0",
+        "tags.1",
+      ]);
+    });
+
+    test("skips ARB metadata", () => {
+      const keys = getStringKeys(
+        JSON.stringify({
+          "@@locale": "en",
+          greeting: "Hello",
+          "@greeting": { description: "Greeting on the home page" },
+        })
+      );
+
+      assert.deepStrictEqual(keys, ["greeting"]);
+    });
+  });
+
+  suite("getLocaleCoverage", () => {
+    const jsonHandler = getFileFormatHandler(FileFormat.Json);
+    const source = JSON.stringify({
+      title: "Welcome",
+      save: "Save",
+      items_one: "{{count}} item",
+      items_other: "{{count}} items",
+    });
+
+    test("counts translated, missing and extra keys", () => {
+      const target = JSON.stringify({
+        title: "Bienvenue",
+        items_one: "{{count}} élément",
+        items_many: "{{count}} d'éléments",
+        items_other: "{{count}} éléments",
+        old: "Ancien",
+      });
+
+      const coverage = getLocaleCoverage(
+        jsonHandler,
+        source,
+        target,
+        "en",
+        "fr"
+      );
+
+      assert.deepStrictEqual(coverage, {
+        total: 3,
+        translated: 2,
+        missing: ["save"],
+        extra: ["old"],
+        untranslated: [],
+        placeholderMismatches: [],
+      });
+    });
+
+    test("reports every string missing without a target file", () => {
+      const coverage = getLocaleCoverage(
+        jsonHandler,
+        source,
+        undefined,
+        "en",
+        "de"
+      );
+
+      assert.strictEqual(coverage.translated, 0);
+      assert.deepStrictEqual(coverage.missing, ["title", "save", "items"]);
+    });
+
+    test("reads the target language of files that store all languages", () => {
+      const catalog = JSON.stringify({
+        sourceLanguage: "en",
+        strings: {
+          Done: {
+            localizations: {
+              de: { stringUnit: { state: "translated", value: "Fertig" } },
+            },
+          },
+          Cancel: {},
+        },
+      });
+
+      const coverage = getLocaleCoverage(
+        getFileFormatHandler(FileFormat.Xcstrings),
+        catalog,
+        catalog,
+        "en",
+        "de"
+      );
+
+      assert.deepStrictEqual(coverage.missing, ["Cancel"]);
+      assert.strictEqual(coverage.translated, 1);
+    });
+
+    test("reports values that are still the source text", () => {
+      const target = JSON.stringify({
+        title: "Welcome",
+        save: "Speichern",
+        items_one: "{{count}} item",
+        items_other: "{{count}} Elemente",
+      });
+
+      const coverage = getLocaleCoverage(
+        jsonHandler,
+        JSON.stringify({ ...JSON.parse(source), count: "{{count}}" }),
+        JSON.stringify({ ...JSON.parse(target), count: "{{count}}" }),
+        "en",
+        "de"
+      );
+
+      assert.deepStrictEqual(coverage.untranslated, ["title", "items"]);
+    });
+
+    test("reports values whose placeholders differ from the source text", () => {
+      const coverage = getLocaleCoverage(
+        jsonHandler,
+        source,
+        JSON.stringify({
+          title: "Willkommen",
+          items_one: "{{count}} Element",
+          items_other: "{{anzahl}} Elemente",
+        }),
+        "en",
+        "de"
+      );
+
+      assert.deepStrictEqual(coverage.placeholderMismatches, [
+        { key: "items", missing: ["{{count}}"], unexpected: ["{{anzahl}}"] },
+      ]);
+    });
+  });
+
+  suite("getChangedKeys", () => {
+    test("returns added and changed keys with plural forms merged", () => {
+      const previous = JSON.stringify({
+        title: "Welcome",
+        save: "Save",
+        items_one: "{{count}} item",
+        items_other: "{{count}} items",
+      });
+      const current = JSON.stringify({
+        title: "Welcome!",
+        save: "Save",
+        items_one: "{{count}} item",
+        items_other: "{{count}} elements",
+        cancel: "Cancel",
+      });
+
+      assert.deepStrictEqual(getChangedKeys(previous, current), [
+        "title",
+        "items",
+        "cancel",
+      ]);
+    });
+  });
+
+  suite("filterStrings", () => {
+    test("keeps the strings of the given keys with their structure", () => {
+      const json = JSON.stringify({
+        title: "Welcome",
+        menu: { open: "Open", save: "Save" },
+        footer: { copyright: "Copyright" },
+        items_one: "{{count}} item",
+        items_other: "{{count}} items",
+        "@title": { description: "Page title" },
+        version: 2,
+      });
+
+      const filtered = filterStrings(json, (key) =>
+        ["menu.save", "items"].includes(key)
+      );
+
+      assert.deepStrictEqual(JSON.parse(filtered), {
+        menu: { save: "Save" },
+        items_one: "{{count}} item",
+        items_other: "{{count}} items",
+        "@title": { description: "Page title" },
+        version: 2,
+      });
+    });
+  });
+
+  suite("addStrings", () => {
+    test("adds strings where the source has them and keeps existing ones", () => {
+      const source = JSON.stringify({
+        title: "Welcome",
+        menu: { open: "Open", save: "Save" },
+        footer: { copyright: "Copyright" },
+        "@title": { description: "Page title" },
+      });
+
+      const merged = addStrings(
+        JSON.stringify({ title: "Willkommen" }),
+        source,
+        new Map([
+          ["title", "Hallo"],
+          ["menu.save", "Speichern"],
+        ])
+      );
+
+      assert.deepStrictEqual(JSON.parse(merged), {
+        title: "Willkommen",
+        menu: { save: "Speichern" },
+      });
+    });
+
+    test("creates the target without existing strings", () => {
+      const merged = addStrings(
+        undefined,
+        JSON.stringify({ menu: { open: "Open" } }),
+        new Map([["menu.open", "Öffnen"]])
+      );
+
+      assert.deepStrictEqual(JSON.parse(merged), { menu: { open: "Öffnen" } });
+    });
+  });
+
+  suite("findKeyRange", () => {
+    const content = [
+      "{",
+      '  "title": "Title",',
+      '  "menu": {',
+      '    "title": "Menu",',
+      '    "items_one": "{{count}} item"',
+      "  }",
+      "}",
+    ].join("\n");
+
+    test("finds nested keys after their parents", () => {
+      const range = findKeyRange(content, "menu.title");
+
+      assert.ok(range);
+      assert.strictEqual(content.substring(range.start, range.end), "title");
+      assert.ok(range.start > content.indexOf("menu"));
+    });
+
+    test("finds plural keys and ignores context added to keys", () => {
+      const range = findKeyRange(content, "menu.items (shown in the menu)");
+
+      assert.ok(range);
+      assert.strictEqual(
+        content.substring(range.start, range.end),
+        "items_one"
+      );
+    });
+
+    test("returns undefined for keys that aren't in the file", () => {
+      assert.strictEqual(findKeyRange(content, "footer"), undefined);
+    });
+
+    test("prefers names written as keys to names in values", () => {
+      const json = '{\n  "hint": "Open the menu",\n  "menu": "Menu"\n}';
+
+      const range = findKeyRange(json, "menu");
+
+      assert.strictEqual(range?.start, json.indexOf('"menu"') + 1);
+    });
+
+    test("finds whole keys of flat files", () => {
+      const properties = "menu=Menu\nmenu.open=Open\n";
+
+      const range = findKeyRange(properties, "menu.open");
+
+      assert.deepStrictEqual(range, { start: 10, end: 19 });
+    });
+  });
+
+  suite("getKeysInLines", () => {
+    const content = [
+      "{",
+      '  "title": "Title",',
+      '  "menu": {',
+      '    "open": "Open",',
+      '    "save": "Save"',
+      "  }",
+      "}",
+    ].join("\n");
+    const keys = ["title", "menu.open", "menu.save"];
+
+    test("returns the key at the cursor", () => {
+      assert.deepStrictEqual(getKeysInLines(content, keys, 3, 3), [
+        "menu.open",
+      ]);
+    });
+
+    test("returns every key under the parent key at the cursor", () => {
+      assert.deepStrictEqual(getKeysInLines(content, keys, 2, 2), [
+        "menu.open",
+        "menu.save",
+      ]);
+    });
+
+    test("returns the keys of the selected lines", () => {
+      assert.deepStrictEqual(getKeysInLines(content, keys, 0, 1), ["title"]);
+      assert.deepStrictEqual(getKeysInLines(content, keys, 3, 4), [
+        "menu.open",
+        "menu.save",
+      ]);
+    });
+
+    test("doesn't treat parts of flat keys as parents", () => {
+      const properties = "menu.open=Open\nmenu.save=Save\n";
+
+      assert.deepStrictEqual(
+        getKeysInLines(properties, ["menu.open", "menu.save"], 0, 0),
+        ["menu.open"]
+      );
+    });
+  });
+});
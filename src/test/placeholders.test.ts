@@ -0,0 +1,71 @@
+import * as assert from "assert";
+
+import {
+  comparePlaceholders,
+  formatPlaceholderMismatch,
+  getPlaceholders,
+} from "../placeholders";
+
+suite("Placeholders Test Suite", () => {
+  suite("getPlaceholders", () => {
+    test("returns interpolation tokens of the common formats", () => {
+      assert.deepStrictEqual(
+        getPlaceholders("{{name}} has %s and %1$d, %@ for ${user} and $count"),
+        ["{{name}}", "%s", "%1$d", "%@", "${user}", "$count"]
+      );
+    });
+
+    test("skips percent signs that aren't placeholders", () => {
+      assert.deepStrictEqual(getPlaceholders("50% off, 100%% sure"), []);
+    });
+
+    test("returns ICU arguments without plural selectors and sub-messages", () => {
+      assert.deepStrictEqual(
+        getPlaceholders(
+          "{name} has {count, plural, =0 {no items} one {# item} other {{count} items}} since {date, date, short}"
+        ),
+        ["{name}", "{count, plural}", "{count}", "{date, date}"]
+      );
+    });
+
+    test("returns tags by name and escape sequences", () => {
+      assert.deepStrictEqual(
+        getPlaceholders('<a href="/help" title="Help">Help</a><br/>\nLine\\t'),
+        ["<a>", "</a>", "<br/>", "\n", "\\t"]
+      );
+    });
+  });
+
+  suite("comparePlaceholders", () => {
+    test("reports renamed and broken placeholders", () => {
+      assert.deepStrictEqual(
+        comparePlaceholders(
+          "{count} items for {{name}}",
+          "{compte} éléments pour {{name}"
+        ),
+        { missing: ["{{name}}", "{count}"], unexpected: ["{compte}", "{name}"] }
+      );
+    });
+
+    test("allows placeholders in another order and more plural forms", () => {
+      assert.deepStrictEqual(
+        comparePlaceholders(
+          "{count, plural, one {# file} other {# files}} in <b>{folder}</b>",
+          "<b>{folder}</b>: {count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}"
+        ),
+        { missing: [], unexpected: [] }
+      );
+    });
+  });
+
+  test("formats missing and unexpected placeholders", () => {
+    assert.strictEqual(
+      formatPlaceholderMismatch({
+        key: "items",
+        missing: ["{count}"],
+        unexpected: ["{compte}", "\n"],
+      }),
+      'missing "{count}"; unexpected "{compte}", "\\n"'
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import * as assert from "assert";
+
+import { getPluralRule, PoFormatHandler } from "../poFormat";
+
+const TEMPLATE = [
+  "# Example project",
+  "#, fuzzy",
+  'msgid ""',
+  'msgstr ""',
+  '"Project-Id-Version: example 1.0\\n"',
+  '"Language: \\n"',
+  '"Content-Type: text/plain; charset=UTF-8\\n"',
+  "",
+  "#: src/main.c:10",
+  'msgid "Open"',
+  'msgstr ""',
+  "",
+  "#. Verb shown in the File menu",
+  'msgctxt "menu"',
+  'msgid "Open"',
+  'msgstr ""',
+  "",
+  "#, c-format",
+  'msgid "%d file"',
+  'msgid_plural "%d files"',
+  'msgstr[0] ""',
+  'msgstr[1] ""',
+  "",
+].join("\n");
+
+suite("PoFormatHandler Test Suite", () => {
+  let handler: PoFormatHandler;
+
+  setup(() => {
+    handler = new PoFormatHandler();
+  });
+
+  suite("toJson", () => {
+    test("uses msgctxt and extracted comments in keys and plural suffixes", () => {
+      const json = JSON.parse(handler.toJson(TEMPLATE));
+
+      assert.deepStrictEqual(json, {
+        Open: "Open",
+        "[menu] Open (Verb shown in the File menu)": "Open",
+        "%d file_one": "%d file",
+        "%d file_other": "%d files",
+      });
+    });
+
+    test("uses translator comments as context", () => {
+      const po = [
+        "# Shown on the checkout button",
+        'msgid "Pay"',
+        'msgstr ""',
+        "",
+      ].join("\n");
+
+      const json = JSON.parse(handler.toJson(po));
+
+      assert.deepStrictEqual(json, {
+        "Pay (Shown on the checkout button)": "Pay",
+      });
+    });
+
+    test("joins multi-line strings and unescapes them", () => {
+      const po = [
+        'msgid ""',
+        '"Line one\\n"',
+        '"Line \\"two\\""',
+        'msgstr ""',
+        "",
+      ].join("\n");
+
+      const json = JSON.parse(handler.toJson(po));
+
+      assert.deepStrictEqual(json, {
+        'Line one\nLine "two"': 'Line one\nLine "two"',
+      });
+    });
+
+    test("throws on invalid lines", () => {
+      assert.throws(() => handler.toJson("msgid Open"), /Invalid PO line/);
+    });
+  });
+
+  suite("readTargetStrings", () => {
+    test("maps msgstr indexes to the target language plural categories", () => {
+      const po = [
+        'msgid "%d file"',
+        'msgid_plural "%d files"',
+        'msgstr[0] "%d файл"',
+        'msgstr[1] "%d файла"',
+        'msgstr[2] "%d файлов"',
+        "",
+        'msgid "Open"',
+        'msgstr ""',
+        "",
+      ].join("\n");
+
+      const json = JSON.parse(handler.readTargetStrings(po, "ru"));
+
+      assert.deepStrictEqual(json, {
+        "%d file_one": "%d файл",
+        "%d file_few": "%d файла",
+        "%d file_many": "%d файлов",
+      });
+    });
+
+    test("keys target entries like the source when their comments differ", () => {
+      const source = [
+        "# Shown on the checkout button",
+        'msgid "Pay"',
+        'msgstr ""',
+        "",
+      ].join("\n");
+      const target = [
+        "# Checked by Marie",
+        'msgid "Pay"',
+        'msgstr "Bezahlen"',
+        "",
+      ].join("\n");
+
+      const json = JSON.parse(handler.readTargetStrings(target, "de", source));
+
+      assert.deepStrictEqual(json, {
+        "Pay (Shown on the checkout button)": "Bezahlen",
+      });
+    });
+  });
+
+  suite("fromJson", () => {
+    test("writes msgstr, plural forms and target header", () => {
+      const translations = JSON.stringify({
+        Open: "Открыть",
+        "[menu] Open (Verb shown in the File menu)": "Открыть",
+        "%d file_one": "%d файл",
+        "%d file_few": "%d файла",
+        "%d file_many": "%d файлов",
+        "%d file_other": "%d файла",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: TEMPLATE,
+        targetLanguage: "ru",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "# Example project",
+          'msgid ""',
+          'msgstr ""',
+          '"Project-Id-Version: example 1.0\\n"',
+          '"Language: ru\\n"',
+          '"Content-Type: text/plain; charset=UTF-8\\n"',
+          '"Plural-Forms: nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"',
+          '"Content-Transfer-Encoding: 8bit\\n"',
+          "",
+          "#: src/main.c:10",
+          'msgid "Open"',
+          'msgstr "Открыть"',
+          "",
+          "#. Verb shown in the File menu",
+          'msgctxt "menu"',
+          'msgid "Open"',
+          'msgstr "Открыть"',
+          "",
+          "#, c-format",
+          'msgid "%d file"',
+          'msgid_plural "%d files"',
+          'msgstr[0] "%d файл"',
+          'msgstr[1] "%d файла"',
+          'msgstr[2] "%d файлов"',
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("marks only new translations as fuzzy when requested", () => {
+      const existing = [
+        'msgid ""',
+        'msgstr ""',
+        '"Language: de\\n"',
+        "",
+        "# Reviewed by translator",
+        "#: src/main.c:10",
+        'msgid "Open"',
+        'msgstr "Öffnen"',
+        "",
+      ].join("\n");
+      const translations = JSON.stringify({
+        Open: "Öffnen",
+        "[menu] Open (Verb shown in the File menu)": "Öffnen",
+        "%d file_one": "%d Datei",
+        "%d file_other": "%d Dateien",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: TEMPLATE,
+        targetLanguage: "de",
+        targetContent: existing,
+        markForReview: true,
+      });
+
+      assert.ok(
+        output.includes(
+          '# Reviewed by translator\n#: src/main.c:10\nmsgid "Open"\nmsgstr "Öffnen"'
+        )
+      );
+      assert.ok(output.includes('#, fuzzy\nmsgctxt "menu"'));
+      assert.ok(output.includes('#, fuzzy, c-format\nmsgid "%d file"'));
+    });
+
+    test("wraps multi-line translations", () => {
+      const source = 'msgid "Hello\\nWorld"\nmsgstr ""\n';
+      const translations = JSON.stringify({ "Hello\nWorld": "Hallo\nWelt" });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: source,
+        targetLanguage: "de",
+      });
+
+      assert.ok(output.endsWith('msgstr ""\n"Hallo\\n"\n"Welt"\n'));
+    });
+  });
+
+  suite("getPluralRule", () => {
+    test("uses region-specific rules before language rules", () => {
+      assert.strictEqual(
+        getPluralRule("pt_BR").header,
+        "nplurals=2; plural=(n > 1);"
+      );
+      assert.strictEqual(
+        getPluralRule("pt").header,
+        "nplurals=2; plural=(n != 1);"
+      );
+    });
+
+    test("ignores script subtags", () => {
+      assert.deepStrictEqual(getPluralRule("zh-Hans-CN").categories, ["other"]);
+    });
+  });
+});
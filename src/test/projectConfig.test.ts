@@ -0,0 +1,161 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  findProjectConfig,
+  getProjectOption,
+  isExcludedByProjectConfig,
+  matchesGlobPatterns,
+  LoadedProjectConfig,
+} from "../projectConfig";
+
+suite("Project Config Test Suite", () => {
+  let tempDir: string;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "test-project-config-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(tempDir, ...relativePath.split("/"));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const loaded = (config: object): LoadedProjectConfig => ({
+    configPath: path.join(tempDir, ".l10nrc"),
+    rootPath: tempDir,
+    config,
+  });
+
+  suite("findProjectConfig", () => {
+    test("finds the nearest config file in parent folders", () => {
+      writeFile(".l10nrc", JSON.stringify({ sourceLanguage: "de" }));
+      const configPath = writeFile(
+        "packages/web/l10n.config.json",
+        JSON.stringify({ sourceLanguage: "en", targetLanguages: ["fr"] })
+      );
+      const sourceFile = writeFile("packages/web/locales/en/common.json", "{}");
+
+      const projectConfig = findProjectConfig(sourceFile, tempDir);
+
+      assert.strictEqual(projectConfig?.configPath, configPath);
+      assert.strictEqual(
+        projectConfig?.rootPath,
+        path.join(tempDir, "packages", "web")
+      );
+      assert.deepStrictEqual(projectConfig?.config, {
+        sourceLanguage: "en",
+        targetLanguages: ["fr"],
+      });
+    });
+
+    test("stops searching at the stop folder", () => {
+      writeFile(".l10nrc", JSON.stringify({ sourceLanguage: "en" }));
+      const sourceFile = writeFile("project/locales/en.json", "{}");
+
+      assert.strictEqual(
+        findProjectConfig(sourceFile, path.join(tempDir, "project")),
+        undefined
+      );
+      assert.ok(findProjectConfig(sourceFile, tempDir));
+    });
+
+    test("throws on invalid JSON or property types", () => {
+      const sourceFile = writeFile("en.json", "{}");
+
+      writeFile(".l10nrc", "{ sourceLanguage: en }");
+      assert.throws(
+        () => findProjectConfig(sourceFile, tempDir),
+        /Invalid \.l10nrc/
+      );
+
+      writeFile(".l10nrc", JSON.stringify({ targetLanguages: "fr" }));
+      assert.throws(
+        () => findProjectConfig(sourceFile, tempDir),
+        /"targetLanguages" must be an array of strings/
+      );
+
+      writeFile(
+        ".l10nrc",
+        JSON.stringify({ languageOptions: { de: { useShortening: "yes" } } })
+      );
+      assert.throws(
+        () => findProjectConfig(sourceFile, tempDir),
+        /"languageOptions\.de\.useShortening" must be true or false/
+      );
+    });
+  });
+
+  suite("getProjectOption", () => {
+    test("prefers language options over project options", () => {
+      const projectConfig = loaded({
+        useContractions: true,
+        languageOptions: { de: { useContractions: false }, "pt-BR": {} },
+      });
+
+      assert.strictEqual(
+        getProjectOption(projectConfig, "de", "useContractions"),
+        false
+      );
+      assert.strictEqual(
+        getProjectOption(projectConfig, "pt_BR", "useContractions"),
+        true
+      );
+      assert.strictEqual(
+        getProjectOption(projectConfig, "fr", "useShortening"),
+        undefined
+      );
+      assert.strictEqual(
+        getProjectOption(undefined, "fr", "useShortening"),
+        undefined
+      );
+    });
+  });
+
+  suite("isExcludedByProjectConfig", () => {
+    test("matches glob patterns relative to the config folder", () => {
+      const projectConfig = loaded({
+        exclude: ["src/legacy/**", "*.generated.json", "locales/*/draft.json"],
+      });
+      const isExcluded = (relativePath: string) =>
+        isExcludedByProjectConfig(
+          projectConfig,
+          path.join(tempDir, ...relativePath.split("/"))
+        );
+
+      assert.ok(isExcluded("src/legacy/en.json"));
+      assert.ok(isExcluded("src/legacy/old/en.json"));
+      assert.ok(isExcluded("app/i18n/en.generated.json"));
+      assert.ok(isExcluded("locales/en/draft.json"));
+      assert.ok(!isExcluded("src/i18n/en.json"));
+      assert.ok(!isExcluded("locales/en/nested/draft.json"));
+    });
+  });
+
+  suite("matchesGlobPatterns", () => {
+    test("matches paths relative to the root path", () => {
+      const patterns = ["src/locales/en.json", "**/app_en.arb"];
+      const matches = (relativePath: string) =>
+        matchesGlobPatterns(
+          tempDir,
+          path.join(tempDir, ...relativePath.split("/")),
+          patterns
+        );
+
+      assert.ok(matches("src/locales/en.json"));
+      assert.ok(matches("lib/l10n/app_en.arb"));
+      assert.ok(!matches("locales/en.json"));
+      assert.ok(
+        !matchesGlobPatterns(tempDir, path.join(tempDir, "en.json"), [])
+      );
+    });
+  });
+});
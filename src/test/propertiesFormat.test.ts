@@ -0,0 +1,86 @@
+import * as assert from "assert";
+
+import { PropertiesFormatHandler } from "../propertiesFormat";
+
+const MESSAGES = [
+  "# Greeting on the home page",
+  "greeting=Hello, {0}!",
+  "",
+  "welcome.message = Welcome to our application. \\",
+  "                  We hope you enjoy it.",
+  "",
+  "! Shown when the file can't be saved",
+  "error.save: Can''t save file {0}.",
+  "copyright=\\u00A9 2025 Example",
+  "user\\ name=User name",
+  "empty=",
+  "",
+].join("\n");
+
+suite("PropertiesFormatHandler Test Suite", () => {
+  let handler: PropertiesFormatHandler;
+
+  setup(() => {
+    handler = new PropertiesFormatHandler();
+  });
+
+  suite("toJson", () => {
+    test("reads continuations, escapes and comments", () => {
+      const json = JSON.parse(handler.toJson(MESSAGES));
+
+      assert.deepStrictEqual(json, {
+        "greeting (Greeting on the home page)": "Hello, {0}!",
+        "welcome.message": "Welcome to our application. We hope you enjoy it.",
+        "error.save (Shown when the file can't be saved)":
+          "Can't save file {0}.",
+        copyright: "© 2025 Example",
+        "user name": "User name",
+      });
+    });
+  });
+
+  suite("fromJson", () => {
+    test("writes translated values with escapes and doubled quotes", () => {
+      const translations = JSON.stringify({
+        "greeting (Greeting on the home page)": "Bonjour, {0} !",
+        "welcome.message":
+          "Bienvenue dans notre application. Nous espérons qu'elle vous plaira.",
+        "error.save (Shown when the file can't be saved)":
+          "Impossible d'enregistrer le fichier {0}.",
+        copyright: "© 2025 Exemple",
+        "user name": "Nom d'utilisateur",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: MESSAGES,
+        targetLanguage: "fr",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "# Greeting on the home page",
+          "greeting=Bonjour, {0} !",
+          "",
+          "welcome.message = Bienvenue dans notre application. Nous esp\\u00E9rons qu'elle vous plaira.",
+          "",
+          "! Shown when the file can't be saved",
+          "error.save: Impossible d''enregistrer le fichier {0}.",
+          "copyright=\\u00A9 2025 Exemple",
+          "user\\ name=Nom d'utilisateur",
+          "empty=",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps UTF-8 characters when the source file contains them", () => {
+      const output = handler.fromJson(JSON.stringify({ title: "Café\nMenü" }), {
+        sourceContent: "title=Café\r\n",
+        targetLanguage: "de",
+      });
+
+      assert.strictEqual(output, "title=Café\\nMenü\r\n");
+    });
+  });
+});
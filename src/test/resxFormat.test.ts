@@ -0,0 +1,76 @@
+import * as assert from "assert";
+
+import { ResxFormatHandler } from "../resxFormat";
+
+const RESOURCES = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  "<root>",
+  "  <!--",
+  "    Microsoft ResX Schema",
+  '    <data name="Bitmap1" mimetype="application/x-microsoft.net.object.binary.base64">',
+  "        <value>[base64 mime encoded serialized .NET Framework object]</value>",
+  "    </data>",
+  "  -->",
+  '  <resheader name="resmimetype">',
+  "    <value>text/microsoft-resx</value>",
+  "  </resheader>",
+  '  <data name="Greeting" xml:space="preserve">',
+  "    <value>Hello, {0}!</value>",
+  "    <comment>Shown on the home page</comment>",
+  "  </data>",
+  '  <data name="Terms" xml:space="preserve">',
+  "    <value>Terms &amp; &lt;conditions&gt;</value>",
+  "  </data>",
+  '  <data name="Title" type="System.String, mscorlib" xml:space="preserve">',
+  "    <value>Dashboard</value>",
+  "  </data>",
+  '  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">',
+  "    <value>..\\Resources\\logo.png;System.Drawing.Bitmap, System.Drawing</value>",
+  "  </data>",
+  '  <data name="Icon" mimetype="application/x-microsoft.net.object.bytearray.base64">',
+  "    <value>AAABAAEAEBAAAAEAIABoBAAAFgAAACgAAAAQAAAAIAAAAAEAIAAAAAAAAAQAAA==</value>",
+  "  </data>",
+  "</root>",
+  "",
+].join("\n");
+
+suite("ResxFormatHandler Test Suite", () => {
+  let handler: ResxFormatHandler;
+
+  setup(() => {
+    handler = new ResxFormatHandler();
+  });
+
+  test("reads string resources with comments as context", () => {
+    const json = JSON.parse(handler.toJson(RESOURCES));
+
+    assert.deepStrictEqual(json, {
+      "Greeting (Shown on the home page)": "Hello, {0}!",
+      Terms: "Terms & <conditions>",
+      Title: "Dashboard",
+    });
+  });
+
+  test("writes translated values and keeps other resources unchanged", () => {
+    const translations = JSON.stringify({
+      "Greeting (Shown on the home page)": "Hallo, {0}!",
+      Terms: "AGB & <Bedingungen>",
+      Title: "Übersicht",
+    });
+
+    const output = handler.fromJson(translations, {
+      sourceContent: RESOURCES,
+      targetLanguage: "de-DE",
+    });
+
+    assert.strictEqual(
+      output,
+      RESOURCES.replace("Hello, {0}!", "Hallo, {0}!")
+        .replace(
+          "Terms &amp; &lt;conditions&gt;",
+          "AGB &amp; &lt;Bedingungen&gt;"
+        )
+        .replace("<value>Dashboard</value>", "<value>Übersicht</value>")
+    );
+  });
+});
@@ -4,7 +4,9 @@ import * as vscode from "vscode";
 
 // Import the translation command handler
 import { handleTranslateCommand } from "../translationCommand";
+import { TranslationCancelledError } from "../translationService";
 import { VSCODE_COMMANDS } from "../constants";
+import { FileFormat } from "../fileFormats";
 
 suite("Translation Command Tests", () => {
   let mockApiKeyManager: any;
@@ -29,6 +31,7 @@ suite("Translation Command Tests", () => {
       validateLanguageCode: sinon.stub(),
       normalizeLanguageCode: sinon.stub(),
       generateTargetFilePath: sinon.stub(),
+      detectSourceLanguage: sinon.stub(),
     };
 
     mockLanguageSelector = {
@@ -46,6 +49,10 @@ suite("Translation Command Tests", () => {
     sinon.restore();
   });
 
+  // Paths of the written files other than the lock file of the source file
+  const getWrittenLocaleFiles = (writeStub: sinon.SinonStub) =>
+    writeStub.getCalls().map((call) => call.args[0]).filter((filePath: string) => !filePath.endsWith(".l10n.lock"));
+
   test("handleTranslateCommand returns early when API Key is not provided", async () => {
     // Arrange
     mockApiKeyManager.ensureApiKey.resolves(undefined);
@@ -131,7 +138,7 @@ suite("Translation Command Tests", () => {
         mockTranslationService,
         mockI18nProjectManager,
         mockLanguageSelector,
-        true // isArbFile
+        FileFormat.Arb
       );
 
       // Assert
@@ -165,7 +172,7 @@ suite("Translation Command Tests", () => {
         mockTranslationService,
         mockI18nProjectManager,
         mockLanguageSelector,
-        true // isArbFile
+        FileFormat.Arb
       );
 
       // Assert - validateLanguageCode is called without isArbFile parameter
@@ -208,7 +215,7 @@ suite("Translation Command Tests", () => {
       // Mock withProgress to execute the callback immediately
       (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) => {
         const progress = { report: sinon.stub() };
-        const token = { checkCanceled: sinon.stub() };
+        const token = { checkCanceled: sinon.stub(), onCancellationRequested: sinon.stub() };
         return await callback(progress, token);
       });
 
@@ -223,11 +230,623 @@ suite("Translation Command Tests", () => {
         mockTranslationService,
         mockI18nProjectManager,
         mockLanguageSelector,
-        true // isArbFile
+        FileFormat.Arb
       );
 
       // Assert - normalizeLanguageCode is called without isArbFile parameter
       assert.ok(mockI18nProjectManager.normalizeLanguageCode.calledWith("es_ES"));
     });
   });
+
+  suite("String Catalog Handling", () => {
+    test("handleTranslateCommand updates the String Catalog in place without asking", async () => {
+      // Arrange
+      const catalog = JSON.stringify({
+        sourceLanguage: "en",
+        strings: { Done: {} },
+        version: "1.0",
+      });
+      mockApiKeyManager.ensureApiKey.resolves("test-api-key");
+      mockI18nProjectManager.detectLanguagesFromProject.returns(["de"]);
+      mockLanguageSelector.selectTargetLanguage.resolves("de");
+      mockI18nProjectManager.validateLanguageCode.returns(true);
+      mockI18nProjectManager.normalizeLanguageCode.returns("de");
+      mockI18nProjectManager.detectSourceLanguage.returns("en");
+      mockI18nProjectManager.generateTargetFilePath.returns("/test/Localizable.xcstrings");
+      mockI18nProjectManager.getUniqueFilePath = sinon.stub();
+
+      const fs = require("fs");
+      sinon.stub(fs, "readFileSync").returns(catalog);
+      sinon.stub(fs, "existsSync").returns(true);
+      const writeStub = sinon.stub(fs, "writeFileSync");
+      const quickPickStub = sinon.stub(vscode.window, "showQuickPick");
+
+      mockTranslationService.translateJson.resolves({
+        translations: '{"Done": "Fertig"}',
+        usage: { charsUsed: 4 },
+        remainingBalance: 1000,
+      });
+
+      const mockConfig = {
+        get: sinon.stub().callsFake((_key: string, defaultValue: unknown) => defaultValue)
+      };
+      sinon.stub(vscode.workspace, "getConfiguration").returns(mockConfig as any);
+
+      (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) => {
+        const progress = { report: sinon.stub() };
+        return await callback(progress, { onCancellationRequested: sinon.stub() });
+      });
+
+      // Act
+      await handleTranslateCommand(
+        { fsPath: "/test/Localizable.xcstrings" } as any,
+        mockApiKeyManager,
+        mockTranslationService,
+        mockI18nProjectManager,
+        mockLanguageSelector,
+        FileFormat.Xcstrings
+      );
+
+      // Assert
+      assert.ok(!quickPickStub.called);
+      assert.ok(!mockI18nProjectManager.getUniqueFilePath.called);
+      const request = mockTranslationService.translateJson.firstCall.args[0];
+      assert.strictEqual(request.translateOnlyNewStrings, true);
+      assert.strictEqual(writeStub.firstCall.args[0], "/test/Localizable.xcstrings");
+      const output = JSON.parse(writeStub.firstCall.args[1]);
+      assert.strictEqual(
+        output.strings.Done.localizations.de.stringUnit.value,
+        "Fertig"
+      );
+    });
+  });
+
+  suite("Translation Preview", () => {
+    const translate = async (choice: string | undefined) => {
+      mockApiKeyManager.ensureApiKey.resolves("test-api-key");
+      mockI18nProjectManager.detectLanguagesFromProject.returns(["fr"]);
+      mockLanguageSelector.selectTargetLanguage.resolves(["fr"]);
+      mockI18nProjectManager.validateLanguageCode.returns(true);
+      mockI18nProjectManager.normalizeLanguageCode.returns("fr");
+      mockI18nProjectManager.detectSourceLanguage.returns("en");
+      mockI18nProjectManager.generateTargetFilePath.returns("/test/fr.json");
+      mockI18nProjectManager.getUniqueFilePath = sinon.stub().returns("/test/fr.json");
+
+      const fs = require("fs");
+      sinon.stub(fs, "readFileSync").returns('{"hello": "Hello"}');
+      sinon.stub(fs, "existsSync").callsFake((filePath: unknown) => filePath === "/test/en.json");
+      const writeStub = sinon.stub(fs, "writeFileSync");
+
+      mockTranslationService.translateJson.resolves({
+        translations: '{"hello": "Bonjour"}',
+        usage: { charsUsed: 5 },
+        remainingBalance: 1000,
+      });
+
+      const mockConfig = {
+        get: sinon.stub().callsFake((key: string, defaultValue: unknown) =>
+          key === "previewChanges" ? true : defaultValue
+        ),
+      };
+      sinon.stub(vscode.workspace, "getConfiguration").returns(mockConfig as any);
+      (vscode.window.showInformationMessage as sinon.SinonStub).resolves(choice);
+
+      await handleTranslateCommand(
+        { fsPath: "/test/en.json" } as any,
+        mockApiKeyManager,
+        mockTranslationService,
+        mockI18nProjectManager,
+        mockLanguageSelector,
+        FileFormat.Json
+      );
+      return writeStub;
+    };
+
+    test("shows a diff and writes nothing when the translation is discarded", async () => {
+      (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) =>
+        await callback({ report: sinon.stub() }, { onCancellationRequested: sinon.stub() })
+      );
+
+      const writeStub = await translate("Discard");
+
+      assert.ok(
+        (vscode.commands.executeCommand as sinon.SinonStub).calledWith(VSCODE_COMMANDS.DIFF)
+      );
+      assert.ok(!writeStub.called);
+    });
+
+    test("writes the proposed translation when it is applied", async () => {
+      (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) =>
+        await callback({ report: sinon.stub() }, { onCancellationRequested: sinon.stub() })
+      );
+
+      const writeStub = await translate("Apply");
+
+      assert.strictEqual(writeStub.firstCall.args[0], "/test/fr.json");
+      assert.strictEqual(writeStub.firstCall.args[1], '{"hello": "Bonjour"}');
+    });
+  });
+
+  suite("Cancellation", () => {
+    test("cancelling stops the run and reports the languages that finished", async () => {
+      mockApiKeyManager.ensureApiKey.resolves("test-api-key");
+      mockI18nProjectManager.detectLanguagesFromProject.returns([]);
+      mockLanguageSelector.selectTargetLanguage.resolves(["de", "fr", "es"]);
+      mockI18nProjectManager.validateLanguageCode.returns(true);
+      mockI18nProjectManager.normalizeLanguageCode.callsFake((lang: string) => lang);
+      mockI18nProjectManager.detectSourceLanguage.returns("en");
+      mockI18nProjectManager.generateTargetFilePath.callsFake(
+        (_path: string, lang: string) => `/test/${lang}.json`
+      );
+      mockI18nProjectManager.getUniqueFilePath = sinon.stub().callsFake((filePath: string) => filePath);
+
+      const fs = require("fs");
+      sinon.stub(fs, "readFileSync").returns('{"hello": "Hello"}');
+      sinon.stub(fs, "existsSync").returns(false);
+      const writeStub = sinon.stub(fs, "writeFileSync");
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: sinon.stub().callsFake((_key: string, defaultValue: unknown) => defaultValue),
+      } as any);
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage");
+
+      // German finishes, then the user cancels while French and Spanish are in flight
+      const cancelListeners: (() => void)[] = [];
+      const abortedLanguages: string[] = [];
+      (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) => {
+        assert.strictEqual(options.cancellable, true);
+        return await callback(
+          { report: sinon.stub() },
+          { onCancellationRequested: (listener: () => void) => cancelListeners.push(listener) }
+        );
+      });
+      mockTranslationService.translateJson.callsFake(
+        async (request: any, { signal }: { signal?: AbortSignal } = {}) => {
+          if (request.targetLanguageCode !== "de") {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            if (request.targetLanguageCode === "fr") {
+              cancelListeners[0]();
+            }
+            if (signal?.aborted) {
+              abortedLanguages.push(request.targetLanguageCode);
+              throw new TranslationCancelledError();
+            }
+          }
+          return { translations: '{"hello": "Hallo"}', usage: { charsUsed: 5 }, remainingBalance: 1000 };
+        }
+      );
+
+      await handleTranslateCommand(
+        { fsPath: "/test/en.json" } as any,
+        mockApiKeyManager,
+        mockTranslationService,
+        mockI18nProjectManager,
+        mockLanguageSelector,
+        FileFormat.Json
+      );
+
+      assert.deepStrictEqual(getWrittenLocaleFiles(writeStub), ["/test/de.json"]);
+      assert.ok(abortedLanguages.includes("fr"));
+      assert.ok(!(vscode.window.showErrorMessage as sinon.SinonStub).called);
+      assert.ok(warningStub.calledWith(sinon.match(/cancelled.*de$/)));
+    });
+  });
+
+  // Translates /test/en.json to the given languages with the settings
+  const setupRun = (
+    languages: string[],
+    settings: Record<string, unknown> = {},
+    sourceContent = '{"hello": "Hello"}'
+  ) => {
+    mockApiKeyManager.ensureApiKey.resolves("test-api-key");
+    mockI18nProjectManager.detectLanguagesFromProject.returns([]);
+    mockLanguageSelector.selectTargetLanguage.callsFake(
+      async (_detected: string[], _useUnderscores: boolean, configured: string[]) =>
+        configured.length > 0 ? configured : languages
+    );
+    mockI18nProjectManager.validateLanguageCode.returns(true);
+    mockI18nProjectManager.normalizeLanguageCode.callsFake((lang: string) => lang);
+    mockI18nProjectManager.detectSourceLanguage.returns("en");
+    mockI18nProjectManager.generateTargetFilePath.callsFake(
+      (_path: string, lang: string) => `/test/${lang}.json`
+    );
+    mockI18nProjectManager.getUniqueFilePath = sinon.stub().callsFake((filePath: string) => filePath);
+
+    const fs = require("fs");
+    sinon.stub(fs, "readFileSync").returns(sourceContent);
+    sinon.stub(fs, "existsSync").returns(false);
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: sinon.stub().callsFake((key: string, defaultValue: unknown) => settings[key] ?? defaultValue),
+    } as any);
+    (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) =>
+      await callback({ report: sinon.stub() }, { onCancellationRequested: sinon.stub() })
+    );
+    return sinon.stub(fs, "writeFileSync");
+  };
+  const translate = () =>
+    handleTranslateCommand(
+      { fsPath: "/test/en.json" } as any,
+      mockApiKeyManager,
+      mockTranslationService,
+      mockI18nProjectManager,
+      mockLanguageSelector,
+      FileFormat.Json
+    );
+  const translation = { translations: '{"hello": "Hallo"}', usage: { charsUsed: 5 }, remainingBalance: 1000 };
+
+  suite("Multi-language Runs", () => {
+    test("translates at most maxConcurrentRequests languages at a time", async () => {
+      const writeStub = setupRun(["de", "fr", "es", "it"], { maxConcurrentRequests: 2 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockTranslationService.translateJson.callsFake(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        inFlight--;
+        return translation;
+      });
+
+      await translate();
+
+      assert.strictEqual(maxInFlight, 2);
+      assert.strictEqual(getWrittenLocaleFiles(writeStub).length, 4);
+      assert.strictEqual(mockTranslationService.translateJson.firstCall.args[1].maxRetries, 3);
+    });
+
+    test("reports chunk progress per language and for the whole run", async () => {
+      setupRun(["de", "fr"]);
+      const progressReports = new Map<string, sinon.SinonStub>();
+      (vscode.window.withProgress as sinon.SinonStub).callsFake(async (options, callback) => {
+        const progress = { report: sinon.stub() };
+        progressReports.set(options.title, progress.report);
+        return await callback(progress, { onCancellationRequested: sinon.stub() });
+      });
+      mockTranslationService.translateJson.callsFake(async (_request: any, options: any) => {
+        options.onProgress({ completedChunks: 3, totalChunks: 4 });
+        return translation;
+      });
+
+      await translate();
+
+      const germanReport = progressReports.get("Translating en.json to de ")!;
+      assert.ok(germanReport.calledWith({ increment: 75, message: "Translated 3/4 chunks" }));
+      const runReport = progressReports.get("Translating en.json to 2 languages")!;
+      const runReports = runReport.getCalls().map((call) => call.args[0]);
+      // Each language's half of the bar advances by its chunks and is filled when it finishes
+      assert.deepStrictEqual(
+        runReports.map(({ increment }) => increment),
+        [0, 37.5, 37.5, 12.5, 12.5]
+      );
+      assert.strictEqual(runReports[runReports.length - 1].message, "2/2 languages · 6/8 chunks");
+    });
+
+    test("retries only the failed languages from the summary", async () => {
+      const writeStub = setupRun(["de", "fr"]);
+      mockTranslationService.translateJson.callsFake(async (request: any) => {
+        if (request.targetLanguageCode === "fr" && mockTranslationService.translateJson.callCount <= 2) {
+          throw new Error("Too many requests. Please try again later.");
+        }
+        return translation;
+      });
+      (vscode.window.showErrorMessage as sinon.SinonStub).resolves(undefined);
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage");
+      warningStub.onFirstCall().resolves("Retry Failed Languages" as any);
+
+      await translate();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      assert.ok(warningStub.firstCall.calledWith(sinon.match(/Failed: fr$/)));
+      assert.deepStrictEqual(
+        mockTranslationService.translateJson.getCalls().map((call: sinon.SinonSpyCall) => call.args[0].targetLanguageCode),
+        ["de", "fr", "fr"]
+      );
+      assert.deepStrictEqual(getWrittenLocaleFiles(writeStub), ["/test/de.json", "/test/fr.json"]);
+    });
+  });
+
+  suite("Cost Confirmation", () => {
+    test("sends nothing when a run above the threshold is not confirmed", async () => {
+      setupRun(["de", "fr"], { costConfirmThreshold: 5 }, '{"hello": "Hello", "bye": "Bye"}');
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+
+      await translate();
+
+      assert.ok(warningStub.calledWith(sinon.match(/about 16 characters for 2 languages/)));
+      assert.ok(!mockTranslationService.translateJson.called);
+    });
+  });
+
+  suite("Truncated Translations", () => {
+    const source = '{"hello": "Hello", "bye": "Bye"}';
+    const truncated = {
+      translations: '{"hello": "Hallo"}',
+      usage: { charsUsed: 5 },
+      finishReason: "length",
+      completedChunks: 1,
+      totalChunks: 2,
+    };
+
+    test("resumes a truncated translation with the partial result as target strings", async () => {
+      const writeStub = setupRun(["de"], {}, source);
+      mockTranslationService.translateJson.onFirstCall().resolves(truncated);
+      mockTranslationService.translateJson.onSecondCall().resolves({
+        translations: '{"hello": "Hallo", "bye": "Tschüss"}',
+        usage: { charsUsed: 3 },
+        finishReason: "stop",
+        remainingBalance: 1000,
+      });
+
+      await translate();
+
+      const followUp = mockTranslationService.translateJson.secondCall.args[0];
+      assert.strictEqual(followUp.translateOnlyNewStrings, true);
+      assert.ok(mockTranslationService.translateJson.secondCall.args[1].onProgress);
+      assert.strictEqual(followUp.targetStrings, '{"hello": "Hallo"}');
+      assert.strictEqual(writeStub.firstCall.args[1], '{"hello": "Hallo", "bye": "Tschüss"}');
+    });
+
+    test("counts the chunks of the truncated result as done when resuming", async () => {
+      setupRun(["de"], {}, source);
+      const progressReport = sinon.stub();
+      (vscode.window.withProgress as sinon.SinonStub).callsFake(async (_options, callback) =>
+        callback({ report: progressReport }, { onCancellationRequested: sinon.stub() })
+      );
+      mockTranslationService.translateJson.onFirstCall().callsFake(async (_request: any, options: any) => {
+        options.onProgress({ completedChunks: 1, totalChunks: 2 });
+        return truncated;
+      });
+      mockTranslationService.translateJson.onSecondCall().callsFake(async (_request: any, options: any) => {
+        options.onProgress({ completedChunks: 1, totalChunks: 1 });
+        return { translations: '{"hello": "Hallo", "bye": "Tschüss"}', usage: { charsUsed: 3 }, finishReason: "stop" };
+      });
+
+      await translate();
+
+      assert.ok(progressReport.calledWith({ increment: 50, message: "Translated 1/2 chunks" }));
+      assert.ok(progressReport.calledWith({ increment: 50, message: "Translated 2/2 chunks" }));
+    });
+
+    test("reports the keys still missing after the last follow-up request", async () => {
+      const writeStub = setupRun(["de"], {}, source);
+      mockTranslationService.translateJson.resolves(truncated);
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage");
+
+      await translate();
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      assert.strictEqual(mockTranslationService.translateJson.callCount, 4);
+      assert.strictEqual(writeStub.firstCall.args[1], '{"hello": "Hallo"}');
+      assert.ok(warningStub.calledWith(sinon.match(/1 key\(s\) are still missing from de\.json: bye\./)));
+    });
+  });
+
+  suite("Translation Memory", () => {
+    const source = '{"hello": "Hello", "bye": "Bye"}';
+    let mockTranslationMemory: any;
+
+    setup(() => {
+      mockTranslationMemory = {
+        getFilePath: sinon.stub().returns("/memory.json"),
+        lookup: sinon.stub().returns(new Map([["Hello", "Hallo"]])),
+        add: sinon.stub(),
+      };
+      mockTranslationService.translationMemory = mockTranslationMemory;
+    });
+
+    test("sends remembered strings as target strings and remembers new translations", async () => {
+      setupRun(["de"], {}, source);
+      mockTranslationService.translateJson.resolves({
+        translations: '{"hello": "Hallo", "bye": "Tschüss"}',
+        usage: { charsUsed: 3 },
+        remainingBalance: 1000,
+      });
+
+      await translate();
+
+      const request = mockTranslationService.translateJson.firstCall.args[0];
+      assert.strictEqual(request.translateOnlyNewStrings, true);
+      assert.deepStrictEqual(JSON.parse(request.targetStrings), { hello: "Hallo" });
+      assert.deepStrictEqual(mockTranslationMemory.lookup.firstCall.args[2], ["Hello", "Bye"]);
+      const [memoryPath, scope, translations] = mockTranslationMemory.add.firstCall.args;
+      assert.strictEqual(memoryPath, "/memory.json");
+      assert.deepStrictEqual(scope, {
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        useContractions: true,
+        useShortening: false,
+      });
+      assert.deepStrictEqual(translations, new Map([["Bye", "Tschüss"]]));
+    });
+
+    test("doesn't send a request when every string is remembered", async () => {
+      const writeStub = setupRun(["de"]);
+
+      await translate();
+
+      assert.ok(!mockTranslationService.translateJson.called);
+      assert.deepStrictEqual(JSON.parse(writeStub.firstCall.args[1]), { hello: "Hallo" });
+    });
+  });
+
+  suite("Glossary", () => {
+    // Translates with the glossary /test/l10n.glossary.json
+    const setupGlossary = (sourceContent: string) => {
+      const writeStub = setupRun(["de"], {}, sourceContent);
+      const fs = require("fs");
+      (fs.readFileSync as sinon.SinonStub)
+        .withArgs("/test/l10n.glossary.json")
+        .returns(JSON.stringify({ doNotTranslate: ["Acme"], terms: { Workspace: { de: "Arbeitsbereich" } } }));
+      sinon.stub(fs, "statSync").callsFake((filePath: any) =>
+        filePath === "/test/l10n.glossary.json" ? { isFile: () => true } : undefined
+      );
+      return writeStub;
+    };
+
+    test("sends glossary terms as placeholders and writes their translations", async () => {
+      const writeStub = setupGlossary('{"title": "Acme Workspace"}');
+      mockTranslationService.translateJson.resolves({
+        translations: '{"title": "{glossary_0} von {glossary_1}"}',
+        usage: { charsUsed: 5 },
+        remainingBalance: 1000,
+      });
+
+      await translate();
+
+      const request = mockTranslationService.translateJson.firstCall.args[0];
+      assert.deepStrictEqual(JSON.parse(request.sourceStrings), { title: "{glossary_1} {glossary_0}" });
+      assert.deepStrictEqual(JSON.parse(writeStub.firstCall.args[1]), { title: "Arbeitsbereich von Acme" });
+    });
+
+    test("warns about keys that don't follow the glossary", async () => {
+      setupGlossary('{"title": "Acme Workspace", "hello": "Hello"}');
+      mockTranslationService.translateJson.resolves({
+        translations: '{"title": "Akme Arbeitsplatz", "hello": "Hallo"}',
+        usage: { charsUsed: 5 },
+        remainingBalance: 1000,
+      });
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+
+      await translate();
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      assert.ok(warningStub.calledWith(sinon.match(/1 key\(s\) translated to de in de\.json don't follow the glossary: title\./)));
+    });
+  });
+
+  suite("Placeholder Validation", () => {
+    const source = '{"items": "{count} items", "hello": "Hello"}';
+    const broken = { translations: '{"items": "{compte} éléments", "hello": "Bonjour"}', usage: { charsUsed: 5 }, remainingBalance: 1000 };
+    const fixed = { translations: '{"items": "{count} éléments", "hello": "Bonjour"}', usage: { charsUsed: 2 }, remainingBalance: 1000 };
+
+    test("writes the file and warns about keys with placeholder mismatches", async () => {
+      const writeStub = setupRun(["fr"], {}, source);
+      mockTranslationService.translateJson.resolves(broken);
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+
+      await translate();
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      assert.strictEqual(mockTranslationService.translateJson.callCount, 1);
+      assert.strictEqual(getWrittenLocaleFiles(writeStub).length, 1);
+      assert.ok(warningStub.calledWith(sinon.match(/1 key\(s\) translated to fr in fr\.json have different placeholders than the source: items\./)));
+    });
+
+    test("translates the keys with mismatches again", async () => {
+      const writeStub = setupRun(["fr"], { placeholderMismatchAction: "retranslate" }, source);
+      mockTranslationService.translateJson.onFirstCall().resolves(broken);
+      mockTranslationService.translateJson.onSecondCall().resolves(fixed);
+
+      await translate();
+
+      const retry = mockTranslationService.translateJson.secondCall.args[0];
+      assert.strictEqual(retry.translateOnlyNewStrings, true);
+      assert.deepStrictEqual(JSON.parse(retry.targetStrings), { hello: "Bonjour" });
+      assert.strictEqual(writeStub.firstCall.args[1], fixed.translations);
+    });
+
+    test("doesn't write the file with doNotWrite", async () => {
+      const writeStub = setupRun(["fr"], { placeholderMismatchAction: "doNotWrite" }, source);
+      mockTranslationService.translateJson.resolves(broken);
+      (vscode.window.showErrorMessage as sinon.SinonStub).resolves(undefined);
+
+      await translate();
+
+      assert.ok(!writeStub.called);
+      assert.ok(
+        (vscode.window.showErrorMessage as sinon.SinonStub).calledWith(
+          sinon.match(/Translation to fr failed: 1 key\(s\) have placeholder mismatches, fr\.json was not written/)
+        )
+      );
+    });
+  });
+
+  suite("Changed Source Strings", () => {
+    const source = '{"hello": "Hello again", "bye": "Bye"}';
+    const getFingerprint = (value: string) => require("crypto").createHash("sha256").update(value).digest("hex").slice(0, 16);
+
+    // Updates /test/de.json, which was translated when hello was "Hello"
+    const setupChangedSource = (pickedKeys: string[] | undefined) => {
+      const writeStub = setupRun(["de"], {}, source);
+      const fs = require("fs");
+      (fs.existsSync as sinon.SinonStub).returns(true);
+      (fs.readFileSync as sinon.SinonStub).withArgs("/test/de.json").returns('{"hello": "Hallo", "bye": "Tschüss"}');
+      (fs.readFileSync as sinon.SinonStub)
+        .withArgs("/test/en.json.l10n.lock")
+        .returns(JSON.stringify({ version: 1, languages: { de: { bye: getFingerprint("Bye"), hello: getFingerprint("Hello") } } }));
+      const quickPickStub = sinon.stub(vscode.window, "showQuickPick");
+      quickPickStub.onFirstCall().callsFake(async (items: any) => items.find((item: any) => item.value === "update"));
+      quickPickStub.onSecondCall().callsFake(async (items: any) =>
+        pickedKeys && items.filter((item: any) => pickedKeys.includes(item.label))
+      );
+      return { writeStub, quickPickStub };
+    };
+
+    test("translates the selected keys whose source text changed again", async () => {
+      const { writeStub, quickPickStub } = setupChangedSource(["hello"]);
+      mockTranslationService.translateJson.resolves({ translations: '{"hello": "Hallo nochmal", "bye": "Tschüss"}', usage: { charsUsed: 11 }, remainingBalance: 1000 });
+
+      await translate();
+
+      assert.deepStrictEqual(quickPickStub.secondCall.args[0], [{ label: "hello", description: "de", picked: true }]);
+      assert.deepStrictEqual(JSON.parse(mockTranslationService.translateJson.firstCall.args[0].targetStrings), { bye: "Tschüss" });
+      const lockWrite = writeStub.getCalls().find((call) => call.args[0] === "/test/en.json.l10n.lock")!;
+      assert.strictEqual(JSON.parse(lockWrite.args[1]).languages.de.hello, getFingerprint("Hello again"));
+    });
+
+    test("keeps the translations of unselected keys", async () => {
+      setupChangedSource([]);
+      mockTranslationService.translateJson.resolves({ translations: '{"hello": "Hallo", "bye": "Tschüss"}', usage: { charsUsed: 0 }, remainingBalance: 1000 });
+
+      await translate();
+
+      assert.deepStrictEqual(JSON.parse(mockTranslationService.translateJson.firstCall.args[0].targetStrings), { hello: "Hallo", bye: "Tschüss" });
+    });
+
+    test("cancels the run when the list of changed keys is dismissed", async () => {
+      setupChangedSource(undefined);
+
+      await translate();
+
+      assert.ok(!mockTranslationService.translateJson.called);
+    });
+  });
+
+  suite("Locked Translations", () => {
+    const source = '{"hello": "Hello", "bye": "Bye"}';
+
+    // Translates /test/de.json, whose reviewed translation of hello is locked
+    const setupLocked = (choice: "update" | "create") => {
+      const writeStub = setupRun(["de"], {}, source);
+      const fs = require("fs");
+      (fs.existsSync as sinon.SinonStub).returns(true);
+      (fs.readFileSync as sinon.SinonStub).withArgs("/test/de.json").returns('{"hello": "Hallo!", "bye": "Tschüss"}');
+      (fs.readFileSync as sinon.SinonStub)
+        .withArgs("/test/en.json.l10n.lock")
+        .returns(JSON.stringify({ version: 1, languages: {}, locked: { de: ["hello"] } }));
+      sinon.stub(vscode.window, "showQuickPick").callsFake(async (items: any) => items.find((item: any) => item.value === choice));
+      mockTranslationService.translateJson.resolves({ translations: '{"hello": "Hallo", "bye": "Auf Wiedersehen"}', usage: { charsUsed: 5 }, remainingBalance: 1000 });
+      return writeStub;
+    };
+    const getWrittenTranslation = (writeStub: sinon.SinonStub) =>
+      JSON.parse(writeStub.getCalls().find((call) => call.args[0] === "/test/de.json")!.args[1]);
+
+    test("never replaces a locked translation when updating", async () => {
+      const writeStub = setupLocked("update");
+
+      await translate();
+
+      assert.deepStrictEqual(getWrittenTranslation(writeStub), { hello: "Hallo!", bye: "Auf Wiedersehen" });
+    });
+
+    test("sends locked translations as existing translations of a new file", async () => {
+      const writeStub = setupLocked("create");
+
+      await translate();
+
+      const request = mockTranslationService.translateJson.firstCall.args[0];
+      assert.strictEqual(request.translateOnlyNewStrings, true);
+      assert.deepStrictEqual(JSON.parse(request.targetStrings), { hello: "Hallo!" });
+      assert.deepStrictEqual(getWrittenTranslation(writeStub), { hello: "Hallo!", bye: "Auf Wiedersehen" });
+    });
+  });
 });
@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  findChangedSourceKeys,
+  getLockedKeys,
+  getLockFilePath,
+  getUnreviewedKeys,
+  isKeyLocked,
+  recordSourceFingerprints,
+  setKeysLocked,
+} from "../translationLock";
+
+suite("Translation Lock Test Suite", () => {
+  let tempDir: string;
+  let sourceFilePath: string;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "l10n-lock-"));
+    sourceFilePath = path.join(tempDir, "en.json");
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("writes the lock file next to the source file", () => {
+    assert.strictEqual(
+      getLockFilePath(sourceFilePath),
+      path.join(tempDir, "en.json.l10n.lock")
+    );
+  });
+
+  test("finds the keys whose source text changed since their translation", () => {
+    const source = JSON.stringify({
+      title: "Welcome",
+      items_one: "One item",
+      items_other: "{count} items",
+    });
+    const translations = JSON.stringify({
+      title: "Willkommen",
+      items_one: "Ein Eintrag",
+      items_other: "{count} Einträge",
+    });
+    recordSourceFingerprints(sourceFilePath, "de", source, translations, [
+      "title",
+      "items_one",
+      "items_other",
+    ]);
+
+    const changed = JSON.stringify({
+      title: "Welcome back",
+      items_one: "One item",
+      items_other: "{count} entries",
+    });
+    assert.deepStrictEqual(
+      findChangedSourceKeys(sourceFilePath, "de", changed, translations),
+      ["title", "items"]
+    );
+    assert.deepStrictEqual(
+      findChangedSourceKeys(sourceFilePath, "fr", changed, translations),
+      []
+    );
+  });
+
+  test("keeps the fingerprints of strings that weren't translated", () => {
+    const translations = JSON.stringify({
+      title: "Willkommen",
+      bye: "Tschüss",
+    });
+    recordSourceFingerprints(
+      sourceFilePath,
+      "de",
+      JSON.stringify({ title: "Welcome", bye: "Bye" }),
+      translations,
+      ["title", "bye"]
+    );
+
+    // The change of title was declined, only bye was translated again
+    const source = JSON.stringify({ title: "Welcome back", bye: "Goodbye" });
+    recordSourceFingerprints(sourceFilePath, "de", source, translations, [
+      "bye",
+    ]);
+
+    assert.deepStrictEqual(
+      findChangedSourceKeys(sourceFilePath, "de", source, translations),
+      ["title"]
+    );
+  });
+
+  test("does not overwrite a lock file that can't be read", () => {
+    const lockPath = getLockFilePath(sourceFilePath);
+    fs.writeFileSync(lockPath, "<<<<<<< HEAD", "utf8");
+
+    recordSourceFingerprints(
+      sourceFilePath,
+      "de",
+      JSON.stringify({ title: "Welcome" }),
+      JSON.stringify({ title: "Willkommen" }),
+      ["title"]
+    );
+
+    assert.strictEqual(fs.readFileSync(lockPath, "utf8"), "<<<<<<< HEAD");
+  });
+
+  suite("Locked Translations", () => {
+    const source = JSON.stringify({ title: "Welcome", bye: "Bye" });
+    const translations = JSON.stringify({
+      title: "Willkommen",
+      bye: "Tschüss",
+    });
+
+    test("locks and unlocks keys of a language", () => {
+      setKeysLocked(sourceFilePath, "de", ["title", "bye"], true);
+      setKeysLocked(sourceFilePath, "de", ["bye"], false);
+
+      assert.deepStrictEqual(getLockedKeys(sourceFilePath, "de"), ["title"]);
+      assert.deepStrictEqual(getLockedKeys(sourceFilePath, "fr"), []);
+    });
+
+    test("locks every key of a language with *", () => {
+      assert.ok(isKeyLocked(["*"], "title"));
+      assert.ok(isKeyLocked(["title"], "title"));
+      assert.ok(!isKeyLocked(["title"], "bye"));
+    });
+
+    test("lists machine translations that aren't locked", () => {
+      recordSourceFingerprints(sourceFilePath, "de", source, translations, [
+        "title",
+        "bye",
+      ]);
+      recordSourceFingerprints(sourceFilePath, "fr", source, translations, [
+        "title",
+      ]);
+      setKeysLocked(sourceFilePath, "de", ["title"], true);
+      setKeysLocked(sourceFilePath, "fr", ["*"], true);
+
+      assert.deepStrictEqual(
+        getUnreviewedKeys(sourceFilePath),
+        new Map([["de", ["bye"]]])
+      );
+    });
+
+    test("doesn't offer locked keys whose source text changed", () => {
+      recordSourceFingerprints(sourceFilePath, "de", source, translations, [
+        "title",
+        "bye",
+      ]);
+      setKeysLocked(sourceFilePath, "de", ["title"], true);
+
+      const changed = JSON.stringify({ title: "Welcome back", bye: "Goodbye" });
+      assert.deepStrictEqual(
+        findChangedSourceKeys(sourceFilePath, "de", changed, translations),
+        ["bye"]
+      );
+    });
+
+    test("throws instead of overwriting a lock file that can't be read", () => {
+      fs.writeFileSync(getLockFilePath(sourceFilePath), "<<<<<<< HEAD", "utf8");
+
+      assert.throws(
+        () => setKeysLocked(sourceFilePath, "de", ["title"], true),
+        /en\.json\.l10n\.lock can't be read/
+      );
+    });
+  });
+});
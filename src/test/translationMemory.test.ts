@@ -0,0 +1,115 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { TranslationMemory } from "../translationMemory";
+
+suite("Translation Memory Test Suite", () => {
+  let storagePath: string;
+  let memoryPath: string;
+  let memory: TranslationMemory;
+  const scope = {
+    sourceLanguage: "en",
+    targetLanguage: "de",
+    useContractions: true,
+    useShortening: false,
+  };
+
+  setup(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), "l10n-memory-"));
+    memoryPath = path.join(storagePath, "translation-memory.json");
+    memory = new TranslationMemory(storagePath);
+  });
+
+  teardown(() => {
+    sinon.restore();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  test("returns remembered translations of the same languages and options", () => {
+    memory.add(
+      memoryPath,
+      scope,
+      new Map([
+        ["Hello", "Hallo"],
+        ["Bye", "Tschüss"],
+      ])
+    );
+
+    assert.deepStrictEqual(
+      memory.lookup(memoryPath, scope, ["Hello", "Welcome"]),
+      new Map([["Hello", "Hallo"]])
+    );
+    assert.strictEqual(
+      memory.lookup(memoryPath, { ...scope, targetLanguage: "fr" }, ["Hello"])
+        .size,
+      0
+    );
+    assert.strictEqual(
+      memory.lookup(memoryPath, { ...scope, useShortening: true }, ["Hello"])
+        .size,
+      0
+    );
+  });
+
+  test("replaces the translation of a source string", () => {
+    memory.add(memoryPath, scope, new Map([["Hello", "Hallo"]]));
+    memory.add(memoryPath, scope, new Map([["Hello", "Guten Tag"]]));
+
+    const entries = memory.getEntries(memoryPath);
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].translation, "Guten Tag");
+  });
+
+  test("doesn't overwrite a memory file that can't be read", () => {
+    fs.writeFileSync(memoryPath, "<<<<<<< HEAD", "utf8");
+
+    memory.add(memoryPath, scope, new Map([["Hello", "Hallo"]]));
+
+    assert.strictEqual(fs.readFileSync(memoryPath, "utf8"), "<<<<<<< HEAD");
+    assert.strictEqual(memory.lookup(memoryPath, scope, ["Hello"]).size, 0);
+  });
+
+  test("clears the memory", () => {
+    memory.add(memoryPath, scope, new Map([["Hello", "Hallo"]]));
+
+    memory.clear(memoryPath);
+
+    assert.deepStrictEqual(memory.getEntries(memoryPath), []);
+  });
+
+  suite("getFilePath", () => {
+    const setLocation = (location: string) =>
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: sinon.stub().returns(location),
+      } as any);
+    const uri = { fsPath: "/project/locales/en.json" } as vscode.Uri;
+
+    setup(() => {
+      sinon
+        .stub(vscode.workspace, "getWorkspaceFolder")
+        .returns({ uri: { fsPath: "/project" } } as any);
+    });
+
+    test("uses the extension storage by default", () => {
+      setLocation("user");
+      assert.strictEqual(memory.getFilePath(uri), memoryPath);
+    });
+
+    test("uses the workspace folder of the file for a shared memory", () => {
+      setLocation("workspace");
+      assert.strictEqual(
+        memory.getFilePath(uri),
+        path.join("/project", ".l10n", "translation-memory.json")
+      );
+    });
+
+    test("returns undefined when the memory is off", () => {
+      setLocation("off");
+      assert.strictEqual(memory.getFilePath(uri), undefined);
+    });
+  });
+});
@@ -189,6 +189,49 @@ suite("L10nTranslationService Test Suite", () => {
       assert.strictEqual(requestBody.useShortening, true);
     });
 
+    test("translateJson remembers the remaining balance", async () => {
+      const globalState = { get: sinon.stub(), update: sinon.stub().resolves() };
+      service = new L10nTranslationService(mockApiKeyManager, globalState);
+      mockApiKeyManager.getApiKey.resolves("valid-api-key");
+      mockFetch.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          translations: "{}",
+          usage: { charsUsed: 10 },
+          remainingBalance: 4990,
+        }),
+      });
+
+      await service.translateJson({ sourceStrings: "{}", targetLanguageCode: "es" });
+
+      assert.ok(
+        globalState.update.calledWith("l10n-translate-i18n.remainingBalance", 4990)
+      );
+      globalState.get.returns(4990);
+      assert.strictEqual(service.remainingBalance, 4990);
+    });
+
+    test("translateJson reports the translated chunks", async () => {
+      mockApiKeyManager.getApiKey.resolves("valid-api-key");
+      mockFetch.resolves({
+        ok: true,
+        json: sinon.stub().resolves({
+          translations: "{}",
+          usage: { charsUsed: 10 },
+          completedChunks: 3,
+          totalChunks: 4,
+        }),
+      });
+      const onProgress = sinon.stub();
+
+      await service.translateJson(
+        { sourceStrings: "{}", targetLanguageCode: "es" },
+        { onProgress }
+      );
+
+      assert.ok(onProgress.calledOnceWith({ completedChunks: 3, totalChunks: 4 }));
+    });
+
     test("translateJson handles 400 Bad Request error", async () => {
       const apiKey = "valid-api-key";
       mockApiKeyManager.getApiKey.resolves(apiKey);
@@ -396,6 +439,127 @@ suite("L10nTranslationService Test Suite", () => {
         /An internal server error occurred \(Error code: unknown\)/
       );
     });
+
+    test("throws a cancellation error when the request is aborted", async () => {
+      mockApiKeyManager.getApiKey.resolves("valid-api-key");
+      const abortController = new AbortController();
+      abortController.abort();
+      const abortError = new Error("This operation was aborted");
+      abortError.name = "AbortError";
+      mockFetch.rejects(abortError);
+
+      await assert.rejects(
+        async () =>
+          await service.translateJson(
+            {
+              sourceStrings: {},
+              targetLanguageCode: "es",
+              useContractions: false,
+              useShortening: false,
+            },
+            { signal: abortController.signal }
+          ),
+        translationServiceModule.TranslationCancelledError
+      );
+      assert.strictEqual(
+        mockFetch.getCall(0).args[1].signal,
+        abortController.signal
+      );
+    });
+  });
+
+  suite("Retries", () => {
+    const request = {
+      sourceStrings: "{}",
+      targetLanguageCode: "es",
+      returnTranslationsAsString: true,
+      client: "vscode-extension",
+    };
+    const errorResponse = (status: number, retryAfter: string | null = null) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: { get: sinon.stub().withArgs("Retry-After").returns(retryAfter) },
+      json: sinon.stub().resolves({}),
+    });
+    const successResponse = {
+      ok: true,
+      status: 200,
+      json: sinon.stub().resolves({ translations: "{}", usage: { charsUsed: 0 } }),
+    };
+
+    setup(() => {
+      mockApiKeyManager.getApiKey.resolves("valid-api-key");
+    });
+
+    test("retries a rate limited request after the Retry-After delay", async () => {
+      mockFetch.onFirstCall().resolves(errorResponse(429, "0"));
+      mockFetch.onSecondCall().resolves(successResponse);
+
+      const result = await service.translateJson(request, { maxRetries: 3 });
+
+      assert.strictEqual(mockFetch.callCount, 2);
+      assert.strictEqual(result.translations, "{}");
+    });
+
+    test("waits at most 60 seconds for a long Retry-After", async () => {
+      const clock = sinon.useFakeTimers();
+      try {
+        mockFetch.onFirstCall().resolves(errorResponse(503, "3600"));
+        mockFetch.onSecondCall().resolves(successResponse);
+
+        const promise = service.translateJson(request, { maxRetries: 3 });
+        await clock.tickAsync(59999);
+        assert.strictEqual(mockFetch.callCount, 1);
+        await clock.tickAsync(1);
+        assert.strictEqual(mockFetch.callCount, 2);
+        assert.strictEqual((await promise).translations, "{}");
+      } finally {
+        clock.restore();
+      }
+    });
+
+    test("backs off exponentially after server and network errors", async () => {
+      // The largest jitter, so the delays are 1s and then 2s
+      sinon.stub(Math, "random").returns(1);
+      const clock = sinon.useFakeTimers();
+      try {
+        mockFetch.onFirstCall().resolves(errorResponse(503));
+        mockFetch.onSecondCall().rejects(new TypeError("fetch failed"));
+        mockFetch.onThirdCall().resolves(successResponse);
+
+        const promise = service.translateJson(request, { maxRetries: 3 });
+        await clock.tickAsync(999);
+        assert.strictEqual(mockFetch.callCount, 1);
+        await clock.tickAsync(1);
+        assert.strictEqual(mockFetch.callCount, 2);
+        await clock.tickAsync(2000);
+        assert.strictEqual(mockFetch.callCount, 3);
+        assert.strictEqual((await promise).translations, "{}");
+      } finally {
+        clock.restore();
+      }
+    });
+
+    test("fails after the last retry", async () => {
+      mockFetch.resolves(errorResponse(500, "0"));
+
+      await assert.rejects(
+        async () => await service.translateJson(request, { maxRetries: 2 }),
+        /internal server error/
+      );
+      assert.strictEqual(mockFetch.callCount, 3);
+    });
+
+    test("does not retry client errors", async () => {
+      mockFetch.resolves(errorResponse(401, "0"));
+
+      await assert.rejects(
+        async () => await service.translateJson(request, { maxRetries: 2 }),
+        /Unauthorized/
+      );
+      assert.strictEqual(mockFetch.callCount, 1);
+    });
   });
 
   suite("Finish Reason Handling", () => {
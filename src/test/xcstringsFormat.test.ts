@@ -0,0 +1,208 @@
+import * as assert from "assert";
+
+import { XcstringsFormatHandler } from "../xcstringsFormat";
+
+const CATALOG = {
+  sourceLanguage: "en",
+  strings: {
+    "Hello, %@!": {
+      comment: "Greeting on the home screen",
+    },
+    "%lld items": {
+      localizations: {
+        en: {
+          variations: {
+            plural: {
+              one: { stringUnit: { state: "translated", value: "%lld item" } },
+              other: {
+                stringUnit: { state: "translated", value: "%lld items" },
+              },
+            },
+          },
+        },
+      },
+    },
+    settings_title: {
+      localizations: {
+        de: { stringUnit: { state: "translated", value: "Einstellungen" } },
+        en: { stringUnit: { state: "translated", value: "Settings" } },
+        fr: { stringUnit: { state: "new", value: "" } },
+      },
+    },
+    AppName: {
+      shouldTranslate: false,
+    },
+  },
+  version: "1.0",
+};
+
+suite("XcstringsFormatHandler Test Suite", () => {
+  let handler: XcstringsFormatHandler;
+  let content: string;
+
+  setup(() => {
+    handler = new XcstringsFormatHandler();
+    content = JSON.stringify(CATALOG, null, 2);
+  });
+
+  test("stores all languages in the source file", () => {
+    assert.strictEqual(handler.storesAllLanguages, true);
+  });
+
+  suite("toJson", () => {
+    test("reads source strings, plural variations and comments", () => {
+      const json = JSON.parse(handler.toJson(content));
+
+      assert.deepStrictEqual(json, {
+        "Hello, %@! (Greeting on the home screen)": "Hello, %@!",
+        "%lld items_one": "%lld item",
+        "%lld items_other": "%lld items",
+        settings_title: "Settings",
+      });
+    });
+  });
+
+  suite("readTargetStrings", () => {
+    test("returns only translated localizations of the language", () => {
+      assert.deepStrictEqual(
+        JSON.parse(handler.readTargetStrings(content, "de")),
+        { settings_title: "Einstellungen" }
+      );
+      assert.deepStrictEqual(
+        JSON.parse(handler.readTargetStrings(content, "fr")),
+        {}
+      );
+    });
+  });
+
+  suite("fromJson", () => {
+    test("adds string units and plural variations in place", () => {
+      const translations = JSON.stringify({
+        "Hello, %@! (Greeting on the home screen)": "Bonjour, %@ !",
+        "%lld items_one": "%lld élément",
+        "%lld items_many": "%lld d'éléments",
+        "%lld items_other": "%lld éléments",
+        settings_title: "Réglages",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: content,
+        targetLanguage: "fr",
+      });
+      const catalog = JSON.parse(output);
+
+      assert.deepStrictEqual(catalog.strings["Hello, %@!"].localizations, {
+        fr: { stringUnit: { state: "translated", value: "Bonjour, %@ !" } },
+      });
+      assert.deepStrictEqual(
+        catalog.strings["%lld items"].localizations.fr.variations.plural,
+        {
+          one: { stringUnit: { state: "translated", value: "%lld élément" } },
+          many: {
+            stringUnit: { state: "translated", value: "%lld d'éléments" },
+          },
+          other: {
+            stringUnit: { state: "translated", value: "%lld éléments" },
+          },
+        }
+      );
+      assert.deepStrictEqual(
+        Object.keys(catalog.strings.settings_title.localizations),
+        ["de", "en", "fr"]
+      );
+      assert.strictEqual(
+        catalog.strings.settings_title.localizations.fr.stringUnit.value,
+        "Réglages"
+      );
+      assert.deepStrictEqual(catalog.strings.AppName, {
+        shouldTranslate: false,
+      });
+    });
+
+    test("keeps existing translations and marks new ones for review", () => {
+      const output = handler.fromJson(
+        JSON.stringify({ settings_title: "Konfiguration" }),
+        { sourceContent: content, targetLanguage: "de", markForReview: true }
+      );
+      const catalog = JSON.parse(output);
+
+      assert.deepStrictEqual(
+        catalog.strings.settings_title.localizations.de.stringUnit,
+        { state: "translated", value: "Einstellungen" }
+      );
+
+      const reviewOutput = handler.fromJson(
+        JSON.stringify({ settings_title: "Impostazioni" }),
+        { sourceContent: content, targetLanguage: "it", markForReview: true }
+      );
+      assert.deepStrictEqual(
+        JSON.parse(reviewOutput).strings.settings_title.localizations.it
+          .stringUnit,
+        { state: "needs_review", value: "Impostazioni" }
+      );
+    });
+
+    test("replaces existing translations of replaced keys", () => {
+      const output = handler.fromJson(
+        JSON.stringify({ settings_title: "Konfiguration" }),
+        {
+          sourceContent: content,
+          targetLanguage: "de",
+          replacedKeys: ["settings_title"],
+        }
+      );
+
+      assert.deepStrictEqual(
+        JSON.parse(output).strings.settings_title.localizations.de.stringUnit,
+        { state: "translated", value: "Konfiguration" }
+      );
+    });
+
+    test("writes the catalog in Xcode's JSON style", () => {
+      const source = [
+        "{",
+        '  "sourceLanguage" : "en",',
+        '  "strings" : {',
+        '    "" : {',
+        "",
+        "    },",
+        '    "Done" : {',
+        "",
+        "    }",
+        "  },",
+        '  "version" : "1.0"',
+        "}",
+      ].join("\n");
+
+      const output = handler.fromJson(JSON.stringify({ Done: "Fertig" }), {
+        sourceContent: source,
+        targetLanguage: "de",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "{",
+          '  "sourceLanguage" : "en",',
+          '  "strings" : {',
+          '    "" : {',
+          "",
+          "    },",
+          '    "Done" : {',
+          '      "localizations" : {',
+          '        "de" : {',
+          '          "stringUnit" : {',
+          '            "state" : "translated",',
+          '            "value" : "Fertig"',
+          "          }",
+          "        }",
+          "      }",
+          "    }",
+          "  },",
+          '  "version" : "1.0"',
+          "}",
+        ].join("\n")
+      );
+    });
+  });
+});
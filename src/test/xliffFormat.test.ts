@@ -0,0 +1,261 @@
+import * as assert from "assert";
+
+import { XliffFormatHandler } from "../xliffFormat";
+
+const XLIFF_12 = [
+  '<?xml version="1.0" encoding="UTF-8" ?>',
+  '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+  '  <file source-language="en" datatype="plaintext" original="ng2.template">',
+  "    <body>",
+  '      <trans-unit id="greeting" datatype="html">',
+  '        <source>Hello, <x id="INTERPOLATION" equiv-text="{{ name }}"/>!</source>',
+  '        <context-group purpose="location">',
+  '          <context context-type="sourcefile">src/app/app.component.html</context>',
+  "        </context-group>",
+  '        <note priority="1" from="description">Greeting on the home page</note>',
+  '        <note priority="1" from="location">app.component.html</note>',
+  "      </trans-unit>",
+  '      <trans-unit id="terms" datatype="html">',
+  '        <source>Terms &amp; <ph id="0">&lt;b&gt;</ph>conditions</source>',
+  "      </trans-unit>",
+  "    </body>",
+  "  </file>",
+  "</xliff>",
+  "",
+].join("\n");
+
+const XLIFF_20 = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en">',
+  '  <file id="f1">',
+  '    <unit id="welcome">',
+  "      <segment>",
+  "        <source>Welcome</source>",
+  "      </segment>",
+  "    </unit>",
+  '    <unit id="steps">',
+  "      <segment>",
+  "        <source>First step.</source>",
+  "      </segment>",
+  "      <ignorable>",
+  "        <source> </source>",
+  "      </ignorable>",
+  "      <segment>",
+  '        <source>Click <ph id="1"/> to continue.</source>',
+  "      </segment>",
+  "    </unit>",
+  "  </file>",
+  "</xliff>",
+  "",
+].join("\n");
+
+suite("XliffFormatHandler Test Suite", () => {
+  let handler: XliffFormatHandler;
+
+  setup(() => {
+    handler = new XliffFormatHandler();
+  });
+
+  suite("toJson", () => {
+    test("keys XLIFF 1.2 units by id and notes, replacing inline elements", () => {
+      const json = JSON.parse(handler.toJson(XLIFF_12));
+
+      assert.deepStrictEqual(json, {
+        "greeting (Greeting on the home page)": "Hello, {{ph_0}}!",
+        terms: "Terms & {{ph_0}}conditions",
+      });
+    });
+
+    test("keys XLIFF 2.0 segments by unit id and segment position", () => {
+      const json = JSON.parse(handler.toJson(XLIFF_20));
+
+      assert.deepStrictEqual(json, {
+        welcome: "Welcome",
+        "steps#0": "First step.",
+        "steps#1": "Click {{ph_0}} to continue.",
+      });
+    });
+  });
+
+  suite("fromJson", () => {
+    test("inserts XLIFF 1.2 targets and restores inline elements", () => {
+      const translations = JSON.stringify({
+        "greeting (Greeting on the home page)": "Bonjour, {{ph_0}} !",
+        terms: "Termes & {{ph_0}}conditions",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: XLIFF_12,
+        targetLanguage: "fr",
+      });
+
+      assert.ok(
+        output.includes(
+          '<file source-language="en" datatype="plaintext" original="ng2.template" target-language="fr">'
+        )
+      );
+      assert.ok(
+        output.includes(
+          '</source>\n        <target state="translated">Bonjour, <x id="INTERPOLATION" equiv-text="{{ name }}"/> !</target>'
+        )
+      );
+      assert.ok(
+        output.includes(
+          '<target state="translated">Termes &amp; <ph id="0">&lt;b&gt;</ph>conditions</target>'
+        )
+      );
+    });
+
+    test("marks new XLIFF 1.2 targets for review", () => {
+      const output = handler.fromJson(JSON.stringify({ terms: "Termes" }), {
+        sourceContent: XLIFF_12,
+        targetLanguage: "fr",
+        markForReview: true,
+      });
+
+      assert.ok(
+        output.includes(
+          '<target state="needs-review-translation">Termes</target>'
+        )
+      );
+    });
+
+    test("keeps existing final translations when updating a target file", () => {
+      const targetContent = XLIFF_12.replace(
+        "conditions</source>",
+        'conditions</source>\n        <target state="final">Conditions générales</target>'
+      );
+
+      const output = handler.fromJson(JSON.stringify({ terms: "Termes" }), {
+        sourceContent: XLIFF_12,
+        targetLanguage: "fr",
+        targetContent,
+      });
+
+      assert.ok(
+        output.includes('<target state="final">Conditions générales</target>')
+      );
+      assert.ok(!output.includes("Termes"));
+    });
+
+    test("replaces existing translations of replaced keys", () => {
+      const targetContent = XLIFF_12.replace(
+        "conditions</source>",
+        'conditions</source>\n        <target state="final">Conditions générales</target>'
+      );
+
+      const output = handler.fromJson(JSON.stringify({ terms: "Termes" }), {
+        sourceContent: XLIFF_12,
+        targetLanguage: "fr",
+        targetContent,
+        replacedKeys: ["terms"],
+      });
+
+      assert.ok(output.includes('<target state="translated">Termes</target>'));
+      assert.ok(!output.includes("Conditions générales"));
+    });
+
+    test("keeps existing translations of units whose notes were edited", () => {
+      const targetContent = XLIFF_12.replace(
+        "!</source>",
+        '!</source>\n        <target state="final">Bonjour, <x id="INTERPOLATION" equiv-text="{{ name }}"/> !</target>'
+      ).replace("Greeting on the home page", "Checked by the agency");
+
+      const output = handler.fromJson(
+        JSON.stringify({
+          "greeting (Greeting on the home page)": "Salut, {{ph_0}} !",
+        }),
+        { sourceContent: XLIFF_12, targetLanguage: "fr", targetContent }
+      );
+
+      assert.ok(output.includes('<target state="final">Bonjour, '));
+      assert.ok(!output.includes("Salut"));
+    });
+
+    test("writes XLIFF 2.0 targets with trgLang and segment state", () => {
+      const translations = JSON.stringify({
+        welcome: "Willkommen",
+        "steps#0": "Erster Schritt.",
+        "steps#1": "Klicken Sie auf {{ph_0}}, um fortzufahren.",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: XLIFF_20,
+        targetLanguage: "de",
+      });
+
+      assert.ok(output.includes('version="2.0" srcLang="en" trgLang="de">'));
+      assert.ok(
+        output.includes(
+          '<segment state="translated">\n        <source>Welcome</source>\n        <target>Willkommen</target>'
+        )
+      );
+      assert.ok(
+        output.includes(
+          '<target>Klicken Sie auf <ph id="1"/>, um fortzufahren.</target>'
+        )
+      );
+      // Ignorable whitespace between segments is left untouched
+      assert.ok(output.includes("<ignorable>\n        <source> </source>\n"));
+    });
+
+    test("marks new XLIFF 2.0 segments for review and keeps reviewed ones", () => {
+      const targetContent = XLIFF_20.replace(
+        "<segment>\n        <source>Welcome</source>",
+        '<segment state="reviewed">\n        <source>Welcome</source>\n        <target>Willkommen!</target>'
+      );
+
+      const output = handler.fromJson(
+        JSON.stringify({ welcome: "Willkommen", "steps#0": "Erster Schritt." }),
+        {
+          sourceContent: XLIFF_20,
+          targetLanguage: "de",
+          targetContent,
+          markForReview: true,
+        }
+      );
+
+      assert.ok(
+        output.includes(
+          '<segment state="reviewed">\n        <source>Welcome</source>\n        <target>Willkommen!</target>'
+        )
+      );
+      assert.ok(
+        output.includes(
+          '<segment state="translated" subState="l10n:needs-review">\n        <source>First step.</source>\n        <target>Erster Schritt.</target>'
+        )
+      );
+    });
+  });
+
+  suite("readTargetStrings", () => {
+    test("returns only translated targets", () => {
+      const targetContent = XLIFF_12.replace(
+        "!</source>",
+        '!</source>\n        <target state="new">Hello</target>'
+      ).replace(
+        "conditions</source>",
+        'conditions</source>\n        <target state="translated">Termes</target>'
+      );
+
+      const json = JSON.parse(handler.readTargetStrings(targetContent, "fr"));
+
+      assert.deepStrictEqual(json, { terms: "Termes" });
+    });
+
+    test("keys targets like the source when their notes differ", () => {
+      const targetContent = XLIFF_12.replace(
+        "!</source>",
+        '!</source>\n        <target state="translated">Bonjour !</target>'
+      ).replace("Greeting on the home page", "Checked by the agency");
+
+      const json = JSON.parse(
+        handler.readTargetStrings(targetContent, "fr", XLIFF_12)
+      );
+
+      assert.deepStrictEqual(json, {
+        "greeting (Greeting on the home page)": "Bonjour !",
+      });
+    });
+  });
+});
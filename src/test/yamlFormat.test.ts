@@ -0,0 +1,226 @@
+import * as assert from "assert";
+
+import { YamlFormatHandler } from "../yamlFormat";
+
+suite("YamlFormatHandler Test Suite", () => {
+  let handler: YamlFormatHandler;
+
+  setup(() => {
+    handler = new YamlFormatHandler();
+  });
+
+  suite("toJson", () => {
+    test("strips Rails-style language root key", () => {
+      const yaml = "en:\n  greeting: Hello\n  nested:\n    bye: Bye\n";
+
+      const json = JSON.parse(handler.toJson(yaml, "en"));
+
+      assert.deepStrictEqual(json, {
+        greeting: "Hello",
+        nested: { bye: "Bye" },
+      });
+    });
+
+    test("keeps root key when it is not the language code", () => {
+      const yaml = "common:\n  greeting: Hello\n";
+
+      const json = JSON.parse(handler.toJson(yaml, "en"));
+
+      assert.deepStrictEqual(json, { common: { greeting: "Hello" } });
+    });
+
+    test("resolves anchors, aliases and merge keys", () => {
+      const yaml = [
+        "base: &base",
+        "  ok: OK",
+        "dialog:",
+        "  <<: *base",
+        "  title: Title",
+        "label: *base",
+        "",
+      ].join("\n");
+
+      const json = JSON.parse(handler.toJson(yaml));
+
+      assert.deepStrictEqual(json, {
+        base: { ok: "OK" },
+        dialog: { ok: "OK", title: "Title" },
+        label: { ok: "OK" },
+      });
+    });
+
+    test("throws on invalid YAML", () => {
+      assert.throws(() => handler.toJson("a: [1, 2"), /Invalid YAML/);
+    });
+  });
+
+  suite("fromJson", () => {
+    test("renames language root key and preserves comments", () => {
+      const source = [
+        "# Shared strings",
+        "en:",
+        "  greeting: Hello # shown on home page",
+        "  items:",
+        "    - One",
+        "    - Two",
+        "",
+      ].join("\n");
+      const translations = JSON.stringify({
+        greeting: "Bonjour",
+        items: ["Un", "Deux"],
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: source,
+        targetLanguage: "fr",
+        sourceLanguage: "en",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "# Shared strings",
+          "fr:",
+          "  greeting: Bonjour # shown on home page",
+          "  items:",
+          "    - Un",
+          "    - Deux",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps comments and order of the existing target file", () => {
+      const source = [
+        "en:",
+        "  greeting: Hello",
+        "  farewell: Bye",
+        "  title: Title",
+        "",
+      ].join("\n");
+      const targetContent = [
+        "fr:",
+        "  # Reviewed by the French team",
+        "  farewell: Au revoir",
+        "  greeting: Bonjour",
+        "  removed: Supprimé",
+        "",
+      ].join("\n");
+      const translations = JSON.stringify({
+        greeting: "Bonjour",
+        farewell: "Au revoir",
+        title: "Titre",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: source,
+        targetLanguage: "fr",
+        sourceLanguage: "en",
+        targetContent,
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "fr:",
+          "  # Reviewed by the French team",
+          "  farewell: Au revoir",
+          "  greeting: Bonjour",
+          "  title: Titre",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("uses the source document when the target file is empty", () => {
+      const output = handler.fromJson(JSON.stringify({ greeting: "Hola" }), {
+        sourceContent: "# Home page\ngreeting: Hello\n",
+        targetLanguage: "es",
+        targetContent: "",
+      });
+
+      assert.strictEqual(output, "# Home page\ngreeting: Hola\n");
+    });
+
+    test("translates anchors in place and keeps aliases", () => {
+      const source = [
+        "ok: &ok OK",
+        "dialog:",
+        "  confirm: *ok",
+        "  cancel: Cancel",
+        "",
+      ].join("\n");
+      const translations = JSON.stringify({
+        ok: "Vale",
+        dialog: { confirm: "Vale", cancel: "Cancelar" },
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: source,
+        targetLanguage: "es",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "ok: &ok Vale",
+          "dialog:",
+          "  confirm: *ok",
+          "  cancel: Cancelar",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("keeps non-string values and adds generated keys", () => {
+      const source = "count: 3\nitem_one: item\n";
+      const translations = JSON.stringify({
+        count: 3,
+        item_one: "предмет",
+        item_few: "предмета",
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: source,
+        targetLanguage: "ru",
+      });
+
+      assert.strictEqual(
+        output,
+        "count: 3\nitem_one: предмет\nitem_few: предмета\n"
+      );
+    });
+
+    test("does not add merged keys to maps with merge keys", () => {
+      const source = [
+        "base: &base",
+        "  ok: OK",
+        "dialog:",
+        "  <<: *base",
+        "  title: Title",
+        "",
+      ].join("\n");
+      const translations = JSON.stringify({
+        base: { ok: "D'accord" },
+        dialog: { ok: "D'accord", title: "Titre" },
+      });
+
+      const output = handler.fromJson(translations, {
+        sourceContent: source,
+        targetLanguage: "fr",
+      });
+
+      assert.strictEqual(
+        output,
+        [
+          "base: &base",
+          "  ok: D'accord",
+          "dialog:",
+          "  <<: *base",
+          "  title: Titre",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+});
@@ -9,15 +9,75 @@ import * as path from "path";
 import { ApiKeyManager } from "./apiKeyManager";
 import { I18nProjectManager } from "./i18nProjectManager";
 import {
+  FinishReason,
   L10nTranslationService,
+  TranslationCancelledError,
+  TranslationProgress,
   TranslationRequest,
   TranslationResult,
 } from "./translationService";
 import { LanguageSelector } from "./languageSelector";
-import { showAndLogError, logInfo } from "./logger";
+import { showAndLogError, logInfo, logWarning, showLog } from "./logger";
+import {
+  findProjectConfig,
+  getProjectOption,
+  isExcludedByProjectConfig,
+  LoadedProjectConfig,
+} from "./projectConfig";
+import {
+  addStrings,
+  filterStrings,
+  findPlaceholderMismatches,
+  getStringKey,
+  getStringKeys,
+  getStringValues,
+  mapStrings,
+} from "./localeCoverage";
+import {
+  formatPlaceholderMismatch,
+  PlaceholderMismatch,
+  PlaceholderMismatchAction,
+} from "./placeholders";
+import { TranslationReview } from "./translationPreview";
+import {
+  findChangedSourceKeys,
+  getLockedKeys,
+  isKeyLocked,
+  recordSourceFingerprints,
+} from "./translationLock";
+import {
+  findGlossary,
+  findGlossaryViolations,
+  getGlossaryRules,
+  GlossaryViolation,
+  maskGlossaryTerms,
+  unmaskGlossaryTerms,
+} from "./glossary";
+import type {
+  TranslationMemory,
+  TranslationMemoryScope,
+} from "./translationMemory";
+import {
+  confirmCost,
+  CostEstimate,
+  estimateCost,
+  formatRemainingBalance,
+  getTotalCharacters,
+} from "./costEstimate";
+import {
+  FileFormat,
+  FileFormatHandler,
+  getFileFormatHandler,
+  matchesFileFormat,
+} from "./fileFormats";
 
 import { CONFIG, VSCODE_COMMANDS } from "./constants";
 
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 5;
+const DEFAULT_MAX_RETRIES = 3;
+// Follow-up requests sent for the rest of a truncated translation
+const MAX_RESUME_ATTEMPTS = 3;
+
 /**
  * Asks user how to handle existing target files
  * Returns user's choice or undefined if cancelled
@@ -59,6 +119,93 @@ async function askTranslateOnlyNewStringsPreference(
   return choice?.value;
 }
 
+/**
+ * Choices made before the command runs, e.g. from the Locales view, that skip their prompts
+ */
+export interface TranslateCommandOptions {
+  targetLanguages?: string[];
+  translateOnlyNewStrings?: boolean;
+  /** Translates only these keys and merges them into existing target files */
+  keys?: string[];
+  /** Keys whose source text changed, their translations are replaced */
+  changedKeys?: string[];
+}
+
+/**
+ * State shared by the translations of one command run
+ */
+interface TranslationRun {
+  /** Aborted when the user cancels, which stops every translation of the run */
+  abortController: AbortController;
+  /** Collects the translated files when they are previewed before writing */
+  review?: TranslationReview;
+  /** Progress of all languages when the run translates several */
+  progress?: RunProgress;
+}
+
+/**
+ * Aggregated progress of a multi-language run, advanced by the translated chunks
+ * of every language that reported them and as languages finish
+ */
+class RunProgress {
+  private finishedLanguages = 0;
+  private readonly chunks = new Map<string, TranslationProgress>();
+  // Share of each language's part of the bar that was already reported, 0 to 1
+  private readonly reportedShares = new Map<string, number>();
+
+  constructor(
+    private readonly progress: vscode.Progress<{
+      message?: string;
+      increment?: number;
+    }>,
+    private readonly totalLanguages: number
+  ) {
+    this.report(0);
+  }
+
+  reportChunks(language: string, chunkProgress: TranslationProgress) {
+    this.chunks.set(language, chunkProgress);
+    this.report(
+      this.advance(
+        language,
+        chunkProgress.completedChunks / chunkProgress.totalChunks
+      )
+    );
+  }
+
+  reportLanguageDone(language: string) {
+    this.finishedLanguages++;
+    this.report(this.advance(language, 1));
+  }
+
+  /**
+   * Returns the increment that moves the language's part of the bar to the share
+   */
+  private advance(language: string, share: number): number {
+    const reportedShare = this.reportedShares.get(language) ?? 0;
+    if (share <= reportedShare) {
+      return 0;
+    }
+    this.reportedShares.set(language, share);
+    return ((share - reportedShare) * 100) / this.totalLanguages;
+  }
+
+  private report(increment: number) {
+    let completedChunks = 0;
+    let totalChunks = 0;
+    for (const chunkProgress of this.chunks.values()) {
+      completedChunks += chunkProgress.completedChunks;
+      totalChunks += chunkProgress.totalChunks;
+    }
+    const chunks =
+      totalChunks > 0 ? ` · ${completedChunks}/${totalChunks} chunks` : "";
+    this.progress.report({
+      increment,
+      message: `${this.finishedLanguages}/${this.totalLanguages} languages${chunks}`,
+    });
+  }
+}
+
 /**
  * Handles the main translate command workflow
  * Validates file, gets API Key, selects target language, and performs translation
@@ -69,7 +216,8 @@ export async function handleTranslateCommand(
   translationService: L10nTranslationService,
   i18nProjectManager: I18nProjectManager,
   languageSelector: LanguageSelector,
-  isArbFile: boolean = false
+  fileFormat: FileFormat = FileFormat.Json,
+  options: TranslateCommandOptions = {}
 ) {
   try {
     // Ensure we have an API Key (will prompt user if needed)
@@ -81,11 +229,11 @@ export async function handleTranslateCommand(
     // Get the file to translate
     let fileUri = uri || vscode.window.activeTextEditor?.document.uri;
 
-    const expectedExtension = isArbFile ? ".arb" : ".json";
-    const fileType = isArbFile ? "ARB" : "JSON";
+    const formatHandler = getFileFormatHandler(fileFormat);
+    const fileType = formatHandler.displayName;
 
     // If no valid file is available, prompt user to search and open one
-    if (!fileUri || !fileUri.fsPath.endsWith(expectedExtension)) {
+    if (!fileUri || !matchesFileFormat(fileUri.fsPath, fileFormat)) {
       logInfo(`No selected ${fileType} file, opening Quick Open panel`);
 
       // Use VS Code's Quick Open panel (Ctrl+P equivalent)
@@ -102,15 +250,44 @@ export async function handleTranslateCommand(
       return;
     }
 
-    // Detect available languages from project structure
-    const detectedLanguages = i18nProjectManager.detectLanguagesFromProject(
-      fileUri.fsPath
+    // Team-shared settings from .l10nrc or l10n.config.json
+    const projectConfig = findProjectConfig(
+      fileUri.fsPath,
+      vscode.workspace.getWorkspaceFolder(fileUri)?.uri.fsPath
     );
+    if (
+      projectConfig &&
+      isExcludedByProjectConfig(projectConfig, fileUri.fsPath)
+    ) {
+      const message = `${path.basename(
+        fileUri.fsPath
+      )} is excluded from translation in ${path.basename(
+        projectConfig.configPath
+      )}.`;
+      vscode.window.showInformationMessage(message);
+      logInfo(message);
+      return;
+    }
+
+    // Detect available languages from project structure
+    const configSourceLanguage = projectConfig?.config.sourceLanguage;
+    const detectedLanguages = i18nProjectManager
+      .detectLanguagesFromProject(fileUri.fsPath)
+      .filter((lang) => lang !== configSourceLanguage);
+    const sourceLanguage =
+      i18nProjectManager.detectSourceLanguage(fileUri.fsPath) ??
+      configSourceLanguage;
+    const configuredLanguages = (
+      options.targetLanguages ??
+      projectConfig?.config.targetLanguages ??
+      []
+    ).filter((lang) => lang !== sourceLanguage);
 
     // Let user choose target language(s)
     const targetLanguageSelection = await languageSelector.selectTargetLanguage(
       detectedLanguages,
-      isArbFile
+      formatHandler.useUnderscores,
+      configuredLanguages
     );
 
     if (!targetLanguageSelection) {
@@ -133,7 +310,8 @@ export async function handleTranslateCommand(
     }
 
     // Ask user once about translate only new strings preference (if multiple files might exist)
-    let translateOnlyNewStrings = false;
+    // Files that store all languages are always updated in place
+    let translateOnlyNewStrings = formatHandler.storesAllLanguages;
     const targetFilePaths = targetLanguages.map((lang) =>
       i18nProjectManager.generateTargetFilePath(fileUri.fsPath, lang)
     );
@@ -141,7 +319,16 @@ export async function handleTranslateCommand(
       fs.existsSync(targetFilePath)
     );
 
-    if (existingFiles.length > 0) {
+    const configuredTranslateOnlyNewStrings =
+      options.translateOnlyNewStrings ??
+      projectConfig?.config.translateOnlyNewStrings;
+    if (
+      existingFiles.length > 0 &&
+      !formatHandler.storesAllLanguages &&
+      configuredTranslateOnlyNewStrings !== undefined
+    ) {
+      translateOnlyNewStrings = configuredTranslateOnlyNewStrings;
+    } else if (existingFiles.length > 0 && !formatHandler.storesAllLanguages) {
       const choice = await askTranslateOnlyNewStringsPreference(
         existingFiles.length,
         path.basename(existingFiles[0])
@@ -159,54 +346,164 @@ export async function handleTranslateCommand(
       );
     }
 
-    // Perform translations in parallel
+    // Updates offer the keys whose source text changed since they were translated,
+    // unless the keys to translate were given
+    let changedKeysByLanguage = new Map<string, string[]>();
+    if (translateOnlyNewStrings && !options.keys && !options.changedKeys) {
+      const selection = await selectChangedSourceKeys(
+        fileUri.fsPath,
+        targetLanguages,
+        targetFilePaths,
+        i18nProjectManager,
+        fileFormat,
+        projectConfig
+      );
+      if (!selection) {
+        return; // User cancelled
+      }
+      changedKeysByLanguage = selection;
+    }
+    const getLanguageOptions = (
+      targetLanguage: string
+    ): TranslateCommandOptions => {
+      const changedKeys = changedKeysByLanguage.get(targetLanguage);
+      return changedKeys?.length ? { ...options, changedKeys } : options;
+    };
+
+    // Estimate the characters of the run before anything is sent
+    const estimates = targetLanguages.flatMap((targetLanguage, i) =>
+      estimateLanguageCost(
+        fileUri.fsPath,
+        targetLanguage,
+        targetFilePaths[i],
+        i18nProjectManager,
+        translateOnlyNewStrings,
+        fileFormat,
+        projectConfig,
+        getLanguageOptions(targetLanguage)
+      )
+    );
+    if (!(await confirmCost(estimates, translationService.remainingBalance))) {
+      return; // User cancelled
+    }
+
+    // Perform translations in parallel, a few languages at a time to stay below rate limits
     const totalLanguages = targetLanguages.length;
+    const run = createRun();
+    const maxConcurrentRequests = vscode.workspace
+      .getConfiguration(CONFIG.SECTION)
+      .get<number>(
+        CONFIG.KEYS.MAX_CONCURRENT_REQUESTS,
+        DEFAULT_MAX_CONCURRENT_REQUESTS
+      );
 
-    const translationPromises = targetLanguages.map(
-      async (targetLanguage, i) => {
-        const targetFilePath = targetFilePaths[i];
+    const translateLanguage = async (targetLanguage: string, i: number) => {
+      const targetFilePath = targetFilePaths[i];
 
-        try {
-          logInfo(
-            `Translating (${i + 1}/${totalLanguages}) to ${targetLanguage}`
-          );
+      try {
+        logInfo(
+          `Translating (${i + 1}/${totalLanguages}) to ${targetLanguage}`
+        );
 
-          await performTranslation(
-            fileUri.fsPath,
-            targetLanguage,
-            targetFilePath,
-            translationService,
-            i18nProjectManager,
-            translateOnlyNewStrings
-          );
+        const placeholderMismatches = await performTranslation(
+          fileUri.fsPath,
+          targetLanguage,
+          targetFilePath,
+          translationService,
+          i18nProjectManager,
+          translateOnlyNewStrings,
+          fileFormat,
+          projectConfig,
+          getLanguageOptions(targetLanguage),
+          run
+        );
 
-          return { success: true, language: targetLanguage };
-        } catch (error) {
-          showAndLogError(
-            `Translation to ${targetLanguage} failed: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`,
-            error,
-            `File: ${fileUri.fsPath}, Target: ${targetLanguage}`
-          );
-          return { success: false, language: targetLanguage };
+        return {
+          status: "success" as const,
+          language: targetLanguage,
+          placeholderMismatches,
+        };
+      } catch (error) {
+        if (error instanceof TranslationCancelledError) {
+          logInfo(`Translation to ${targetLanguage} cancelled`);
+          return { status: "cancelled" as const, language: targetLanguage };
         }
+        showAndLogError(
+          `Translation to ${targetLanguage} failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          error,
+          `File: ${fileUri.fsPath}, Target: ${targetLanguage}`
+        );
+        return { status: "failed" as const, language: targetLanguage };
+      } finally {
+        run.progress?.reportLanguageDone(targetLanguage);
       }
-    );
+    };
+    const translateAll = () =>
+      mapWithConcurrency(
+        targetLanguages,
+        maxConcurrentRequests,
+        translateLanguage
+      );
+
+    // Several languages also get one notification with the progress of the whole run
+    const results =
+      totalLanguages > 1
+        ? await vscode.window.withProgress(
+            {
+              location: vscode.ProgressLocation.Notification,
+              title: `Translating ${path.basename(
+                fileUri.fsPath
+              )} to ${totalLanguages} languages`,
+              cancellable: true,
+            },
+            async (progress, token) => {
+              token.onCancellationRequested(() => run.abortController.abort());
+              run.progress = new RunProgress(progress, totalLanguages);
+              return translateAll();
+            }
+          )
+        : await translateAll();
 
-    // Wait for all translations to complete
-    const results = await Promise.all(translationPromises);
+    if (run.review) {
+      await applyReviewedTranslations(run.review);
+    }
 
-    const successCount = results.filter((r) => r.success).length;
+    const successfulLanguages = results
+      .filter((r) => r.status === "success")
+      .map((r) => r.language);
     const failedLanguages = results
-      .filter((r) => !r.success)
+      .filter((r) => r.status === "failed")
       .map((r) => r.language);
+    const mismatchedLanguages = results.flatMap((r) =>
+      r.status === "success" && r.placeholderMismatches > 0
+        ? [`${r.language} (${r.placeholderMismatches})`]
+        : []
+    );
 
-    if (totalLanguages > 1) {
+    if (run.abortController.signal.aborted) {
+      showCancellationSummary(successfulLanguages);
+    } else if (totalLanguages > 1) {
       showSummaryForMultipleTranslations(
         totalLanguages,
-        successCount,
-        failedLanguages
+        successfulLanguages.length,
+        failedLanguages,
+        mismatchedLanguages,
+        () =>
+          handleTranslateCommand(
+            fileUri,
+            apiKeyManager,
+            translationService,
+            i18nProjectManager,
+            languageSelector,
+            fileFormat,
+            {
+              ...options,
+              targetLanguages: failedLanguages,
+              translateOnlyNewStrings,
+            }
+          )
       );
     }
   } catch (error) {
@@ -218,9 +515,157 @@ export async function handleTranslateCommand(
   }
 }
 
+/**
+ * A source file and the languages a dry run estimates
+ */
+export interface CostEstimateSource {
+  sourceFilePath: string;
+  fileFormat: FileFormat;
+  targetLanguages: string[];
+  projectConfig?: LoadedProjectConfig;
+}
+
+/**
+ * Prints the characters each file and language would use without translating anything
+ * Existing target files are estimated for only their new strings, unless the
+ * project config turns that off
+ */
+export async function handleEstimateCostCommand(
+  sources: CostEstimateSource[],
+  i18nProjectManager: I18nProjectManager,
+  translationService: L10nTranslationService
+) {
+  if (sources.length === 0) {
+    vscode.window.showInformationMessage(
+      "No source locale files found to estimate."
+    );
+    return;
+  }
+
+  const lines: string[] = [];
+  let total = 0;
+  for (const source of sources) {
+    const { sourceFilePath, fileFormat, projectConfig } = source;
+    const translateOnlyNewStrings =
+      getFileFormatHandler(fileFormat).storesAllLanguages ||
+      (projectConfig?.config.translateOnlyNewStrings ?? true);
+    const estimates = source.targetLanguages.flatMap((targetLanguage) =>
+      estimateLanguageCost(
+        sourceFilePath,
+        targetLanguage,
+        i18nProjectManager.getTargetFilePath(sourceFilePath, targetLanguage),
+        i18nProjectManager,
+        translateOnlyNewStrings,
+        fileFormat,
+        projectConfig,
+        {}
+      )
+    );
+    const fileTotal = getTotalCharacters(estimates);
+    total += fileTotal;
+
+    lines.push(
+      `${vscode.workspace.asRelativePath(
+        sourceFilePath
+      )}: ${fileTotal.toLocaleString()} characters`
+    );
+    for (const estimate of estimates) {
+      lines.push(
+        `  ${estimate.language}: ${estimate.stringCount.toLocaleString()} strings, ${estimate.charCount.toLocaleString()} characters`
+      );
+    }
+  }
+
+  const summary = `Dry run: translating would use about ${total.toLocaleString()} characters. ${formatRemainingBalance(
+    translationService.remainingBalance
+  )}`;
+  logInfo(`${summary}\n${lines.join("\n")}`);
+  const action = await vscode.window.showInformationMessage(
+    summary,
+    "Show Details"
+  );
+  if (action === "Show Details") {
+    showLog();
+  }
+}
+
+/**
+ * Translates some keys of an existing target file, e.g. from a quick fix
+ * Keys that aren't given keep their translation
+ */
+export async function handleTranslateKeysCommand(
+  sourceFilePath: string,
+  targetFilePath: string,
+  targetLanguage: string,
+  keys: string[],
+  apiKeyManager: ApiKeyManager,
+  translationService: L10nTranslationService,
+  i18nProjectManager: I18nProjectManager,
+  fileFormat: FileFormat
+) {
+  try {
+    // Ensure we have an API Key (will prompt user if needed)
+    const apiKey = await apiKeyManager.ensureApiKey();
+    if (!apiKey) {
+      return; // User cancelled API Key setup
+    }
+
+    // The translation is merged with the file on disk, so unsaved edits are saved first
+    const targetDocument = vscode.workspace.textDocuments.find(
+      (document) => document.uri.fsPath === targetFilePath
+    );
+    if (targetDocument?.isDirty) {
+      await targetDocument.save();
+    }
+
+    const projectConfig = findProjectConfig(
+      sourceFilePath,
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(sourceFilePath))?.uri
+        .fsPath
+    );
+
+    logInfo(
+      `Translating ${keys.length} key(s) of ${path.basename(
+        targetFilePath
+      )} to ${targetLanguage}`
+    );
+    const run = createRun();
+    await performTranslation(
+      sourceFilePath,
+      targetLanguage,
+      targetFilePath,
+      translationService,
+      i18nProjectManager,
+      true,
+      fileFormat,
+      projectConfig,
+      { keys },
+      run
+    );
+    if (run.review) {
+      await applyReviewedTranslations(run.review);
+    }
+  } catch (error) {
+    if (error instanceof TranslationCancelledError) {
+      showInformationMessage(`Translation to ${targetLanguage} cancelled.`);
+      return;
+    }
+    showAndLogError(
+      `Translation to ${targetLanguage} failed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      error,
+      `File: ${targetFilePath}, Keys: ${keys.join(", ")}`
+    );
+  }
+}
+
 /**
  * Performs the actual translation with progress indication
  * Reads file, calls translation service, and saves result
+ * With a review, the translated file is proposed instead of written
+ * Once the run is cancelled nothing is written, and languages that haven't started are skipped
+ * Returns the number of translated keys whose placeholders differ from the source
  */
 async function performTranslation(
   sourceFilePath: string,
@@ -228,48 +673,175 @@ async function performTranslation(
   targetFilePath: string,
   translationService: L10nTranslationService,
   i18nProjectManager: I18nProjectManager,
-  translateOnlyNewStrings: boolean
-) {
-  let targetStrings: string | undefined = undefined;
-  if (translateOnlyNewStrings && fs.existsSync(targetFilePath)) {
-    targetStrings = fs.readFileSync(targetFilePath, "utf8");
+  translateOnlyNewStrings: boolean,
+  fileFormat: FileFormat,
+  projectConfig: LoadedProjectConfig | undefined,
+  options: TranslateCommandOptions,
+  { abortController, review, progress: runProgress }: TranslationRun
+): Promise<number> {
+  const { signal } = abortController;
+  if (signal.aborted) {
+    throw new TranslationCancelledError();
   }
+  const formatHandler = getFileFormatHandler(fileFormat);
+  const {
+    fileContent,
+    sourceLanguage,
+    sourceStrings,
+    targetContent,
+    targetStrings: currentTargetStrings,
+  } = readTranslationStrings(
+    sourceFilePath,
+    targetLanguage,
+    targetFilePath,
+    i18nProjectManager,
+    translateOnlyNewStrings,
+    fileFormat,
+    projectConfig,
+    options
+  );
+  // Locked translations of the target file are sent as existing translations,
+  // also when a new file is created, and are never replaced
+  const lockedValues = readLockedValues(
+    sourceFilePath,
+    targetLanguage,
+    targetFilePath,
+    targetContent,
+    fileContent,
+    formatHandler
+  );
+  const targetStrings =
+    lockedValues.size > 0
+      ? addStrings(currentTargetStrings, sourceStrings, lockedValues)
+      : currentTargetStrings;
 
-  await vscode.window.withProgress(
+  return await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
       title: `Translating ${path.basename(
         sourceFilePath
       )} to ${targetLanguage} `,
-      cancellable: false,
+      cancellable: true,
     },
-    async (progress) => {
+    async (progress, token) => {
+      // Cancelling any notification cancels the whole run
+      token.onCancellationRequested(() => abortController.abort());
       progress.report({ message: "Sending translation request..." });
 
-      // Read file
-      const fileContent = fs.readFileSync(sourceFilePath, "utf8");
-
       // Normalize target language for API call
       const normalizedTargetLanguage =
         i18nProjectManager.normalizeLanguageCode(targetLanguage);
 
+      // Project config options, per language first, take precedence over VS Code settings
       const config = vscode.workspace.getConfiguration(CONFIG.SECTION);
-      const request: TranslationRequest = {
-        sourceStrings: fileContent,
+      const getOption = (
+        key:
+          | typeof CONFIG.KEYS.USE_CONTRACTIONS
+          | typeof CONFIG.KEYS.USE_SHORTENING
+          | typeof CONFIG.KEYS.GENERATE_PLURAL_FORMS
+          | typeof CONFIG.KEYS.MARK_FOR_REVIEW,
+        defaultValue: boolean
+      ) =>
+        getProjectOption(projectConfig, targetLanguage, key) ??
+        config.get(key, defaultValue);
+
+      const useContractions = getOption(CONFIG.KEYS.USE_CONTRACTIONS, true);
+      const useShortening = getOption(CONFIG.KEYS.USE_SHORTENING, false);
+      let request: TranslationRequest = {
+        sourceStrings,
         targetLanguageCode: normalizedTargetLanguage,
-        useContractions: config.get(CONFIG.KEYS.USE_CONTRACTIONS, true),
-        useShortening: config.get(CONFIG.KEYS.USE_SHORTENING, false),
-        generatePluralForms: config.get(
-          CONFIG.KEYS.GENERATE_PLURAL_FORMS,
-          false
-        ),
+        useContractions,
+        useShortening,
+        generatePluralForms:
+          formatHandler.requiresPluralForms ||
+          getOption(CONFIG.KEYS.GENERATE_PLURAL_FORMS, false),
         client: "vscode-extension",
         returnTranslationsAsString: true,
-        translateOnlyNewStrings,
+        translateOnlyNewStrings:
+          translateOnlyNewStrings || lockedValues.size > 0,
         targetStrings,
       };
 
-      const result = await translationService.translateJson(request);
+      // Strings the translation memory has are sent as existing translations,
+      // so only the other strings are translated
+      const memory = translationService.translationMemory;
+      const memoryPath = memory?.getFilePath(vscode.Uri.file(sourceFilePath));
+      const memoryScope: TranslationMemoryScope = {
+        sourceLanguage:
+          sourceLanguage &&
+          i18nProjectManager.normalizeLanguageCode(sourceLanguage),
+        targetLanguage: normalizedTargetLanguage,
+        useContractions,
+        useShortening,
+      };
+      let pendingPaths: string[] | undefined;
+      let hitCount = 0;
+      if (memory && memoryPath) {
+        ({ request, pendingPaths, hitCount } = applyTranslationMemory(
+          request,
+          memory,
+          memoryPath,
+          memoryScope
+        ));
+      }
+
+      // Glossary terms are sent as placeholders, the result gets the mandated
+      // translation or the term that isn't translated in their place
+      const glossary = findGlossary(
+        sourceFilePath,
+        vscode.workspace.getWorkspaceFolder(vscode.Uri.file(sourceFilePath))
+          ?.uri.fsPath
+      );
+      const glossaryRules = glossary
+        ? getGlossaryRules(glossary.glossary, targetLanguage)
+        : [];
+      request = {
+        ...request,
+        sourceStrings: maskGlossaryTerms(request.sourceStrings, glossaryRules),
+      };
+
+      // The bar advances by the share of chunks that arrived since the last report.
+      // Chunks of earlier responses count as done when a truncated result is resumed
+      let resumedChunks = 0;
+      let reportedShare = 0;
+      const onProgress = (response: TranslationProgress) => {
+        const chunkProgress = {
+          completedChunks: resumedChunks + response.completedChunks,
+          totalChunks: resumedChunks + response.totalChunks,
+        };
+        const share =
+          (chunkProgress.completedChunks / chunkProgress.totalChunks) * 100;
+        progress.report({
+          increment: Math.max(share - reportedShare, 0),
+          message: `Translated ${chunkProgress.completedChunks}/${chunkProgress.totalChunks} chunks`,
+        });
+        reportedShare = Math.max(share, reportedShare);
+        resumedChunks = chunkProgress.completedChunks;
+        runProgress?.reportChunks(targetLanguage, chunkProgress);
+      };
+
+      const maxRetries = config.get(
+        CONFIG.KEYS.MAX_RETRIES,
+        DEFAULT_MAX_RETRIES
+      );
+      // When the memory has every string and no plural forms are generated nothing is sent
+      let result: TranslationResult | null =
+        hitCount > 0 &&
+        pendingPaths?.length === 0 &&
+        !request.generatePluralForms
+          ? {
+              targetLanguageCode: normalizedTargetLanguage,
+              translations: request.targetStrings,
+              usage: { charsUsed: 0 },
+              completedChunks: 0,
+              totalChunks: 0,
+              remainingBalance: translationService.remainingBalance,
+            }
+          : await translationService.translateJson(request, {
+              signal,
+              maxRetries,
+              onProgress,
+            });
       if (!result) {
         const message = "Translation service returned no result.";
         throw new Error(message);
@@ -279,7 +851,167 @@ async function performTranslation(
         const message =
           "No translation results received. Please verify that source file contains content.";
         showInformationMessage(message);
-        return;
+        return 0;
+      }
+
+      // A truncated result is completed by translating the keys it is missing,
+      // with the partial result as the existing translations
+      let translations = unmaskGlossaryTerms(
+        result.translations,
+        glossaryRules
+      );
+      let missingKeys = isTruncated(result)
+        ? getMissingKeys(sourceStrings, translations)
+        : [];
+      for (
+        let attempt = 1;
+        missingKeys.length > 0 && attempt <= MAX_RESUME_ATTEMPTS;
+        attempt++
+      ) {
+        logWarning(
+          `Translation to ${targetLanguage} was truncated with ${missingKeys.length} key(s) missing, resuming (${attempt}/${MAX_RESUME_ATTEMPTS})`
+        );
+        progress.report({
+          message: `Translating ${missingKeys.length} remaining key(s)...`,
+        });
+        const followUp = await translationService.translateJson(
+          {
+            ...request,
+            translateOnlyNewStrings: true,
+            targetStrings: translations,
+          },
+          { signal, maxRetries, onProgress }
+        );
+        if (!followUp?.translations) {
+          break;
+        }
+        translations = unmaskGlossaryTerms(
+          followUp.translations,
+          glossaryRules
+        );
+        result = {
+          ...followUp,
+          usage: {
+            charsUsed:
+              (result.usage.charsUsed || 0) + (followUp.usage.charsUsed || 0),
+          },
+        };
+        missingKeys = getMissingKeys(sourceStrings, translations);
+      }
+
+      // Strings the target file already had aren't checked again
+      const sourceValues = getStringValues(sourceStrings);
+      const existingValues = targetStrings
+        ? getStringValues(targetStrings)
+        : new Map<string, string>();
+      const checkedPaths = Array.from(sourceValues.keys()).filter(
+        (keyPath) => !existingValues.has(keyPath)
+      );
+
+      // Keys whose placeholders differ from the source may be translated once more
+      const mismatchAction = config.get<PlaceholderMismatchAction>(
+        CONFIG.KEYS.PLACEHOLDER_MISMATCH_ACTION,
+        "report"
+      );
+      let placeholderMismatches = findPlaceholderMismatches(
+        sourceValues,
+        getStringValues(translations),
+        checkedPaths
+      );
+      if (
+        placeholderMismatches.length > 0 &&
+        mismatchAction === "retranslate"
+      ) {
+        const mismatchedKeys = new Set(
+          placeholderMismatches.map(({ key }) => key)
+        );
+        logWarning(
+          `Translation to ${targetLanguage} has ${mismatchedKeys.size} key(s) with placeholder mismatches, translating them again`
+        );
+        progress.report({
+          message: `Translating ${mismatchedKeys.size} key(s) with placeholder mismatches again...`,
+        });
+        const retry = await translationService.translateJson(
+          {
+            ...request,
+            translateOnlyNewStrings: true,
+            targetStrings: filterStrings(
+              translations,
+              (key) => !mismatchedKeys.has(key)
+            ),
+          },
+          { signal, maxRetries }
+        );
+        if (retry?.translations) {
+          translations = unmaskGlossaryTerms(retry.translations, glossaryRules);
+          result = {
+            ...retry,
+            usage: {
+              charsUsed:
+                (result.usage.charsUsed || 0) + (retry.usage.charsUsed || 0),
+            },
+          };
+          placeholderMismatches = findPlaceholderMismatches(
+            sourceValues,
+            getStringValues(translations),
+            checkedPaths
+          );
+        }
+      }
+      const mismatchedKeys = new Set(
+        placeholderMismatches.map(({ key }) => key)
+      );
+
+      // Translations are remembered even when the run was cancelled, they are paid for,
+      // but not with broken placeholders
+      if (memory && memoryPath && pendingPaths) {
+        rememberTranslations(
+          memory,
+          memoryPath,
+          memoryScope,
+          sourceStrings,
+          pendingPaths.filter(
+            (keyPath) => !mismatchedKeys.has(getStringKey(keyPath))
+          ),
+          translations
+        );
+      }
+
+      const glossaryViolations = findGlossaryViolations(
+        sourceStrings,
+        translations,
+        glossaryRules,
+        checkedPaths
+      );
+
+      // A response that arrives after the cancel leaves the target file untouched
+      if (signal.aborted) {
+        throw new TranslationCancelledError();
+      }
+
+      if (placeholderMismatches.length > 0) {
+        logPlaceholderMismatches(targetLanguage, placeholderMismatches);
+        if (mismatchAction === "doNotWrite") {
+          throw new Error(
+            `${mismatchedKeys.size} key(s) have placeholder mismatches, ${path.basename(
+              targetFilePath
+            )} was not written. See the log for details.`
+          );
+        }
+      }
+
+      // Locked translations stay as they were, whatever the response has
+      if (lockedValues.size > 0) {
+        translations = keepLockedValues(
+          translations,
+          sourceStrings,
+          lockedValues
+        );
+        logInfo(
+          `Kept ${lockedValues.size} locked translation(s) of ${path.basename(
+            targetFilePath
+          )}`
+        );
       }
 
       progress.report({ message: "Saving translated file..." });
@@ -292,15 +1024,468 @@ async function performTranslation(
         outputPath = i18nProjectManager.getUniqueFilePath(targetFilePath);
       }
 
-      // Save translated file
-      fs.writeFileSync(outputPath, result.translations, "utf8");
+      // Files that store all languages are re-read, other languages may have been written
+      // (or proposed) to them while this translation was running
+      const currentContent = formatHandler.storesAllLanguages
+        ? (review?.getProposedContent(outputPath) ??
+          fs.readFileSync(outputPath, "utf8"))
+        : undefined;
+
+      // Convert back to the source format and save translated file
+      const output = formatHandler.fromJson(translations, {
+        sourceContent: currentContent ?? fileContent,
+        targetLanguage,
+        sourceLanguage,
+        targetContent: currentContent ?? targetContent,
+        // Keys removed from the target strings are translated again, not kept
+        replacedKeys: [
+          ...(options.keys ?? []),
+          ...(options.changedKeys ?? []),
+        ],
+        markForReview: getOption(CONFIG.KEYS.MARK_FOR_REVIEW, false),
+      });
+      // The lock file tracks the source text of the target file, not of copies
+      const recordFingerprints = () => {
+        if (outputPath === targetFilePath) {
+          recordSourceFingerprints(
+            sourceFilePath,
+            targetLanguage,
+            sourceStrings,
+            translations,
+            checkedPaths
+          );
+        }
+      };
+      if (review) {
+        review.propose(outputPath, output, targetLanguage, recordFingerprints);
+        logInfo(
+          `Translation to ${targetLanguage} is ready for review. Used ${(
+            result.usage.charsUsed || 0
+          ).toLocaleString()} characters.`
+        );
+      } else {
+        fs.writeFileSync(outputPath, output, "utf8");
+        recordFingerprints();
+      }
 
       // Show success message with usage info after progress completes
-      await showTranslationSuccess(result, outputPath);
+      if (missingKeys.length > 0) {
+        showMissingKeysWarning(targetLanguage, outputPath, missingKeys);
+      } else if (!review) {
+        await showTranslationSuccess(result, outputPath);
+      }
+      if (glossaryViolations.length > 0) {
+        showGlossaryViolationsWarning(
+          targetLanguage,
+          outputPath,
+          glossaryViolations
+        );
+      }
+      if (mismatchedKeys.size > 0) {
+        showPlaceholderMismatchWarning(
+          targetLanguage,
+          outputPath,
+          Array.from(mismatchedKeys)
+        );
+      }
+      return mismatchedKeys.size;
+    }
+  );
+}
+
+/**
+ * Lists the keys of existing target files whose source text changed since they were
+ * translated, and returns the selected ones by language
+ * Returns undefined if the user cancels
+ */
+async function selectChangedSourceKeys(
+  sourceFilePath: string,
+  targetLanguages: string[],
+  targetFilePaths: string[],
+  i18nProjectManager: I18nProjectManager,
+  fileFormat: FileFormat,
+  projectConfig: LoadedProjectConfig | undefined
+): Promise<Map<string, string[]> | undefined> {
+  const changedKeysByLanguage = new Map<string, string[]>();
+  const keyLanguages = new Map<string, string[]>();
+  targetLanguages.forEach((targetLanguage, i) => {
+    if (!fs.existsSync(targetFilePaths[i])) {
+      return;
     }
+    try {
+      const { sourceStrings, targetStrings } = readTranslationStrings(
+        sourceFilePath,
+        targetLanguage,
+        targetFilePaths[i],
+        i18nProjectManager,
+        true,
+        fileFormat,
+        projectConfig,
+        {}
+      );
+      const changedKeys = targetStrings
+        ? findChangedSourceKeys(
+            sourceFilePath,
+            targetLanguage,
+            sourceStrings,
+            targetStrings
+          )
+        : [];
+      changedKeysByLanguage.set(targetLanguage, changedKeys);
+      for (const key of changedKeys) {
+        keyLanguages.set(key, [
+          ...(keyLanguages.get(key) ?? []),
+          targetLanguage,
+        ]);
+      }
+    } catch (error) {
+      // Files that can't be read report the error when they are translated
+      logWarning(
+        `Failed to check ${targetFilePaths[i]} for changed source text: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  });
+  if (keyLanguages.size === 0) {
+    return changedKeysByLanguage;
+  }
+
+  logInfo(
+    `Source text changed since the last translation: ${Array.from(
+      keyLanguages.keys()
+    ).join(", ")}`
+  );
+  const picked = await vscode.window.showQuickPick(
+    Array.from(keyLanguages, ([key, languages]) => ({
+      label: key,
+      description: languages.join(", "),
+      picked: true,
+    })),
+    {
+      title: `${keyLanguages.size} key(s) of ${path.basename(
+        sourceFilePath
+      )} changed since they were translated`,
+      placeHolder:
+        "Selected keys are translated again, unselect keys to keep their translation",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    }
+  );
+  if (!picked) {
+    return undefined;
+  }
+
+  const selectedKeys = new Set(picked.map((item) => item.label));
+  return new Map(
+    Array.from(changedKeysByLanguage, ([language, keys]) => [
+      language,
+      keys.filter((key) => selectedKeys.has(key)),
+    ])
+  );
+}
+
+/**
+ * Estimates the characters a translation to one language uses
+ * Files that can't be read are left out, their translation reports the error
+ */
+function estimateLanguageCost(
+  sourceFilePath: string,
+  targetLanguage: string,
+  targetFilePath: string,
+  i18nProjectManager: I18nProjectManager,
+  translateOnlyNewStrings: boolean,
+  fileFormat: FileFormat,
+  projectConfig: LoadedProjectConfig | undefined,
+  options: TranslateCommandOptions
+): CostEstimate[] {
+  try {
+    const { sourceStrings, targetStrings } = readTranslationStrings(
+      sourceFilePath,
+      targetLanguage,
+      targetFilePath,
+      i18nProjectManager,
+      translateOnlyNewStrings,
+      fileFormat,
+      projectConfig,
+      options
+    );
+    return [estimateCost(targetLanguage, sourceStrings, targetStrings)];
+  } catch (error) {
+    logWarning(
+      `Failed to estimate the translation to ${targetLanguage}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return [];
+  }
+}
+
+/**
+ * The source file and the strings sent to the API for one target language
+ */
+interface TranslationStrings {
+  fileContent: string;
+  sourceLanguage?: string;
+  sourceStrings: string;
+  targetContent?: string;
+  targetStrings?: string;
+}
+
+/**
+ * Reads the source file and, when only new strings are translated, the target file
+ * With keys, only those keys are (re)translated and other missing keys are left out,
+ * changed keys are translated again together with the missing ones
+ */
+function readTranslationStrings(
+  sourceFilePath: string,
+  targetLanguage: string,
+  targetFilePath: string,
+  i18nProjectManager: I18nProjectManager,
+  translateOnlyNewStrings: boolean,
+  fileFormat: FileFormat,
+  projectConfig: LoadedProjectConfig | undefined,
+  { keys, changedKeys }: TranslateCommandOptions
+): TranslationStrings {
+  const formatHandler = getFileFormatHandler(fileFormat);
+
+  // Read file and convert it to JSON for the API
+  const fileContent = fs.readFileSync(sourceFilePath, "utf8");
+
+  let targetContent: string | undefined = undefined;
+  let targetStrings: string | undefined = undefined;
+  if (translateOnlyNewStrings && fs.existsSync(targetFilePath)) {
+    targetContent = fs.readFileSync(targetFilePath, "utf8");
+    targetStrings = formatHandler.readTargetStrings(
+      targetContent,
+      targetLanguage,
+      fileContent
+    );
+  }
+  const sourceLanguage =
+    i18nProjectManager.detectSourceLanguage(sourceFilePath) ??
+    projectConfig?.config.sourceLanguage;
+
+  let sourceStrings = formatHandler.toJson(fileContent, sourceLanguage);
+  if (changedKeys && targetStrings) {
+    const changedKeySet = new Set(changedKeys);
+    targetStrings = filterStrings(
+      targetStrings,
+      (key) => !changedKeySet.has(key)
+    );
+  }
+  if (keys) {
+    const keySet = new Set(keys);
+    const targetKeys = new Set(
+      targetStrings ? getStringKeys(targetStrings) : []
+    );
+    sourceStrings = filterStrings(
+      sourceStrings,
+      (key) => keySet.has(key) || targetKeys.has(key)
+    );
+    targetStrings =
+      targetStrings && filterStrings(targetStrings, (key) => !keySet.has(key));
+  }
+
+  return {
+    fileContent,
+    sourceLanguage,
+    sourceStrings,
+    targetContent,
+    targetStrings,
+  };
+}
+
+/**
+ * Adds the translations the memory has for strings without a translation to the
+ * target strings, only new strings are translated then
+ * Returns the number of strings found and the full paths of the strings that
+ * are still sent for translation
+ */
+function applyTranslationMemory(
+  request: TranslationRequest,
+  memory: TranslationMemory,
+  memoryPath: string,
+  scope: TranslationMemoryScope
+): { request: TranslationRequest; pendingPaths: string[]; hitCount: number } {
+  const targetValues = request.targetStrings
+    ? getStringValues(request.targetStrings)
+    : new Map<string, string>();
+  const pendingValues = Array.from(
+    getStringValues(request.sourceStrings)
+  ).filter(([keyPath]) => !targetValues.has(keyPath));
+  const remembered = memory.lookup(
+    memoryPath,
+    scope,
+    pendingValues.map(([, source]) => source)
+  );
+
+  const hits = new Map<string, string>();
+  for (const [keyPath, source] of pendingValues) {
+    const translation = remembered.get(source);
+    if (translation !== undefined) {
+      hits.set(keyPath, translation);
+    }
+  }
+  const pendingPaths = pendingValues
+    .map(([keyPath]) => keyPath)
+    .filter((keyPath) => !hits.has(keyPath));
+  if (hits.size === 0) {
+    return { request, pendingPaths, hitCount: 0 };
+  }
+
+  logInfo(
+    `Translation memory has ${hits.size} of ${pendingValues.length} string(s) to translate to ${scope.targetLanguage}`
+  );
+  return {
+    request: {
+      ...request,
+      translateOnlyNewStrings: true,
+      targetStrings: addStrings(
+        request.targetStrings,
+        request.sourceStrings,
+        hits
+      ),
+    },
+    pendingPaths,
+    hitCount: hits.size,
+  };
+}
+
+/**
+ * Returns the locked strings of an existing target file by their full path
+ */
+function readLockedValues(
+  sourceFilePath: string,
+  targetLanguage: string,
+  targetFilePath: string,
+  targetContent: string | undefined,
+  sourceContent: string,
+  formatHandler: FileFormatHandler
+): Map<string, string> {
+  const lockedKeys = getLockedKeys(sourceFilePath, targetLanguage);
+  if (lockedKeys.length === 0 || !fs.existsSync(targetFilePath)) {
+    return new Map();
+  }
+  const targetStrings = formatHandler.readTargetStrings(
+    targetContent ?? fs.readFileSync(targetFilePath, "utf8"),
+    targetLanguage,
+    sourceContent
+  );
+  return new Map(
+    Array.from(getStringValues(targetStrings)).filter(([keyPath]) =>
+      isKeyLocked(lockedKeys, getStringKey(keyPath))
+    )
+  );
+}
+
+/**
+ * Puts locked strings back where the translations replaced or dropped them
+ */
+function keepLockedValues(
+  translations: string,
+  sourceStrings: string,
+  lockedValues: Map<string, string>
+): string {
+  return addStrings(
+    mapStrings(
+      translations,
+      (value, keyPath) => lockedValues.get(keyPath) ?? value
+    ),
+    sourceStrings,
+    lockedValues
+  );
+}
+
+/**
+ * Stores the translations of the strings that were sent in the memory
+ */
+function rememberTranslations(
+  memory: TranslationMemory,
+  memoryPath: string,
+  scope: TranslationMemoryScope,
+  sourceStrings: string,
+  pendingPaths: string[],
+  translations: string
+) {
+  const sourceValues = getStringValues(sourceStrings);
+  const translatedValues = getStringValues(translations);
+  const remembered = new Map<string, string>();
+  for (const keyPath of pendingPaths) {
+    const source = sourceValues.get(keyPath);
+    const translation = translatedValues.get(keyPath);
+    if (source !== undefined && translation !== undefined) {
+      remembered.set(source, translation);
+    }
+  }
+  memory.add(memoryPath, scope, remembered);
+}
+
+/**
+ * A result is truncated when the translation stopped at the length limit
+ * or before its last chunk
+ */
+function isTruncated(result: TranslationResult): boolean {
+  return (
+    result.finishReason === FinishReason.length ||
+    result.completedChunks < result.totalChunks
   );
 }
 
+/**
+ * Returns the keys of the source strings that the translations don't have
+ */
+function getMissingKeys(sourceStrings: string, translations: string): string[] {
+  const translatedKeys = new Set(getStringKeys(translations));
+  return getStringKeys(sourceStrings).filter((key) => !translatedKeys.has(key));
+}
+
+/**
+ * Runs the task for every item with at most `limit` tasks at a time
+ * Results keep the order of the items
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Starts a run, with a review if translations are previewed before they are written
+ */
+function createRun(): TranslationRun {
+  const previewChanges = vscode.workspace
+    .getConfiguration(CONFIG.SECTION)
+    .get<boolean>(CONFIG.KEYS.PREVIEW_CHANGES, false);
+  return {
+    abortController: new AbortController(),
+    review: previewChanges ? new TranslationReview() : undefined,
+  };
+}
+
+/**
+ * Shows the diff of every translated file and writes the applied ones
+ */
+async function applyReviewedTranslations(review: TranslationReview) {
+  const appliedCount = await review.review();
+  if (appliedCount > 0) {
+    showInformationMessage(`✅ Applied ${appliedCount} translated file(s).`);
+  }
+}
+
 async function showInformationMessage(message: string) {
   logInfo(message);
   setTimeout(() => {
@@ -336,24 +1521,166 @@ async function showTranslationSuccess(
   }, 100);
 }
 
+function showCancellationSummary(finishedLanguages: string[]) {
+  const message =
+    finishedLanguages.length > 0
+      ? `Translation cancelled. Finished before the cancel: ${finishedLanguages.join(
+          ", "
+        )}`
+      : "Translation cancelled. No language was finished.";
+  logInfo(message);
+  vscode.window.showWarningMessage(message);
+}
+
+/**
+ * Reports the keys a truncated translation is still missing after the follow-up requests
+ */
+function showMissingKeysWarning(
+  targetLanguage: string,
+  targetFilePath: string,
+  missingKeys: string[]
+) {
+  logWarning(
+    `Translation to ${targetLanguage} is incomplete, missing keys: ${missingKeys.join(
+      ", "
+    )}`
+  );
+  const shown = missingKeys.slice(0, 10).join(", ");
+  const more =
+    missingKeys.length > 10 ? ` and ${missingKeys.length - 10} more` : "";
+  const message = `⚠️ Translation to ${targetLanguage} is incomplete: ${missingKeys.length} key(s) are still missing from ${path.basename(
+    targetFilePath
+  )}: ${shown}${more}. Translate only new strings to add them.`;
+
+  // Small delay to ensure progress dialog closes first
+  setTimeout(async () => {
+    const action = await vscode.window.showWarningMessage(message, "Open File");
+
+    // A previewed translation may have been discarded
+    if (action === "Open File" && fs.existsSync(targetFilePath)) {
+      const doc = await vscode.workspace.openTextDocument(targetFilePath);
+      await vscode.window.showTextDocument(doc);
+    }
+  }, 100);
+}
+
+/**
+ * Logs every string that doesn't follow the glossary and warns about them
+ */
+function showGlossaryViolationsWarning(
+  targetLanguage: string,
+  targetFilePath: string,
+  violations: GlossaryViolation[]
+) {
+  for (const { key, rule } of violations) {
+    logWarning(
+      rule.doNotTranslate
+        ? `Glossary (${targetLanguage}) "${key}": protected term "${rule.term}" was translated`
+        : `Glossary (${targetLanguage}) "${key}": "${rule.term}" isn't translated as "${rule.translation}"`
+    );
+  }
+  const keys = Array.from(new Set(violations.map(({ key }) => key)));
+  const shown = keys.slice(0, 10).join(", ");
+  const more = keys.length > 10 ? ` and ${keys.length - 10} more` : "";
+  const message = `⚠️ ${keys.length} key(s) translated to ${targetLanguage} in ${path.basename(
+    targetFilePath
+  )} don't follow the glossary: ${shown}${more}.`;
+
+  // Small delay to ensure progress dialog closes first
+  setTimeout(async () => {
+    const action = await vscode.window.showWarningMessage(
+      message,
+      "Show Details",
+      "Open File"
+    );
+
+    if (action === "Show Details") {
+      showLog();
+    } else if (action === "Open File" && fs.existsSync(targetFilePath)) {
+      const doc = await vscode.workspace.openTextDocument(targetFilePath);
+      await vscode.window.showTextDocument(doc);
+    }
+  }, 100);
+}
+
+function logPlaceholderMismatches(
+  targetLanguage: string,
+  mismatches: PlaceholderMismatch[]
+) {
+  for (const mismatch of mismatches) {
+    logWarning(
+      `Placeholders (${targetLanguage}) "${mismatch.key}": ${formatPlaceholderMismatch(
+        mismatch
+      )}`
+    );
+  }
+}
+
+function showPlaceholderMismatchWarning(
+  targetLanguage: string,
+  targetFilePath: string,
+  keys: string[]
+) {
+  const shown = keys.slice(0, 10).join(", ");
+  const more = keys.length > 10 ? ` and ${keys.length - 10} more` : "";
+  const message = `⚠️ ${keys.length} key(s) translated to ${targetLanguage} in ${path.basename(
+    targetFilePath
+  )} have different placeholders than the source: ${shown}${more}.`;
+
+  // Small delay to ensure progress dialog closes first
+  setTimeout(async () => {
+    const action = await vscode.window.showWarningMessage(
+      message,
+      "Show Details",
+      "Open File"
+    );
+
+    if (action === "Show Details") {
+      showLog();
+    } else if (action === "Open File" && fs.existsSync(targetFilePath)) {
+      const doc = await vscode.workspace.openTextDocument(targetFilePath);
+      await vscode.window.showTextDocument(doc);
+    }
+  }, 100);
+}
+
 async function showSummaryForMultipleTranslations(
   totalLanguages: number,
   successCount: number,
-  failedLanguages: string[]
+  failedLanguages: string[],
+  mismatchedLanguages: string[],
+  retryFailedLanguages: () => Promise<void>
 ) {
-  if (successCount === totalLanguages) {
+  const retryAction = "Retry Failed Languages";
+  const mismatches =
+    mismatchedLanguages.length > 0
+      ? `. Keys with placeholder mismatches: ${mismatchedLanguages.join(", ")}`
+      : "";
+  let action: string | undefined;
+  if (successCount === totalLanguages && mismatches) {
+    vscode.window.showWarningMessage(
+      `⚠️ Translated to all ${totalLanguages} languages${mismatches}`
+    );
+  } else if (successCount === totalLanguages) {
     vscode.window.showInformationMessage(
       `✅ Successfully translated to all ${totalLanguages} languages!`
     );
   } else if (successCount > 0) {
-    vscode.window.showWarningMessage(
+    action = await vscode.window.showWarningMessage(
       `⚠️ Translated to ${successCount}/${totalLanguages} languages. Failed: ${failedLanguages.join(
         ", "
-      )}`
+      )}${mismatches}`,
+      retryAction
     );
   } else {
-    vscode.window.showErrorMessage(
-      `❌ All translations failed. Please check the logs.`
+    action = await vscode.window.showErrorMessage(
+      `❌ All translations failed. Please check the logs.`,
+      retryAction
     );
   }
+
+  if (action === retryAction) {
+    logInfo(`Retrying failed languages: ${failedLanguages.join(", ")}`);
+    await retryFailedLanguages();
+  }
 }
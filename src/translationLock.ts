@@ -0,0 +1,473 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+import { I18nProjectManager } from "./i18nProjectManager";
+import { detectFileFormat, getFileFormatHandler } from "./fileFormats";
+import {
+  findKeyRange,
+  getKeysInLines,
+  getStringKey,
+  getStringKeys,
+  getStringValues,
+} from "./localeCoverage";
+import { DEFAULT_SOURCE_LANGUAGE, findProjectConfig } from "./projectConfig";
+import { logInfo, logWarning } from "./logger";
+
+// Written next to the source file, e.g. en.json.l10n.lock
+const LOCK_FILE_EXTENSION = ".l10n.lock";
+const LOCK_FILE_VERSION = 1;
+// Locks every key of a target language
+const ALL_KEYS = "*";
+
+/**
+ * Fingerprints of the source strings at the time each language was translated,
+ * by target language and full path of the string
+ */
+interface TranslationLock {
+  version: number;
+  languages: Record<string, Record<string, string>>;
+  /** Reviewed keys whose translation is never replaced, by target language */
+  locked: Record<string, string[]>;
+  /** Keys whose translation was written by a translation, by target language */
+  machineTranslated: Record<string, string[]>;
+}
+
+export function getLockFilePath(sourceFilePath: string): string {
+  return sourceFilePath + LOCK_FILE_EXTENSION;
+}
+
+/**
+ * Returns the keys of the target strings whose source text changed since they were translated
+ * Strings without a fingerprint, e.g. translated before the lock file existed, count as unchanged
+ */
+export function findChangedSourceKeys(
+  sourceFilePath: string,
+  targetLanguage: string,
+  sourceStrings: string,
+  targetStrings: string
+): string[] {
+  const fingerprints =
+    readLockFile(getLockFilePath(sourceFilePath))?.languages[targetLanguage] ??
+    {};
+  const lockedKeys = getLockedKeys(sourceFilePath, targetLanguage);
+  const targetValues = getStringValues(targetStrings);
+  const changedKeys = new Set<string>();
+  for (const [keyPath, value] of getStringValues(sourceStrings)) {
+    const recorded = fingerprints[keyPath];
+    if (
+      targetValues.has(keyPath) &&
+      !isKeyLocked(lockedKeys, getStringKey(keyPath)) &&
+      recorded !== undefined &&
+      recorded !== getFingerprint(value)
+    ) {
+      changedKeys.add(getStringKey(keyPath));
+    }
+  }
+  return Array.from(changedKeys);
+}
+
+/**
+ * Records the source text of the strings a target file has after a translation
+ * Translated strings get the current fingerprint, strings the target already had
+ * keep theirs so a declined change is offered again
+ */
+export function recordSourceFingerprints(
+  sourceFilePath: string,
+  targetLanguage: string,
+  sourceStrings: string,
+  translations: string,
+  translatedPaths: Iterable<string>
+) {
+  const lockPath = getLockFilePath(sourceFilePath);
+  // A lock file that can't be read, e.g. with a merge conflict, isn't overwritten
+  const lock = readLockFile(lockPath);
+  if (!lock) {
+    return;
+  }
+
+  const translated = new Set(translatedPaths);
+  const translatedValues = getStringValues(translations);
+  const fingerprints = { ...lock.languages[targetLanguage] };
+  const machineTranslated = new Set(lock.machineTranslated[targetLanguage]);
+  for (const [keyPath, value] of getStringValues(sourceStrings)) {
+    if (
+      translatedValues.has(keyPath) &&
+      (translated.has(keyPath) || fingerprints[keyPath] === undefined)
+    ) {
+      fingerprints[keyPath] = getFingerprint(value);
+    }
+    if (translatedValues.has(keyPath) && translated.has(keyPath)) {
+      machineTranslated.add(getStringKey(keyPath));
+    }
+  }
+
+  writeLockFile(lockPath, {
+    ...lock,
+    languages: { ...lock.languages, [targetLanguage]: fingerprints },
+    machineTranslated: {
+      ...lock.machineTranslated,
+      [targetLanguage]: Array.from(machineTranslated),
+    },
+  });
+}
+
+/**
+ * Returns the locked keys of a target language, "*" when all of them are locked
+ */
+export function getLockedKeys(
+  sourceFilePath: string,
+  targetLanguage: string
+): string[] {
+  return (
+    readLockFile(getLockFilePath(sourceFilePath))?.locked[targetLanguage] ?? []
+  );
+}
+
+export function isKeyLocked(lockedKeys: string[], key: string): boolean {
+  return lockedKeys.includes(ALL_KEYS) || lockedKeys.includes(key);
+}
+
+/**
+ * Locks or unlocks keys of a target language, a file with every key locked
+ * can only be unlocked as a whole in the lock file
+ */
+export function setKeysLocked(
+  sourceFilePath: string,
+  targetLanguage: string,
+  keys: string[],
+  locked: boolean
+) {
+  const lockPath = getLockFilePath(sourceFilePath);
+  const lock = readLockFile(lockPath);
+  if (!lock) {
+    throw new Error(
+      `${path.basename(lockPath)} can't be read, see the log for details.`
+    );
+  }
+
+  const lockedKeys = new Set(lock.locked[targetLanguage]);
+  for (const key of keys) {
+    if (locked) {
+      lockedKeys.add(key);
+    } else {
+      lockedKeys.delete(key);
+    }
+  }
+  writeLockFile(lockPath, {
+    ...lock,
+    locked: { ...lock.locked, [targetLanguage]: Array.from(lockedKeys) },
+  });
+}
+
+/**
+ * Returns the keys written by a translation that aren't locked yet, by target language
+ */
+export function getUnreviewedKeys(
+  sourceFilePath: string
+): Map<string, string[]> {
+  const lock = readLockFile(getLockFilePath(sourceFilePath));
+  const unreviewed = new Map<string, string[]>();
+  for (const [language, keys] of Object.entries(
+    lock?.machineTranslated ?? {}
+  )) {
+    const lockedKeys = lock?.locked[language] ?? [];
+    const unreviewedKeys = keys.filter((key) => !isKeyLocked(lockedKeys, key));
+    if (unreviewedKeys.length > 0) {
+      unreviewed.set(language, unreviewedKeys);
+    }
+  }
+  return unreviewed;
+}
+
+/**
+ * Returns the lock of a source file, undefined if the file can't be read
+ */
+function readLockFile(lockPath: string): TranslationLock | undefined {
+  if (!fs.existsSync(lockPath)) {
+    return {
+      version: LOCK_FILE_VERSION,
+      languages: {},
+      locked: {},
+      machineTranslated: {},
+    };
+  }
+  try {
+    const lock = JSON.parse(fs.readFileSync(lockPath, "utf8"));
+    const getRecord = <T>(value: unknown): Record<string, T> =>
+      value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, T>)
+        : {};
+    return {
+      version: LOCK_FILE_VERSION,
+      languages: getRecord(lock?.languages),
+      locked: getRecord(lock?.locked),
+      machineTranslated: getRecord(lock?.machineTranslated),
+    };
+  } catch (error) {
+    logWarning(
+      `Failed to read the lock file ${lockPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Keys and languages are sorted, so a committed lock file changes only where
+ * fingerprints or locks change
+ */
+function writeLockFile(lockPath: string, lock: TranslationLock) {
+  const sortRecord = <T>(record: Record<string, T>) =>
+    Object.fromEntries(
+      Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+    );
+  const sortLists = (record: Record<string, string[]>) =>
+    sortRecord(
+      Object.fromEntries(
+        Object.entries(record)
+          .filter(([, keys]) => keys.length > 0)
+          .map(([language, keys]) => [
+            language,
+            [...keys].sort((a, b) => a.localeCompare(b)),
+          ])
+      )
+    );
+  const sorted: TranslationLock = {
+    version: LOCK_FILE_VERSION,
+    languages: sortRecord(
+      Object.fromEntries(
+        Object.entries(lock.languages).map(([language, fingerprints]) => [
+          language,
+          sortRecord(fingerprints),
+        ])
+      )
+    ),
+    locked: sortLists(lock.locked),
+    machineTranslated: sortLists(lock.machineTranslated),
+  };
+  fs.writeFileSync(lockPath, JSON.stringify(sorted, null, 2) + "\n", "utf8");
+}
+
+function getFingerprint(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Locks or unlocks the keys at the cursor or in the selection of a target locale file
+ */
+export async function handleLockTranslationCommand(
+  i18nProjectManager: I18nProjectManager,
+  locked: boolean
+) {
+  const editor = vscode.window.activeTextEditor;
+  const targetFile =
+    editor && getTargetFile(editor.document, i18nProjectManager);
+  const keys = editor && targetFile && getSelectedKeys(editor, targetFile);
+  if (!editor || !targetFile || !keys?.length) {
+    vscode.window.showInformationMessage(
+      "Place the cursor on a key of a target locale file, or select keys, to lock or unlock their translation."
+    );
+    return;
+  }
+
+  const { sourceFilePath, language } = targetFile;
+  const fileName = path.basename(editor.document.uri.fsPath);
+  if (!locked && getLockedKeys(sourceFilePath, language).includes(ALL_KEYS)) {
+    vscode.window.showInformationMessage(
+      `Every translation of ${fileName} is locked in ${path.basename(
+        getLockFilePath(sourceFilePath)
+      )}.`
+    );
+    return;
+  }
+
+  try {
+    setKeysLocked(sourceFilePath, language, keys, locked);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      error instanceof Error ? error.message : "Unknown error"
+    );
+    return;
+  }
+  const message = `${locked ? "Locked" : "Unlocked"} ${
+    keys.length
+  } translation(s) of ${fileName}: ${keys.join(", ")}`;
+  logInfo(message);
+  vscode.window.showInformationMessage(`${message}.`);
+}
+
+/**
+ * Lists the translations of the source file of the active editor that were written
+ * by a translation and aren't locked, picking one opens it
+ */
+export async function handleListUnreviewedTranslationsCommand(
+  i18nProjectManager: I18nProjectManager
+) {
+  const document = vscode.window.activeTextEditor?.document;
+  const sourceFilePath =
+    document &&
+    (getTargetFile(document, i18nProjectManager)?.sourceFilePath ??
+      getSourceFilePath(document, i18nProjectManager));
+  if (!sourceFilePath) {
+    vscode.window.showInformationMessage(
+      "Open a locale file to list its unreviewed machine translations."
+    );
+    return;
+  }
+
+  const fileFormat = detectFileFormat(sourceFilePath)!;
+  const sourceContent = fs.readFileSync(sourceFilePath, "utf8");
+  const items: { label: string; description: string; filePath: string }[] = [];
+  for (const [language, keys] of getUnreviewedKeys(sourceFilePath)) {
+    const targetFilePath = i18nProjectManager.getTargetFilePath(
+      sourceFilePath,
+      language
+    );
+    // Keys the target file no longer has aren't listed
+    let targetKeys: Set<string>;
+    try {
+      targetKeys = new Set(
+        getStringKeys(
+          getFileFormatHandler(fileFormat).readTargetStrings(
+            fs.readFileSync(targetFilePath, "utf8"),
+            language,
+            sourceContent
+          )
+        )
+      );
+    } catch {
+      continue;
+    }
+    const unreviewedKeys = keys.filter((key) => targetKeys.has(key));
+    if (unreviewedKeys.length > 0) {
+      logInfo(
+        `Unreviewed machine translations of ${path.basename(
+          targetFilePath
+        )} (${unreviewedKeys.length}): ${unreviewedKeys.join(", ")}`
+      );
+    }
+    items.push(
+      ...unreviewedKeys.map((key) => ({
+        label: key,
+        description: language,
+        filePath: targetFilePath,
+      }))
+    );
+  }
+
+  const fileName = path.basename(sourceFilePath);
+  if (items.length === 0) {
+    vscode.window.showInformationMessage(
+      `No unreviewed machine translations of ${fileName}.`
+    );
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `${items.length} unreviewed machine translation(s) of ${fileName}`,
+    placeHolder:
+      "Select a translation to review it, then lock it with Lock Translation",
+    matchOnDescription: true,
+  });
+  if (!picked) {
+    return;
+  }
+
+  const doc = await vscode.workspace.openTextDocument(picked.filePath);
+  const range = findKeyRange(doc.getText(), picked.label);
+  await vscode.window.showTextDocument(doc, {
+    selection: range
+      ? new vscode.Range(doc.positionAt(range.start), doc.positionAt(range.end))
+      : undefined,
+  });
+}
+
+/**
+ * The source file and language of a target locale file, files that store all
+ * languages have no target file of their own
+ */
+function getTargetFile(
+  document: vscode.TextDocument,
+  i18nProjectManager: I18nProjectManager
+): { sourceFilePath: string; language: string } | undefined {
+  const targetFilePath = document.uri.fsPath;
+  const fileFormat = detectFileFormat(targetFilePath);
+  if (
+    document.uri.scheme !== "file" ||
+    !fileFormat ||
+    getFileFormatHandler(fileFormat).storesAllLanguages
+  ) {
+    return undefined;
+  }
+
+  const language = i18nProjectManager.detectSourceLanguage(targetFilePath);
+  const sourceFilePath = i18nProjectManager.findSourceFilePath(
+    targetFilePath,
+    getSourceLanguage(document)
+  );
+  return language && sourceFilePath ? { sourceFilePath, language } : undefined;
+}
+
+function getSourceFilePath(
+  document: vscode.TextDocument,
+  i18nProjectManager: I18nProjectManager
+): string | undefined {
+  const filePath = document.uri.fsPath;
+  const fileFormat = detectFileFormat(filePath);
+  return document.uri.scheme === "file" &&
+    fileFormat &&
+    !getFileFormatHandler(fileFormat).storesAllLanguages &&
+    i18nProjectManager.isSourceFile(filePath, getSourceLanguage(document))
+    ? filePath
+    : undefined;
+}
+
+function getSourceLanguage(document: vscode.TextDocument): string {
+  try {
+    const projectConfig = findProjectConfig(
+      document.uri.fsPath,
+      vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+    );
+    return projectConfig?.config.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE;
+  } catch (error) {
+    logWarning(
+      `Ignoring project config for ${document.uri.fsPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return DEFAULT_SOURCE_LANGUAGE;
+  }
+}
+
+/**
+ * Returns the keys of a target file on the lines of the selection
+ */
+function getSelectedKeys(
+  editor: vscode.TextEditor,
+  { sourceFilePath, language }: { sourceFilePath: string; language: string }
+): string[] {
+  const { document, selection } = editor;
+  const content = document.getText();
+  try {
+    const keys = getStringKeys(
+      getFileFormatHandler(
+        detectFileFormat(document.uri.fsPath)!
+      ).readTargetStrings(
+        content,
+        language,
+        fs.readFileSync(sourceFilePath, "utf8")
+      )
+    );
+    // A selection that ends at the start of a line doesn't include that line
+    const endLine =
+      selection.end.line > selection.start.line && selection.end.character === 0
+        ? selection.end.line - 1
+        : selection.end.line;
+    return getKeysInLines(content, keys, selection.start.line, endLine);
+  } catch {
+    // Files that don't parse while being edited have no keys to offer
+    return [];
+  }
+}
@@ -0,0 +1,294 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { logInfo, logWarning } from "./logger";
+import { CONFIG } from "./constants";
+
+const MEMORY_FILE_NAME = "translation-memory.json";
+const WORKSPACE_MEMORY_DIRECTORY = ".l10n";
+const MEMORY_FILE_VERSION = 1;
+
+export type TranslationMemoryLocation = "user" | "workspace" | "off";
+
+/**
+ * What a translation depends on besides its source string
+ */
+export interface TranslationMemoryScope {
+  sourceLanguage?: string;
+  targetLanguage: string;
+  useContractions: boolean;
+  useShortening: boolean;
+}
+
+export interface TranslationMemoryEntry extends TranslationMemoryScope {
+  source: string;
+  translation: string;
+  updatedAt: string;
+}
+
+interface TranslationMemoryFile {
+  version: number;
+  entries: TranslationMemoryEntry[];
+}
+
+/**
+ * Remembers translated strings, so identical strings aren't sent for translation again
+ * The memory is a JSON file in the extension storage, or in the workspace folder
+ * where the team can share it
+ */
+export class TranslationMemory {
+  constructor(private readonly userStoragePath: string) {}
+
+  /**
+   * Returns the memory file used for a locale file, undefined when the memory is off
+   * Without a workspace folder the memory is kept in the extension storage
+   */
+  getFilePath(uri?: vscode.Uri): string | undefined {
+    const location = vscode.workspace
+      .getConfiguration(CONFIG.SECTION, uri)
+      .get<TranslationMemoryLocation>(CONFIG.KEYS.TRANSLATION_MEMORY, "user");
+    if (location === "off") {
+      return undefined;
+    }
+
+    const workspaceFolder =
+      (uri && vscode.workspace.getWorkspaceFolder(uri)) ??
+      vscode.workspace.workspaceFolders?.[0];
+    return location === "workspace" && workspaceFolder
+      ? path.join(
+          workspaceFolder.uri.fsPath,
+          WORKSPACE_MEMORY_DIRECTORY,
+          MEMORY_FILE_NAME
+        )
+      : path.join(this.userStoragePath, MEMORY_FILE_NAME);
+  }
+
+  /**
+   * Returns the remembered translations of the given source strings by source string
+   */
+  lookup(
+    memoryPath: string,
+    scope: TranslationMemoryScope,
+    sources: Iterable<string>
+  ): Map<string, string> {
+    const entries = new Map(
+      (this.read(memoryPath) ?? []).map((entry) => [getEntryKey(entry), entry])
+    );
+    const translations = new Map<string, string>();
+    for (const source of sources) {
+      const entry = entries.get(getEntryKey({ ...scope, source }));
+      if (entry) {
+        translations.set(source, entry.translation);
+      }
+    }
+    return translations;
+  }
+
+  /**
+   * Remembers translations by their source string, replacing older ones
+   */
+  add(
+    memoryPath: string,
+    scope: TranslationMemoryScope,
+    translations: Map<string, string>
+  ) {
+    if (translations.size === 0) {
+      return;
+    }
+    // A file that can't be read, e.g. with a merge conflict, isn't overwritten
+    const currentEntries = this.read(memoryPath);
+    if (!currentEntries) {
+      return;
+    }
+
+    const entries = new Map(
+      currentEntries.map((entry) => [getEntryKey(entry), entry])
+    );
+    const updatedAt = new Date().toISOString();
+    for (const [source, translation] of translations) {
+      const entry = { ...scope, source, translation, updatedAt };
+      entries.set(getEntryKey(entry), entry);
+    }
+    this.write(memoryPath, Array.from(entries.values()));
+  }
+
+  getEntries(memoryPath: string): TranslationMemoryEntry[] {
+    return this.read(memoryPath) ?? [];
+  }
+
+  clear(memoryPath: string) {
+    fs.rmSync(memoryPath, { force: true });
+    logInfo(`Cleared the translation memory ${memoryPath}`);
+  }
+
+  /**
+   * Returns the entries of a memory file, undefined if the file can't be read
+   */
+  private read(memoryPath: string): TranslationMemoryEntry[] | undefined {
+    if (!fs.existsSync(memoryPath)) {
+      return [];
+    }
+    try {
+      const file = JSON.parse(
+        fs.readFileSync(memoryPath, "utf8")
+      ) as TranslationMemoryFile;
+      return Array.isArray(file.entries) ? file.entries : [];
+    } catch (error) {
+      logWarning(
+        `Failed to read the translation memory ${memoryPath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Entries are sorted, so a shared memory file changes only where entries change
+   */
+  private write(memoryPath: string, entries: TranslationMemoryEntry[]) {
+    const file: TranslationMemoryFile = {
+      version: MEMORY_FILE_VERSION,
+      entries: entries.sort((a, b) =>
+        getEntryKey(a).localeCompare(getEntryKey(b))
+      ),
+    };
+    fs.mkdirSync(path.dirname(memoryPath), { recursive: true });
+    fs.writeFileSync(memoryPath, JSON.stringify(file, null, 2) + "\n", "utf8");
+  }
+}
+
+function getEntryKey(
+  entry: TranslationMemoryScope & { source: string }
+): string {
+  return JSON.stringify([
+    entry.sourceLanguage ?? "",
+    entry.targetLanguage,
+    entry.useContractions,
+    entry.useShortening,
+    entry.source,
+  ]);
+}
+
+/**
+ * Lists the entries of the memory, picking one copies its translation
+ */
+export async function handleShowTranslationMemoryCommand(
+  translationMemory: TranslationMemory
+) {
+  const memoryPath = getActiveMemoryPath(translationMemory);
+  if (!memoryPath) {
+    return;
+  }
+  const entries = translationMemory.getEntries(memoryPath);
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("The translation memory is empty.");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    entries.map((entry) => ({
+      label: entry.source,
+      description: `${entry.sourceLanguage ?? "auto"} → ${
+        entry.targetLanguage
+      }`,
+      detail: entry.translation,
+      entry,
+    })),
+    {
+      title: `Translation Memory (${entries.length.toLocaleString()} entries)`,
+      placeHolder: "Search source strings, languages or translations",
+      matchOnDescription: true,
+      matchOnDetail: true,
+    }
+  );
+  if (picked) {
+    await vscode.env.clipboard.writeText(picked.entry.translation);
+    vscode.window.showInformationMessage("Translation copied to clipboard.");
+  }
+}
+
+/**
+ * Saves the entries of the memory to a JSON file
+ */
+export async function handleExportTranslationMemoryCommand(
+  translationMemory: TranslationMemory
+) {
+  const memoryPath = getActiveMemoryPath(translationMemory);
+  if (!memoryPath) {
+    return;
+  }
+  const entries = translationMemory.getEntries(memoryPath);
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("The translation memory is empty.");
+    return;
+  }
+
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: workspaceFolder
+      ? vscode.Uri.joinPath(workspaceFolder.uri, MEMORY_FILE_NAME)
+      : undefined,
+    filters: { JSON: ["json"] },
+    title: "Export Translation Memory",
+  });
+  if (!uri) {
+    return;
+  }
+
+  const file: TranslationMemoryFile = {
+    version: MEMORY_FILE_VERSION,
+    entries,
+  };
+  fs.writeFileSync(uri.fsPath, JSON.stringify(file, null, 2) + "\n", "utf8");
+  const message = `Exported ${entries.length.toLocaleString()} translation memory entries to ${path.basename(
+    uri.fsPath
+  )}`;
+  logInfo(message);
+  vscode.window.showInformationMessage(message);
+}
+
+/**
+ * Removes every entry of the memory after confirmation
+ */
+export async function handleClearTranslationMemoryCommand(
+  translationMemory: TranslationMemory
+) {
+  const memoryPath = getActiveMemoryPath(translationMemory);
+  if (!memoryPath) {
+    return;
+  }
+  const entries = translationMemory.getEntries(memoryPath);
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("The translation memory is empty.");
+    return;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Clear all ${entries.length.toLocaleString()} entries of the translation memory? Their strings will be sent for translation again.`,
+    { modal: true },
+    "Clear"
+  );
+  if (choice === "Clear") {
+    translationMemory.clear(memoryPath);
+    vscode.window.showInformationMessage("Translation memory cleared.");
+  }
+}
+
+/**
+ * The memory of the file in the active editor, or of the first workspace folder
+ */
+function getActiveMemoryPath(
+  translationMemory: TranslationMemory
+): string | undefined {
+  const memoryPath = translationMemory.getFilePath(
+    vscode.window.activeTextEditor?.document.uri
+  );
+  if (!memoryPath) {
+    vscode.window.showInformationMessage(
+      "The translation memory is turned off in the settings."
+    );
+  }
+  return memoryPath;
+}
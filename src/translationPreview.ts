@@ -0,0 +1,158 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { logInfo } from "./logger";
+import { VSCODE_COMMANDS } from "./constants";
+
+export const TRANSLATION_PREVIEW_SCHEME = "l10n-translation-preview";
+
+// Contents of the preview documents by URI, shared by the provider and reviews
+const previewContents = new Map<string, string>();
+const previewChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+/**
+ * Serves proposed translations as read-only documents for the diff editor
+ */
+export class TranslationPreviewProvider
+  implements vscode.TextDocumentContentProvider
+{
+  readonly onDidChange = previewChangeEmitter.event;
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return previewContents.get(uri.toString()) ?? "";
+  }
+}
+
+/**
+ * A translated file waiting for review
+ */
+interface ProposedFile {
+  filePath: string;
+  content: string;
+  languages: string[];
+  /** Called when the file is applied */
+  onApply: (() => void)[];
+}
+
+type ReviewChoice = "Apply" | "Discard" | "Apply All";
+
+/**
+ * Collects the translated files of a run and shows each one as a diff against
+ * the current file, only applied files are written
+ */
+export class TranslationReview {
+  private readonly proposals = new Map<string, ProposedFile>();
+
+  /**
+   * Returns the proposed content of a file, so languages written to the same
+   * file (String Catalogs) build on each other
+   */
+  getProposedContent(filePath: string): string | undefined {
+    return this.proposals.get(filePath)?.content;
+  }
+
+  propose(
+    filePath: string,
+    content: string,
+    language: string,
+    onApply?: () => void
+  ) {
+    const proposal = this.proposals.get(filePath);
+    this.proposals.set(filePath, {
+      filePath,
+      content,
+      languages: [...(proposal?.languages ?? []), language],
+      onApply: [...(proposal?.onApply ?? []), ...(onApply ? [onApply] : [])],
+    });
+  }
+
+  /**
+   * Reviews the proposed files one by one and returns the number of applied files
+   */
+  async review(): Promise<number> {
+    const files = Array.from(this.proposals.values());
+    let applyAll = false;
+    let appliedCount = 0;
+
+    for (const [index, file] of files.entries()) {
+      if (!applyAll) {
+        const choice = await this.reviewFile(file, index, files.length);
+        if (choice === "Apply All") {
+          applyAll = true;
+        } else if (choice !== "Apply") {
+          logInfo(`Discarded translation of ${file.filePath}`);
+          continue;
+        }
+      }
+
+      fs.writeFileSync(file.filePath, file.content, "utf8");
+      file.onApply.forEach((onApply) => onApply());
+      logInfo(`Applied translation of ${file.filePath}`);
+      appliedCount++;
+    }
+
+    this.proposals.clear();
+    return appliedCount;
+  }
+
+  private async reviewFile(
+    file: ProposedFile,
+    index: number,
+    fileCount: number
+  ): Promise<ReviewChoice | undefined> {
+    const fileName = path.basename(file.filePath);
+    const proposedUri = vscode.Uri.from({
+      scheme: TRANSLATION_PREVIEW_SCHEME,
+      path: file.filePath,
+      query: "proposed",
+    });
+    // New files are compared with an empty document
+    const currentUri = fs.existsSync(file.filePath)
+      ? vscode.Uri.file(file.filePath)
+      : proposedUri.with({ query: "empty" });
+
+    setPreviewContent(proposedUri, file.content);
+    setPreviewContent(currentUri, "");
+    try {
+      await vscode.commands.executeCommand(
+        VSCODE_COMMANDS.DIFF,
+        currentUri,
+        proposedUri,
+        `${fileName} ↔ Translation (${file.languages.join(", ")})`,
+        { preview: true }
+      );
+
+      const actions: ReviewChoice[] =
+        fileCount - index > 1
+          ? ["Apply", "Discard", "Apply All"]
+          : ["Apply", "Discard"];
+      const progress = fileCount > 1 ? ` (${index + 1}/${fileCount})` : "";
+      const choice = await vscode.window.showInformationMessage(
+        `Review the translation of ${fileName}${progress}. Apply it to the file?`,
+        ...actions
+      );
+
+      if (
+        vscode.window.activeTextEditor?.document.uri.toString() ===
+        proposedUri.toString()
+      ) {
+        await vscode.commands.executeCommand(
+          VSCODE_COMMANDS.CLOSE_ACTIVE_EDITOR
+        );
+      }
+      return choice;
+    } finally {
+      previewContents.delete(proposedUri.toString());
+      previewContents.delete(currentUri.toString());
+    }
+  }
+}
+
+function setPreviewContent(uri: vscode.Uri, content: string) {
+  if (uri.scheme === TRANSLATION_PREVIEW_SCHEME) {
+    previewContents.set(uri.toString(), content);
+    // Documents that are still open show the new proposal
+    previewChangeEmitter.fire(uri);
+  }
+}
@@ -1,5 +1,8 @@
+import type { Memento } from "vscode";
+
 import { ApiKeyManager } from "./apiKeyManager";
-import { URLS } from "./constants";
+import type { TranslationMemory } from "./translationMemory";
+import { STATE_KEYS, URLS } from "./constants";
 import { logInfo, logWarning, showAndLogError } from "./logger";
 
 // API Types based on the OpenAPI specification
@@ -29,6 +32,26 @@ export interface TranslationUsage {
   charsUsed?: number;
 }
 
+/**
+ * How a translation request is sent
+ */
+export interface TranslateJsonOptions {
+  /** Aborts the request, e.g. when the user cancels */
+  signal?: AbortSignal;
+  /** Number of times a request that hit a rate limit, server or network error is sent again */
+  maxRetries?: number;
+  /** Called with the translated chunks of every response that reports them */
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
+/**
+ * Chunks of a translation that are done, large files are translated in several chunks
+ */
+export interface TranslationProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
 export enum FinishReason {
   stop = "stop",
   length = "length",
@@ -37,6 +60,22 @@ export enum FinishReason {
   error = "error",
 }
 
+/**
+ * Thrown when a translation is cancelled before it finishes
+ */
+export class TranslationCancelledError extends Error {
+  constructor() {
+    super("Translation cancelled.");
+    this.name = "TranslationCancelledError";
+  }
+}
+
+// Delay before the first retry without a Retry-After header, doubled for every next one
+const RETRY_BASE_DELAY_MS = 1000;
+// Longest wait before a retry, a later Retry-After would leave the progress without feedback
+const MAX_RETRY_DELAY_MS = 60000;
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+
 export interface Language {
   code: string;
   name: string;
@@ -49,9 +88,25 @@ export interface LanguagePredictionResponse {
 export class L10nTranslationService {
   private readonly baseUrl = URLS.API_BASE;
   private readonly apiKeyManager: ApiKeyManager;
+  private readonly globalState?: Memento;
+  /** Strings translated before, looked up before they are sent */
+  readonly translationMemory?: TranslationMemory;
 
-  constructor(apiKeyManager: ApiKeyManager) {
+  constructor(
+    apiKeyManager: ApiKeyManager,
+    globalState?: Memento,
+    translationMemory?: TranslationMemory
+  ) {
     this.apiKeyManager = apiKeyManager;
+    this.globalState = globalState;
+    this.translationMemory = translationMemory;
+  }
+
+  /**
+   * Remaining characters reported by the last translation, undefined before the first one
+   */
+  get remainingBalance(): number | undefined {
+    return this.globalState?.get<number>(STATE_KEYS.REMAINING_BALANCE);
   }
 
   async predictLanguages(
@@ -84,7 +139,8 @@ export class L10nTranslationService {
   }
 
   async translateJson(
-    request: TranslationRequest
+    request: TranslationRequest,
+    { signal, maxRetries = 0, onProgress }: TranslateJsonOptions = {}
   ): Promise<TranslationResult | null> {
     const apiKey = await this.apiKeyManager.getApiKey();
     if (!apiKey) {
@@ -93,14 +149,51 @@ export class L10nTranslationService {
 
     logInfo(`Starting translation to ${request.targetLanguageCode}`);
 
-    const response = await fetch(`${this.baseUrl}/translate`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-API-Key": apiKey,
-      },
-      body: JSON.stringify(request),
-    });
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      let retryAfter: string | null = null;
+      try {
+        response = await fetch(`${this.baseUrl}/translate`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-API-Key": apiKey,
+          },
+          body: JSON.stringify(request),
+          signal,
+        });
+        if (
+          !RETRYABLE_STATUS_CODES.includes(response.status) ||
+          attempt >= maxRetries
+        ) {
+          break;
+        }
+        retryAfter = response.headers.get("Retry-After");
+        logWarning(
+          `Translation API error - ${response.status} ${response.statusText}`
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new TranslationCancelledError();
+        }
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+        logWarning(
+          `Translation request failed - ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+
+      const delayMs = getRetryDelay(attempt, retryAfter);
+      logInfo(
+        `Retrying translation to ${request.targetLanguageCode} in ${Math.ceil(
+          delayMs / 1000
+        )}s (${attempt + 1}/${maxRetries})`
+      );
+      await wait(delayMs, signal);
+    }
 
     if (!response.ok) {
       let errorMessage: string;
@@ -165,6 +258,9 @@ export class L10nTranslationService {
         case 413:
           errorMessage = "Request too large. Maximum request size is 10 MB.";
           break;
+        case 429:
+          errorMessage = "Too many requests. Please try again later.";
+          break;
         case 500:
           errorMessage = `An internal server error occurred (Error code: ${
             errorData?.errorCode || "unknown"
@@ -178,7 +274,26 @@ export class L10nTranslationService {
       throw new Error(errorMessage);
     }
 
-    const result = (await response.json()) as TranslationResult;
+    let result: TranslationResult;
+    try {
+      result = (await response.json()) as TranslationResult;
+    } catch (error) {
+      throw signal?.aborted ? new TranslationCancelledError() : error;
+    }
+
+    if (result.remainingBalance !== undefined) {
+      this.globalState?.update(
+        STATE_KEYS.REMAINING_BALANCE,
+        result.remainingBalance
+      );
+    }
+
+    if (result.totalChunks) {
+      onProgress?.({
+        completedChunks: result.completedChunks,
+        totalChunks: result.totalChunks,
+      });
+    }
 
     // Handle finish reasons by throwing errors
     if (result.finishReason) {
@@ -201,10 +316,59 @@ export class L10nTranslationService {
           throw new Error("Translation blocked by content filter.");
         case FinishReason.error:
           throw new Error("Translation failed due to an error.");
-        // Note: FinishReason.length is not treated as an error - translation is still usable
+        // Note: FinishReason.length is not treated as an error - the partial translation
+        // is usable and the rest can be requested with translateOnlyNewStrings
       }
     }
 
     return result;
   }
 }
+
+/**
+ * Uses the Retry-After header (seconds or a date) if the server sent one, up to
+ * MAX_RETRY_DELAY_MS, otherwise an exponential backoff with jitter, so parallel
+ * requests don't retry together
+ */
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delayMs = Number.isNaN(seconds)
+      ? Date.parse(retryAfter) - Date.now()
+      : seconds * 1000;
+    if (!Number.isNaN(delayMs)) {
+      if (delayMs > MAX_RETRY_DELAY_MS) {
+        logWarning(
+          `Retry-After of ${Math.ceil(delayMs / 1000)}s is longer than ${
+            MAX_RETRY_DELAY_MS / 1000
+          }s, retrying after ${MAX_RETRY_DELAY_MS / 1000}s`
+        );
+        return MAX_RETRY_DELAY_MS;
+      }
+      return Math.max(0, delayMs);
+    }
+  }
+  const backoffMs = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return backoffMs / 2 + Math.random() * (backoffMs / 2);
+}
+
+/**
+ * Waits before a retry, rejecting as soon as the translation is cancelled
+ */
+function wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TranslationCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TranslationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,213 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+
+interface StringUnit {
+  state?: string;
+  value: string;
+}
+
+interface Localization {
+  stringUnit?: StringUnit;
+  variations?: {
+    plural?: Record<string, { stringUnit?: StringUnit }>;
+  };
+}
+
+interface CatalogEntry {
+  comment?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, Localization>;
+}
+
+interface StringCatalog {
+  sourceLanguage: string;
+  strings: Record<string, CatalogEntry>;
+}
+
+// States of localizations that already hold a translation
+const TRANSLATED_STATES = ["translated", "needs_review"];
+
+const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+/**
+ * Apple String Catalogs (Localizable.xcstrings)
+ * The catalog holds every language, so translations are written into the
+ * `localizations` of the same file instead of a separate target file
+ */
+export class XcstringsFormatHandler implements FileFormatHandler {
+  readonly displayName = "String Catalog";
+  readonly extensions = [".xcstrings"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = true;
+  readonly storesAllLanguages = true;
+
+  toJson(content: string): string {
+    const catalog = parseCatalog(content);
+    const strings: Record<string, string> = {};
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      if (entry.shouldTranslate === false) {
+        continue;
+      }
+
+      const jsonKey = getJsonKey(key, entry);
+      const localization = entry.localizations?.[catalog.sourceLanguage];
+      const plural = localization?.variations?.plural;
+
+      if (plural) {
+        for (const category of PLURAL_CATEGORIES) {
+          const value = plural[category]?.stringUnit?.value;
+          if (value !== undefined) {
+            strings[`${jsonKey}_${category}`] = value;
+          }
+        }
+      } else if (!localization?.variations) {
+        // Keys without a source localization are the source text themselves
+        strings[jsonKey] = localization?.stringUnit?.value ?? key;
+      }
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(content: string, languageCode: string): string {
+    const catalog = parseCatalog(content);
+    const strings: Record<string, string> = {};
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      const jsonKey = getJsonKey(key, entry);
+      const localization = entry.localizations?.[languageCode];
+
+      if (isTranslated(localization?.stringUnit)) {
+        strings[jsonKey] = localization!.stringUnit!.value;
+      }
+
+      for (const [category, variation] of Object.entries(
+        localization?.variations?.plural ?? {}
+      )) {
+        if (isTranslated(variation.stringUnit)) {
+          strings[`${jsonKey}_${category}`] = variation.stringUnit!.value;
+        }
+      }
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+    const catalog = parseCatalog(context.sourceContent);
+    const language = context.targetLanguage;
+    const state = context.markForReview ? "needs_review" : "translated";
+    const replacedKeys = new Set(context.replacedKeys);
+
+    for (const [key, entry] of Object.entries(catalog.strings)) {
+      const jsonKey = getJsonKey(key, entry);
+      if (
+        entry.shouldTranslate === false ||
+        (hasTranslation(entry, language) && !replacedKeys.has(jsonKey))
+      ) {
+        continue;
+      }
+
+      const sourceLocalization = entry.localizations?.[catalog.sourceLanguage];
+      let localization: Localization | undefined;
+
+      if (sourceLocalization?.variations?.plural) {
+        const plural: Record<string, { stringUnit: StringUnit }> = {};
+        for (const category of PLURAL_CATEGORIES) {
+          const value = translated[`${jsonKey}_${category}`];
+          if (typeof value === "string") {
+            plural[category] = { stringUnit: { state, value } };
+          }
+        }
+        if (Object.keys(plural).length > 0) {
+          localization = { variations: { plural } };
+        }
+      } else if (typeof translated[jsonKey] === "string") {
+        localization = {
+          stringUnit: { state, value: translated[jsonKey] as string },
+        };
+      }
+
+      if (localization) {
+        entry.localizations = sortKeys({
+          ...entry.localizations,
+          [language]: localization,
+        });
+      }
+    }
+
+    const trailingNewline = context.sourceContent.endsWith("\n") ? "\n" : "";
+    return stringifyCatalog(catalog) + trailingNewline;
+  }
+}
+
+function parseCatalog(content: string): StringCatalog {
+  let catalog: StringCatalog;
+  try {
+    catalog = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid String Catalog: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  catalog.strings ??= {};
+  return catalog;
+}
+
+/**
+ * Comments are added to the key so they are sent as context
+ */
+function getJsonKey(key: string, entry: CatalogEntry): string {
+  return entry.comment ? `${key} (${entry.comment})` : key;
+}
+
+function isTranslated(stringUnit: StringUnit | undefined): boolean {
+  return !!stringUnit && TRANSLATED_STATES.includes(stringUnit.state ?? "");
+}
+
+/**
+ * Returns true if the language already has a translated string or plural variation
+ */
+function hasTranslation(entry: CatalogEntry, language: string): boolean {
+  const localization = entry.localizations?.[language];
+  return (
+    isTranslated(localization?.stringUnit) ||
+    Object.values(localization?.variations?.plural ?? {}).some((variation) =>
+      isTranslated(variation.stringUnit)
+    )
+  );
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  );
+}
+
+/**
+ * Serializes the catalog the way Xcode does, with " : " separators
+ * and empty objects written on two lines
+ */
+function stringifyCatalog(value: unknown, indent = ""): string {
+  if (!value || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+
+  const innerIndent = `${indent}  `;
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  const items = Array.isArray(value)
+    ? value.map((item) => innerIndent + stringifyCatalog(item, innerIndent))
+    : Object.entries(value).map(
+        ([key, item]) =>
+          `${innerIndent}${JSON.stringify(key)} : ${stringifyCatalog(
+            item,
+            innerIndent
+          )}`
+      );
+
+  return `${open}\n${items.join(",\n")}\n${indent}${close}`;
+}
@@ -0,0 +1,350 @@
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+import {
+  escapeXml,
+  getAttribute,
+  PlaceholderText,
+  replaceWithPlaceholders,
+  restorePlaceholders,
+  setAttribute,
+  unescapeXml,
+} from "./xmlUtils";
+
+interface XliffSegment {
+  /** Unit id, with the segment position when the unit has several segments */
+  id: string;
+  /** JSON key: the id with the unit's notes as context */
+  key: string;
+  /** Inner XML of <source> */
+  source: string;
+  /** Full <target> element, if present */
+  targetElement?: string;
+  /** Inner XML of <target> */
+  target?: string;
+  state?: string;
+  /** Custom state of an XLIFF 2.0 segment, e.g. l10n:needs-review */
+  subState?: string;
+}
+
+// Inline elements whose content is native code (XLIFF 1.2), replaced as a whole
+const CODE_ELEMENT_REGEX =
+  /<(bpt|ept|it|ph)\b[^>]*(?<!\/)>[\s\S]*?<\/\1>|<[^>]+>/g;
+// Alternative translations carry their own <source>/<target>, they must not be matched
+const ALT_TRANS_REGEX = /<alt-trans\b[\s\S]*?<\/alt-trans>/g;
+const SOURCE_REGEX = /<source\b[^>]*>([\s\S]*?)<\/source>|<source\b[^>]*\/>/;
+const TARGET_REGEX =
+  /<target\b([^>]*)>([\s\S]*?)<\/target>|<target\b([^>]*)\/>/;
+const NOTE_REGEX = /<note\b([^>]*)>([\s\S]*?)<\/note>/g;
+
+// States that mean the target still has to be translated
+const UNTRANSLATED_STATES = ["new", "needs-translation", "initial"];
+// XLIFF 2.0 has no review state before "reviewed", new translations get this subState
+const NEEDS_REVIEW_SUB_STATE = "l10n:needs-review";
+
+/**
+ * XLIFF 1.2 and 2.0 files (Angular messages.xlf, CAT tool handoffs)
+ * Each <source> is sent as a string keyed by unit id, with notes as context in the key.
+ * Inline elements such as <x/> and <ph> are replaced with {{ph_N}} placeholders and restored verbatim
+ */
+export class XliffFormatHandler implements FileFormatHandler {
+  readonly displayName = "XLIFF";
+  readonly extensions = [".xlf", ".xliff"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = false;
+  readonly storesAllLanguages = false;
+
+  toJson(content: string): string {
+    const strings: Record<string, string> = {};
+
+    for (const segment of this.readSegments(content)) {
+      strings[segment.key] = toText(segment.source).text;
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  readTargetStrings(
+    content: string,
+    languageCode: string,
+    sourceContent?: string
+  ): string {
+    const strings: Record<string, string> = {};
+    // Notes of a returned file may have been edited, the source's notes make the key
+    const sourceKeys = new Map(
+      this.readSegments(sourceContent ?? "").map((segment) => [
+        segment.id,
+        segment.key,
+      ])
+    );
+
+    for (const segment of this.readSegments(content)) {
+      if (isTranslated(segment)) {
+        const key = sourceKeys.get(segment.id) ?? segment.key;
+        strings[key] = toText(segment.target!).text;
+      }
+    }
+
+    return JSON.stringify(strings, null, 2);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const translated = JSON.parse(translations) as Record<string, unknown>;
+    const replacedKeys = new Set(context.replacedKeys);
+    // Existing segments are matched by id, their notes may differ from the source's
+    const existingSegments = new Map(
+      this.readSegments(context.targetContent ?? "").map((segment) => [
+        segment.id,
+        segment,
+      ])
+    );
+
+    if (isXliff2(context.sourceContent)) {
+      const content = context.sourceContent.replace(/<xliff\b[^>]*>/, (tag) =>
+        setAttribute(tag, "trgLang", context.targetLanguage)
+      );
+
+      return this.rewriteUnits2(content, (key, segmentXml, id) => {
+        const existing = existingSegments.get(id);
+        if (existing && isTranslated(existing) && !replacedKeys.has(key)) {
+          // Keep existing translations, including their review state
+          return setSegmentTarget(
+            segmentXml,
+            existing.targetElement!,
+            existing.state,
+            existing.subState
+          );
+        }
+
+        const translation = translated[key];
+        if (typeof translation !== "string") {
+          return segmentXml;
+        }
+
+        const source = segmentXml.match(SOURCE_REGEX)?.[1] ?? "";
+        const target = `<target>${fromText(translation, source)}</target>`;
+        return setSegmentTarget(
+          segmentXml,
+          target,
+          "translated",
+          context.markForReview ? NEEDS_REVIEW_SUB_STATE : undefined
+        );
+      });
+    }
+
+    const content = context.sourceContent.replace(/<file\b[^>]*>/g, (tag) =>
+      setAttribute(tag, "target-language", context.targetLanguage)
+    );
+
+    const newState = context.markForReview
+      ? "needs-review-translation"
+      : "translated";
+
+    return this.rewriteUnits12(content, (key, unitXml, id) => {
+      const existing = existingSegments.get(id);
+      if (existing && isTranslated(existing) && !replacedKeys.has(key)) {
+        return setTarget(unitXml, existing.targetElement!);
+      }
+
+      const translation = translated[key];
+      if (typeof translation !== "string") {
+        return unitXml;
+      }
+
+      const source = maskAltTrans(unitXml).match(SOURCE_REGEX)?.[1] ?? "";
+      const target = `<target state="${newState}">${fromText(
+        translation,
+        source
+      )}</target>`;
+      return setTarget(unitXml, target);
+    });
+  }
+
+  private readSegments(content: string): XliffSegment[] {
+    const segments: XliffSegment[] = [];
+
+    // Masking keeps positions, so matches outside <alt-trans> are the real content
+    const collect = (
+      key: string,
+      xml: string,
+      id: string,
+      segmentState?: string,
+      subState?: string
+    ) => {
+      const masked = maskAltTrans(xml);
+      const sourceMatch = masked.match(SOURCE_REGEX);
+      const targetMatch = masked.match(TARGET_REGEX);
+      const targetAttributes = targetMatch?.[1] ?? targetMatch?.[3] ?? "";
+
+      segments.push({
+        id,
+        key,
+        source: sourceMatch?.[1] ?? "",
+        targetElement: targetMatch?.[0],
+        target: targetMatch ? (targetMatch[2] ?? "") : undefined,
+        state: segmentState ?? getAttribute(targetAttributes, "state"),
+        subState,
+      });
+      return xml;
+    };
+
+    if (isXliff2(content)) {
+      this.rewriteUnits2(content, (key, segmentXml, id) => {
+        const segmentAttributes =
+          segmentXml.match(/^<segment\b([^>]*)>/)?.[1] ?? "";
+        return collect(
+          key,
+          segmentXml,
+          id,
+          getAttribute(segmentAttributes, "state"),
+          getAttribute(segmentAttributes, "subState")
+        );
+      });
+    } else {
+      this.rewriteUnits12(content, collect);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Calls rewrite for every XLIFF 1.2 <trans-unit> with its key, XML and id
+   */
+  private rewriteUnits12(
+    content: string,
+    rewrite: (key: string, unitXml: string, id: string) => string
+  ): string {
+    let unitIndex = 0;
+    return content.replace(
+      /<trans-unit\b([^>]*)>[\s\S]*?<\/trans-unit>/g,
+      (unitXml, attributes: string) => {
+        const unitId = getAttribute(attributes, "id") ?? String(unitIndex);
+        unitIndex++;
+        return rewrite(this.getKey(unitXml, unitId), unitXml, unitId);
+      }
+    );
+  }
+
+  /**
+   * Calls rewrite for every XLIFF 2.0 <segment>, keyed by unit id and segment position
+   */
+  private rewriteUnits2(
+    content: string,
+    rewrite: (key: string, segmentXml: string, id: string) => string
+  ): string {
+    let unitIndex = 0;
+    return content.replace(
+      /<unit\b([^>]*)>[\s\S]*?<\/unit>/g,
+      (unitXml, attributes: string) => {
+        const unitId = getAttribute(attributes, "id") ?? String(unitIndex);
+        unitIndex++;
+        const segmentCount = (unitXml.match(/<segment\b/g) ?? []).length;
+        let segmentIndex = 0;
+
+        return unitXml.replace(
+          /<segment\b[^>]*>[\s\S]*?<\/segment>/g,
+          (segmentXml) => {
+            const id =
+              segmentCount > 1 ? `${unitId}#${segmentIndex++}` : unitId;
+            return rewrite(this.getKey(unitXml, id), segmentXml, id);
+          }
+        );
+      }
+    );
+  }
+
+  /**
+   * Builds the JSON key for a unit: "id (notes)", location notes are left out
+   */
+  private getKey(unitXml: string, id: string): string {
+    const notes: string[] = [];
+    for (const [, attributes, note] of unitXml.matchAll(NOTE_REGEX)) {
+      const category =
+        getAttribute(attributes, "from") ??
+        getAttribute(attributes, "category");
+      if (category !== "location") {
+        notes.push(unescapeXml(note).trim());
+      }
+    }
+
+    return notes.length > 0 ? `${id} (${notes.join(" ")})` : id;
+  }
+}
+
+function isXliff2(content: string): boolean {
+  return /<xliff\b[^>]*\bversion="2\./.test(content);
+}
+
+function isTranslated(segment: XliffSegment): boolean {
+  return !!segment.target && !UNTRANSLATED_STATES.includes(segment.state ?? "");
+}
+
+function maskAltTrans(xml: string): string {
+  return xml.replace(ALT_TRANS_REGEX, (match) => " ".repeat(match.length));
+}
+
+/**
+ * Replaces inline elements with placeholders and decodes XML entities
+ */
+function toText(xml: string): PlaceholderText {
+  const { text, placeholders } = replaceWithPlaceholders(
+    xml,
+    CODE_ELEMENT_REGEX
+  );
+  return { text: unescapeXml(text), placeholders };
+}
+
+/**
+ * Encodes translated text as XML and restores the source's inline elements
+ */
+function fromText(text: string, sourceXml: string): string {
+  const { placeholders } = toText(sourceXml);
+  return restorePlaceholders(escapeXml(text), placeholders);
+}
+
+/**
+ * Replaces the <target> of a unit or inserts it after <source>
+ */
+function setTarget(xml: string, target: string): string {
+  const masked = maskAltTrans(xml);
+
+  const targetMatch = masked.match(TARGET_REGEX);
+  if (targetMatch) {
+    const start = targetMatch.index!;
+    return (
+      xml.substring(0, start) +
+      target +
+      xml.substring(start + targetMatch[0].length)
+    );
+  }
+
+  const sourceMatch = masked.match(SOURCE_REGEX);
+  if (!sourceMatch) {
+    return xml;
+  }
+
+  const sourceStart = sourceMatch.index!;
+  const sourceEnd = sourceStart + sourceMatch[0].length;
+
+  // Match the indentation of <source> when it's on its own line
+  const lineStart = xml.lastIndexOf("\n", sourceStart) + 1;
+  const indent = xml.substring(lineStart, sourceStart);
+  const separator = /^\s*$/.test(indent) ? `\n${indent}` : "";
+
+  return (
+    xml.substring(0, sourceEnd) + separator + target + xml.substring(sourceEnd)
+  );
+}
+
+function setSegmentTarget(
+  segmentXml: string,
+  target: string,
+  state?: string,
+  subState?: string
+): string {
+  return setTarget(segmentXml, target).replace(/^<segment\b[^>]*>/, (tag) => {
+    let segmentTag = state ? setAttribute(tag, "state", state) : tag;
+    if (subState) {
+      segmentTag = setAttribute(segmentTag, "subState", subState);
+    }
+    return segmentTag;
+  });
+}
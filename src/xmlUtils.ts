@@ -0,0 +1,91 @@
+/**
+ * Text of an XML element with its inline elements replaced by {{ph_N}} placeholders
+ */
+export interface PlaceholderText {
+  text: string;
+  placeholders: string[];
+}
+
+const PLACEHOLDER_REGEX = /\{\{ph_(\d+)\}\}/g;
+
+/**
+ * Replaces every match of elementRegex with a numbered placeholder
+ */
+export function replaceWithPlaceholders(
+  xml: string,
+  elementRegex: RegExp
+): PlaceholderText {
+  const placeholders: string[] = [];
+  const text = xml.replace(elementRegex, (element) => {
+    placeholders.push(element);
+    return `{{ph_${placeholders.length - 1}}}`;
+  });
+
+  return { text, placeholders };
+}
+
+/**
+ * Puts the original inline elements back in place of their placeholders
+ */
+export function restorePlaceholders(
+  text: string,
+  placeholders: string[]
+): string {
+  return text.replace(
+    PLACEHOLDER_REGEX,
+    (placeholder, index: string) => placeholders[Number(index)] ?? placeholder
+  );
+}
+
+export function getAttribute(
+  attributes: string,
+  name: string
+): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+/**
+ * Sets an attribute on an opening tag, replacing the existing value if present
+ */
+export function setAttribute(tag: string, name: string, value: string): string {
+  const attribute = `${name}="${escapeXml(value).replace(/"/g, "&quot;")}"`;
+  const existing = new RegExp(`\\b${name}="[^"]*"`);
+  if (existing.test(tag)) {
+    return tag.replace(existing, attribute);
+  }
+  return tag.replace(/\s*(\/?)>$/, ` ${attribute}$1>`);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export function unescapeXml(text: string): string {
+  return text.replace(
+    /&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-f]+);/gi,
+    (entity, name: string) => {
+      switch (name.toLowerCase()) {
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "amp":
+          return "&";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+        default:
+          return String.fromCodePoint(
+            name[1].toLowerCase() === "x"
+              ? parseInt(name.substring(2), 16)
+              : parseInt(name.substring(1), 10)
+          );
+      }
+    }
+  );
+}
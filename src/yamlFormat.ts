@@ -0,0 +1,235 @@
+import {
+  Document,
+  isAlias,
+  isCollection,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  Node,
+  Pair,
+} from "yaml";
+import type { FileFormatContext, FileFormatHandler } from "./fileFormats";
+
+const MERGE_KEY = "<<";
+
+/**
+ * YAML locale files (Rails `config/locales/en.yml`, i18next `locales/en/common.yaml`)
+ * Translated values are written into a copy of the existing target document, or of
+ * the source document for new files, so comments, anchors and aliases survive the round-trip
+ */
+export class YamlFormatHandler implements FileFormatHandler {
+  readonly displayName = "YAML";
+  readonly extensions = [".yml", ".yaml"] as const;
+  readonly useUnderscores = false;
+  readonly requiresPluralForms = false;
+  readonly storesAllLanguages = false;
+
+  toJson(fileContent: string, languageCode?: string): string {
+    const doc = this.parse(fileContent);
+    const data = doc.toJS();
+    const languageRoot = this.getLanguageRootPair(doc, languageCode);
+    const strings = languageRoot ? Object.values(data)[0] : data;
+
+    return JSON.stringify(strings ?? {}, null, 2);
+  }
+
+  readTargetStrings(content: string, languageCode: string): string {
+    return this.toJson(content, languageCode);
+  }
+
+  fromJson(translations: string, context: FileFormatContext): string {
+    const { sourceContent, targetLanguage, sourceLanguage } = context;
+    const sourceDoc = this.parse(sourceContent);
+    const translated = JSON.parse(translations);
+
+    const sourceRoot = this.getLanguageRootPair(sourceDoc, sourceLanguage);
+    const targetDoc = this.parseTarget(context.targetContent);
+    const targetRoot =
+      targetDoc && this.getLanguageRootPair(targetDoc, targetLanguage);
+
+    // The target keeps its own comments and order unless it has no strings yet
+    // or doesn't share the source's language root
+    const useTarget = !!targetDoc && !sourceRoot === !targetRoot;
+    const doc = useTarget ? targetDoc : sourceDoc;
+    const languageRoot = useTarget ? targetRoot : sourceRoot;
+
+    let root = doc.contents as Node | null;
+
+    // Rails-style files keep everything under the language key, the source's is renamed for the target
+    if (languageRoot) {
+      if (!useTarget && isScalar(languageRoot.key)) {
+        languageRoot.key.value = targetLanguage;
+      } else if (!useTarget) {
+        languageRoot.key = targetLanguage;
+      }
+      root = languageRoot.value as Node | null;
+    }
+
+    if (root && isCollection(root)) {
+      this.applyTranslations(doc, root, translated, useTarget);
+    } else if (languageRoot) {
+      languageRoot.value = doc.createNode(translated);
+    } else {
+      doc.contents = doc.createNode(translated);
+    }
+
+    // lineWidth 0 keeps long translated strings on one line instead of folding them
+    return doc.toString({ lineWidth: 0 });
+  }
+
+  private parse(content: string): Document {
+    const doc = parseDocument(content, { merge: true });
+    if (doc.errors.length > 0) {
+      throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+    }
+    return doc;
+  }
+
+  /**
+   * Parses the existing target file, undefined when it is missing, invalid or has no strings
+   */
+  private parseTarget(content?: string): Document | undefined {
+    if (!content) {
+      return undefined;
+    }
+    const doc = parseDocument(content, { merge: true });
+    return doc.errors.length === 0 && isMap(doc.contents) ? doc : undefined;
+  }
+
+  /**
+   * Returns the root pair when the document has a single root key that is the language code
+   * e.g. `en:` in Rails locale files
+   */
+  private getLanguageRootPair(
+    doc: Document,
+    languageCode?: string
+  ): Pair | undefined {
+    if (!languageCode || !isMap(doc.contents)) {
+      return undefined;
+    }
+
+    const items = doc.contents.items;
+    if (items.length !== 1) {
+      return undefined;
+    }
+
+    const pair = items[0];
+    const key = isScalar(pair.key) ? pair.key.value : pair.key;
+    if (typeof key !== "string") {
+      return undefined;
+    }
+
+    const normalize = (code: string) => code.replace(/_/g, "-").toLowerCase();
+    return normalize(key) === normalize(languageCode) ? pair : undefined;
+  }
+
+  /**
+   * Writes translated values into existing scalar nodes, recursing into maps and sequences
+   * Aliases are skipped because their anchor is translated in place
+   * Target documents also drop the keys the translations no longer have
+   */
+  private applyTranslations(
+    doc: Document,
+    node: Node,
+    translated: unknown,
+    removeMissing: boolean
+  ) {
+    if (isMap(node)) {
+      if (!translated || typeof translated !== "object") {
+        return;
+      }
+
+      const values = translated as Record<string, unknown>;
+      const existingKeys = new Set<string>();
+      const missingKeys: unknown[] = [];
+      let hasMergeKey = false;
+
+      for (const pair of node.items) {
+        const keyValue = isScalar(pair.key) ? pair.key.value : pair.key;
+
+        // With merge enabled the `<<` key is parsed as a symbol
+        if (typeof keyValue === "symbol" || keyValue === MERGE_KEY) {
+          hasMergeKey = true;
+          continue;
+        }
+
+        const key = String(keyValue);
+        existingKeys.add(key);
+
+        if (key in values) {
+          pair.value = this.updateNode(
+            doc,
+            pair.value as Node,
+            values[key],
+            removeMissing
+          );
+        } else if (removeMissing) {
+          missingKeys.push(pair.key);
+        }
+      }
+
+      for (const key of missingKeys) {
+        node.delete(key);
+      }
+
+      // Keys produced by the API that the source doesn't have (e.g. generated plural forms)
+      // Maps with merge keys already inherit their extra keys from the anchor
+      if (!hasMergeKey) {
+        for (const [key, value] of Object.entries(values)) {
+          if (!existingKeys.has(key)) {
+            node.set(key, doc.createNode(value));
+          }
+        }
+      }
+    } else if (isSeq(node)) {
+      if (!Array.isArray(translated)) {
+        return;
+      }
+
+      node.items.forEach((item, index) => {
+        if (index < translated.length) {
+          node.items[index] = this.updateNode(
+            doc,
+            item as Node,
+            translated[index],
+            removeMissing
+          );
+        }
+      });
+
+      if (removeMissing && node.items.length > translated.length) {
+        node.items.splice(translated.length);
+      }
+
+      for (let i = node.items.length; i < translated.length; i++) {
+        node.add(doc.createNode(translated[i]));
+      }
+    }
+  }
+
+  private updateNode(
+    doc: Document,
+    node: Node | null,
+    value: unknown,
+    removeMissing: boolean
+  ): Node | null {
+    if (!node) {
+      return value === undefined ? node : doc.createNode(value);
+    }
+
+    if (isAlias(node)) {
+      return node;
+    }
+
+    if (isScalar(node)) {
+      if (typeof value === "string") {
+        node.value = value;
+      }
+      return node;
+    }
+
+    this.applyTranslations(doc, node, value, removeMissing);
+    return node;
+  }
+}